@@ -13,21 +13,35 @@
 // limitations under the License.
 
 use std::{
-    collections::HashMap,
+    collections::{BTreeMap, BTreeSet, HashMap},
+    convert::Infallible,
     env,
+    ops::AddAssign,
     sync::{Arc, LazyLock, Mutex},
 };
 
 use axum::{
     Json, Router,
-    extract::{Path, State},
-    http::StatusCode,
-    response::{IntoResponse, Response},
-    routing::{get, post},
+    extract::{FromRef, Path, Query, Request, State},
+    http::{HeaderMap, StatusCode, header},
+    middleware::{self, Next},
+    response::{
+        IntoResponse, Response,
+        sse::{Event, KeepAlive, Sse},
+    },
+    routing::{get, post, put},
 };
+use futures_util::stream::{self, Stream};
 use regex::Regex;
-use rusqlite::{Connection, fallible_iterator::FallibleIterator, params};
+use rusqlite::{
+    Connection, OptionalExtension, ToSql,
+    fallible_iterator::FallibleIterator,
+    params,
+    types::{FromSql, FromSqlResult, ToSqlOutput, ValueRef},
+};
+use serde::{Deserialize, Deserializer, Serialize, Serializer, de::Error as _};
 use thiserror::Error;
+use tokio::sync::broadcast::{self, error::RecvError};
 use tower_http::{cors::CorsLayer, trace::TraceLayer};
 use tracing::{Level, info};
 
@@ -38,6 +52,8 @@ enum AppError {
     DatabaseError(#[from] rusqlite::Error),
     #[error("invalid request: {0}")]
     InvalidRequest(&'static str),
+    #[error("not logged in")]
+    Unauthorized,
 }
 
 impl IntoResponse for AppError {
@@ -45,6 +61,7 @@ impl IntoResponse for AppError {
         (
             match self {
                 Self::InvalidRequest(_) => StatusCode::BAD_REQUEST,
+                Self::Unauthorized => StatusCode::UNAUTHORIZED,
                 _ => StatusCode::INTERNAL_SERVER_ERROR,
             },
             format!("Something went wrong: {}", self),
@@ -53,27 +70,311 @@ impl IntoResponse for AppError {
     }
 }
 
+#[derive(Serialize, Deserialize)]
+struct NutrientDefinition {
+    /// Labels by language code, e.g. "en" or "de".
+    labels: BTreeMap<String, String>,
+    color: String,
+    position: i32,
+    /// Inactive nutrients are hidden, but their history is kept.
+    active: bool,
+}
+
+#[derive(Serialize, Deserialize)]
+struct Nutrient {
+    id: String,
+    #[serde(flatten)]
+    definition: NutrientDefinition,
+}
+
+fn list_nutrients(conn: &Connection) -> Result<Vec<Nutrient>, rusqlite::Error> {
+    let mut stmt = conn.prepare("SELECT nutrient, language, label FROM nutrient_labels")?;
+    let mut rows = stmt.query([])?;
+    let mut labels: HashMap<String, BTreeMap<String, String>> = HashMap::new();
+    while let Some(row) = rows.next()? {
+        labels
+            .entry(row.get(0)?)
+            .or_default()
+            .insert(row.get(1)?, row.get(2)?);
+    }
+
+    let mut stmt =
+        conn.prepare("SELECT id, color, position, active FROM nutrients ORDER BY position, id")?;
+    let rows = stmt.query([])?;
+    rows.map(|r| {
+        let id: String = r.get(0)?;
+        Ok(Nutrient {
+            definition: NutrientDefinition {
+                labels: labels.remove(&id).unwrap_or_default(),
+                color: r.get(1)?,
+                position: r.get(2)?,
+                active: r.get(3)?,
+            },
+            id,
+        })
+    })
+    .collect()
+}
+
+fn validate_nutrient(id: &str, definition: &NutrientDefinition) -> Result<(), AppError> {
+    if !is_valid_nutrient_id(id) {
+        return Err(AppError::InvalidRequest("invalid nutrient id"));
+    }
+    if !is_valid_color(&definition.color) {
+        return Err(AppError::InvalidRequest("invalid color"));
+    }
+    if definition.labels.values().any(|l| l.trim().is_empty()) {
+        return Err(AppError::InvalidRequest("empty label"));
+    }
+    Ok(())
+}
+
+/// Creates or replaces the definition of a nutrient. Must be called in a transaction.
+fn save_nutrient(
+    conn: &Connection,
+    id: &str,
+    definition: &NutrientDefinition,
+) -> Result<(), rusqlite::Error> {
+    conn.execute(
+        "INSERT INTO nutrients (id, color, position, active) VALUES (?1, ?2, ?3, ?4)
+        ON CONFLICT (id) DO UPDATE SET color = ?2, position = ?3, active = ?4",
+        params![id, definition.color, definition.position, definition.active],
+    )?;
+    conn.execute("DELETE FROM nutrient_labels WHERE nutrient = ?", [id])?;
+    for (language, label) in &definition.labels {
+        conn.execute(
+            "INSERT INTO nutrient_labels (nutrient, language, label) VALUES (?, ?, ?)",
+            params![id, language, label],
+        )?;
+    }
+    Ok(())
+}
+
+async fn get_nutrients(
+    conn: State<Arc<Mutex<Connection>>>,
+) -> Result<Json<Vec<Nutrient>>, AppError> {
+    let conn = conn.lock().unwrap();
+    Ok(Json(list_nutrients(&conn)?))
+}
+
+async fn put_nutrient(
+    conn: State<Arc<Mutex<Connection>>>,
+    changes: State<Changes>,
+    id: Path<String>,
+    Json(definition): Json<NutrientDefinition>,
+) -> Result<Json<&'static str>, AppError> {
+    validate_nutrient(&id, &definition)?;
+
+    let conn = conn.lock().unwrap();
+    let tx = conn.unchecked_transaction()?;
+    save_nutrient(&tx, &id, &definition)?;
+    tx.commit()?;
+    changes.publish(Change::Nutrients);
+    Ok(Json("success"))
+}
+
+/// A number of portions in steps of half a portion.
+///
+/// It's kept as the number of halves, so that sums are exact. Whole numbers are serialized
+/// as integers, e.g. `2`, and the others as decimals, e.g. `1.5`.
+#[derive(Clone, Copy, Debug, Default, PartialEq, Eq, PartialOrd, Ord)]
+struct Portions(i32);
+
+impl Portions {
+    fn one() -> Portions {
+        Portions(2)
+    }
+}
+
+impl AddAssign for Portions {
+    fn add_assign(&mut self, other: Portions) {
+        self.0 += other.0;
+    }
+}
+
+impl Serialize for Portions {
+    fn serialize<S: Serializer>(&self, serializer: S) -> Result<S::Ok, S::Error> {
+        if self.0 % 2 == 0 {
+            serializer.serialize_i32(self.0 / 2)
+        } else {
+            serializer.serialize_f64(f64::from(self.0) / 2.0)
+        }
+    }
+}
+
+impl<'de> Deserialize<'de> for Portions {
+    fn deserialize<D: Deserializer<'de>>(deserializer: D) -> Result<Portions, D::Error> {
+        let halves = f64::deserialize(deserializer)? * 2.0;
+        // Also rejects NaN and infinity, whose fractional part is NaN.
+        if halves.fract() != 0.0 || halves.abs() > f64::from(i32::MAX) {
+            return Err(D::Error::custom("expected a multiple of 0.5"));
+        }
+        Ok(Portions(halves as i32))
+    }
+}
+
+impl FromSql for Portions {
+    fn column_result(value: ValueRef<'_>) -> FromSqlResult<Portions> {
+        i32::column_result(value).map(Portions)
+    }
+}
+
+impl ToSql for Portions {
+    fn to_sql(&self) -> rusqlite::Result<ToSqlOutput<'_>> {
+        self.0.to_sql()
+    }
+}
+
+#[derive(Deserialize)]
+struct AmountQuery {
+    amount: Option<Portions>,
+}
+
+impl AmountQuery {
+    fn validated(&self) -> Result<Portions, AppError> {
+        validated_amount(self.amount)
+    }
+}
+
+/// Returns the amount, which is one portion if it's not given.
+fn validated_amount(amount: Option<Portions>) -> Result<Portions, AppError> {
+    match amount {
+        Some(amount) if amount <= Portions(0) => Err(AppError::InvalidRequest("invalid amount")),
+        amount => Ok(amount.unwrap_or_else(Portions::one)),
+    }
+}
+
 async fn get_portions_for_date(
     conn: State<Arc<Mutex<Connection>>>,
-    date: Path<String>,
-) -> Result<Json<HashMap<String, i32>>, AppError> {
+    Path((profile, date)): Path<(i64, String)>,
+) -> Result<Json<HashMap<String, Portions>>, AppError> {
     let conn = conn.lock().unwrap();
     let mut stmt = conn.prepare(
-        "SELECT name, SUM(CASE type WHEN 'consume' THEN 1 ELSE -1 END) FROM nutrient_events WHERE date = ? GROUP BY name",
+        "SELECT name, SUM(CASE type WHEN 'consume' THEN halves ELSE -halves END) FROM nutrient_events WHERE profile = ? AND date = ? GROUP BY name",
     )?;
-    let rows = stmt.query([date.0])?;
+    let rows = stmt.query(params![profile, date])?;
     Ok(Json(rows.map(|r| Ok((r.get(0)?, r.get(1)?))).collect()?))
 }
 
+#[derive(Deserialize)]
+struct DateRange {
+    from: String,
+    to: String,
+}
+
+async fn get_portions_for_range(
+    conn: State<Arc<Mutex<Connection>>>,
+    Path(profile): Path<i64>,
+    range: Query<DateRange>,
+) -> Result<Json<BTreeMap<String, HashMap<String, Portions>>>, AppError> {
+    if !is_valid_date(&range.from) || !is_valid_date(&range.to) {
+        return Err(AppError::InvalidRequest("invalid date"));
+    }
+    // ISO dates compare the same way as strings.
+    if range.from > range.to {
+        return Err(AppError::InvalidRequest("invalid date range"));
+    }
+
+    let conn = conn.lock().unwrap();
+    let mut stmt = conn.prepare(
+        "SELECT date, name, SUM(CASE type WHEN 'consume' THEN halves ELSE -halves END) FROM nutrient_events WHERE profile = ? AND date BETWEEN ? AND ? GROUP BY date, name",
+    )?;
+    let mut rows = stmt.query(params![profile, range.from, range.to])?;
+    let mut days: BTreeMap<String, HashMap<String, Portions>> = BTreeMap::new();
+    while let Some(row) = rows.next()? {
+        days.entry(row.get(0)?)
+            .or_default()
+            .insert(row.get(1)?, row.get(2)?);
+    }
+    Ok(Json(days))
+}
+
+/// Returns the portions recorded for `date` by meal. Portions recorded without a meal are left out.
+async fn get_meals_for_date(
+    conn: State<Arc<Mutex<Connection>>>,
+    Path((profile, date)): Path<(i64, String)>,
+) -> Result<Json<BTreeMap<String, HashMap<String, Portions>>>, AppError> {
+    if !is_valid_date(&date) {
+        return Err(AppError::InvalidRequest("invalid date"));
+    }
+
+    let conn = conn.lock().unwrap();
+    let mut stmt = conn.prepare(
+        "SELECT meal, name, SUM(CASE type WHEN 'consume' THEN halves ELSE -halves END) FROM nutrient_events WHERE profile = ? AND date = ? AND meal IS NOT NULL GROUP BY meal, name",
+    )?;
+    let mut rows = stmt.query(params![profile, date])?;
+    let mut meals: BTreeMap<String, HashMap<String, Portions>> = BTreeMap::new();
+    while let Some(row) = rows.next()? {
+        meals
+            .entry(row.get(0)?)
+            .or_default()
+            .insert(row.get(1)?, row.get(2)?);
+    }
+    Ok(Json(meals))
+}
+
+/// Returns the goals of `profile` in force on `date`, or today if it's `None`.
+fn goals_in_force(
+    conn: &Connection,
+    profile: i64,
+    date: Option<&str>,
+) -> Result<HashMap<String, Portions>, rusqlite::Error> {
+    let mut stmt = conn.prepare(
+        "SELECT nutrient, SUM(CASE type WHEN 'inc' THEN halves ELSE -halves END) FROM goal_events WHERE profile = ? AND effective_date <= COALESCE(?, date('now', 'localtime')) GROUP BY nutrient",
+    )?;
+    let rows = stmt.query(params![profile, date])?;
+    rows.map(|r| Ok((r.get(0)?, r.get(1)?))).collect()
+}
+
 async fn get_goals(
     conn: State<Arc<Mutex<Connection>>>,
-) -> Result<Json<HashMap<String, i32>>, AppError> {
+    Path(profile): Path<i64>,
+) -> Result<Json<HashMap<String, Portions>>, AppError> {
+    let conn = conn.lock().unwrap();
+    Ok(Json(goals_in_force(&conn, profile, None)?))
+}
+
+async fn get_goals_for_date(
+    conn: State<Arc<Mutex<Connection>>>,
+    Path((profile, date)): Path<(i64, String)>,
+) -> Result<Json<HashMap<String, Portions>>, AppError> {
+    if !is_valid_date(&date) {
+        return Err(AppError::InvalidRequest("invalid date"));
+    }
+
+    let conn = conn.lock().unwrap();
+    Ok(Json(goals_in_force(&conn, profile, Some(&date))?))
+}
+
+#[derive(Serialize)]
+struct GoalChange {
+    from: String,
+    goals: HashMap<String, Portions>,
+}
+
+async fn get_goal_history(
+    conn: State<Arc<Mutex<Connection>>>,
+    Path(profile): Path<i64>,
+) -> Result<Json<Vec<GoalChange>>, AppError> {
     let conn = conn.lock().unwrap();
     let mut stmt = conn.prepare(
-        "SELECT nutrient, SUM(CASE type WHEN 'inc' THEN 1 ELSE -1 END) FROM goal_events GROUP BY nutrient",
+        "SELECT effective_date, nutrient, SUM(CASE type WHEN 'inc' THEN halves ELSE -halves END) FROM goal_events WHERE profile = ? GROUP BY effective_date, nutrient ORDER BY effective_date",
     )?;
-    let rows = stmt.query([])?;
-    Ok(Json(rows.map(|r| Ok((r.get(0)?, r.get(1)?))).collect()?))
+    let mut rows = stmt.query([profile])?;
+    let mut history: Vec<GoalChange> = Vec::new();
+    while let Some(row) = rows.next()? {
+        let from: String = row.get(0)?;
+        if history.last().is_none_or(|c| c.from != from) {
+            // Each change applies on top of the goals in force before it.
+            let goals = history.last().map(|c| c.goals.clone()).unwrap_or_default();
+            history.push(GoalChange { from, goals });
+        }
+        let change = history.last_mut().unwrap();
+        *change.goals.entry(row.get(1)?).or_default() += row.get::<_, Portions>(2)?;
+    }
+    // Changes cancelling each other out on the same day are not changes.
+    history.dedup_by(|later, earlier| later.goals == earlier.goals);
+    Ok(Json(history))
 }
 
 fn is_valid_date(date: &str) -> bool {
@@ -82,292 +383,2423 @@ fn is_valid_date(date: &str) -> bool {
     RE.is_match(date)
 }
 
-fn is_valid_nutrient(nutrient: &str) -> bool {
-    static NUTRIENTS: [&str; 4] = ["protein", "carbs", "vegetables", "fats"];
-    NUTRIENTS.contains(&nutrient)
+fn is_valid_nutrient(conn: &Connection, nutrient: &str) -> Result<bool, rusqlite::Error> {
+    conn.query_row(
+        "SELECT EXISTS (SELECT 1 FROM nutrients WHERE id = ?)",
+        [nutrient],
+        |r| r.get(0),
+    )
+}
+
+fn is_valid_profile(conn: &Connection, profile: i64) -> Result<bool, rusqlite::Error> {
+    conn.query_row(
+        "SELECT EXISTS (SELECT 1 FROM profiles WHERE id = ?)",
+        [profile],
+        |r| r.get(0),
+    )
+}
+
+fn is_valid_meal(meal: &str) -> bool {
+    static MEALS: [&str; 4] = ["breakfast", "lunch", "dinner", "snack"];
+    MEALS.contains(&meal)
+}
+
+// Nutrient ids are used in CSS class names by the frontend.
+fn is_valid_nutrient_id(id: &str) -> bool {
+    static RE: LazyLock<Regex> = LazyLock::new(|| Regex::new(r"^[a-z][a-z0-9-]{0,31}$").unwrap());
+    RE.is_match(id)
+}
+
+fn is_valid_color(color: &str) -> bool {
+    static RE: LazyLock<Regex> = LazyLock::new(|| Regex::new(r"^#[[:xdigit:]]{6}$").unwrap());
+    RE.is_match(color)
+}
+
+/// Returns the key sent as `Idempotency-Key`. It identifies a command, so that the command is
+/// applied only once however many times it's sent.
+fn idempotency_key(headers: &HeaderMap) -> Result<Option<&str>, AppError> {
+    static RE: LazyLock<Regex> = LazyLock::new(|| Regex::new(r"^[[:alnum:]-]{1,64}$").unwrap());
+    let Some(key) = headers.get("idempotency-key") else {
+        return Ok(None);
+    };
+    match key.to_str() {
+        Ok(key) if RE.is_match(key) => Ok(Some(key)),
+        _ => Err(AppError::InvalidRequest("invalid idempotency key")),
+    }
+}
+
+/// Whether the command identified by `key` was already applied.
+fn is_applied(conn: &Connection, key: Option<&str>) -> Result<bool, rusqlite::Error> {
+    let Some(key) = key else {
+        return Ok(false);
+    };
+    conn.query_row(
+        "SELECT EXISTS (SELECT 1 FROM nutrient_events WHERE command_id = ?1)
+            OR EXISTS (SELECT 1 FROM goal_events WHERE command_id = ?1)",
+        [key],
+        |r| r.get(0),
+    )
+}
+
+#[derive(Deserialize)]
+struct MealQuery {
+    meal: Option<String>,
+}
+
+impl MealQuery {
+    fn validated(&self) -> Result<Option<&str>, AppError> {
+        validated_meal(self.meal.as_deref())
+    }
+}
+
+fn validated_meal(meal: Option<&str>) -> Result<Option<&str>, AppError> {
+    match meal {
+        Some(meal) if !is_valid_meal(meal) => Err(AppError::InvalidRequest("invalid meal")),
+        meal => Ok(meal),
+    }
 }
 
 async fn consume_portion(
     conn: State<Arc<Mutex<Connection>>>,
-    Path((date, nutrient)): Path<(String, String)>,
+    changes: State<Changes>,
+    Path((profile, date, nutrient)): Path<(i64, String, String)>,
+    meal: Query<MealQuery>,
+    amount: Query<AmountQuery>,
+    headers: HeaderMap,
 ) -> Result<Json<&'static str>, AppError> {
     if !is_valid_date(&date) {
         return Err(AppError::InvalidRequest("invalid date"));
     }
-    if !is_valid_nutrient(&nutrient) {
-        return Err(AppError::InvalidRequest("invalid nutrient"));
-    }
+    let meal = meal.validated()?;
+    let amount = amount.validated()?;
+    let command_id = idempotency_key(&headers)?;
 
     let conn = conn.lock().unwrap();
-
-    conn.execute(
-        "INSERT INTO nutrient_events(name, date, type) VALUES (?, ?, 'consume')",
-        [&nutrient, &date],
-    )?;
+    if is_applied(&conn, command_id)? {
+        return Ok(Json("duplicate"));
+    }
+    consume_portion_on(&conn, profile, &date, &nutrient, meal, amount, command_id)?;
+    changes.publish(Change::Portions { profile, date });
 
     Ok(Json("success"))
 }
 
+/// Removes portions recorded for `meal`, or without a meal if it's not given.
 async fn unconsume_portion(
     conn: State<Arc<Mutex<Connection>>>,
-    Path((date, nutrient)): Path<(String, String)>,
+    changes: State<Changes>,
+    Path((profile, date, nutrient)): Path<(i64, String, String)>,
+    meal: Query<MealQuery>,
+    amount: Query<AmountQuery>,
+    headers: HeaderMap,
 ) -> Result<Json<&'static str>, AppError> {
     if !is_valid_date(&date) {
         return Err(AppError::InvalidRequest("invalid date"));
     }
-    if !is_valid_nutrient(&nutrient) {
+    let meal = meal.validated()?;
+    let amount = amount.validated()?;
+    let command_id = idempotency_key(&headers)?;
+
+    let conn = conn.lock().unwrap();
+    if is_applied(&conn, command_id)? {
+        return Ok(Json("duplicate"));
+    }
+    unconsume_portion_on(&conn, profile, &date, &nutrient, meal, amount, command_id)?;
+    changes.publish(Change::Portions { profile, date });
+
+    Ok(Json("success"))
+}
+
+/// Records `amount` portions of `nutrient` consumed on `date`.
+fn consume_portion_on(
+    conn: &Connection,
+    profile: i64,
+    date: &str,
+    nutrient: &str,
+    meal: Option<&str>,
+    amount: Portions,
+    command_id: Option<&str>,
+) -> Result<(), AppError> {
+    if !is_valid_profile(conn, profile)? {
+        return Err(AppError::InvalidRequest("unknown profile"));
+    }
+    if !is_valid_nutrient(conn, nutrient)? {
         return Err(AppError::InvalidRequest("invalid nutrient"));
     }
 
-    let conn = conn.lock().unwrap();
+    conn.execute(
+        "INSERT INTO nutrient_events(profile, name, date, type, meal, halves, command_id) VALUES (?, ?, ?, 'consume', ?, ?, ?)",
+        params![profile, nutrient, date, meal, amount, command_id],
+    )?;
+    Ok(())
+}
+
+/// Removes `amount` portions of `nutrient` recorded on `date` for `meal`, or without a meal if
+/// it's `None`.
+fn unconsume_portion_on(
+    conn: &Connection,
+    profile: i64,
+    date: &str,
+    nutrient: &str,
+    meal: Option<&str>,
+    amount: Portions,
+    command_id: Option<&str>,
+) -> Result<(), AppError> {
+    if !is_valid_profile(conn, profile)? {
+        return Err(AppError::InvalidRequest("unknown profile"));
+    }
+    if !is_valid_nutrient(conn, nutrient)? {
+        return Err(AppError::InvalidRequest("invalid nutrient"));
+    }
 
     // It's safe to do the check and update without transaction because mutex enforces no parallelism
-    let count: Option<i32> = conn.query_row(
-        "SELECT SUM(CASE type WHEN 'consume' THEN 1 ELSE -1 END) FROM nutrient_events WHERE date = ? AND name = ?",
-        [&date, &nutrient],
+    let count: Option<Portions> = conn.query_row(
+        "SELECT SUM(CASE type WHEN 'consume' THEN halves ELSE -halves END) FROM nutrient_events WHERE profile = ? AND date = ? AND name = ? AND meal IS ?",
+        params![profile, date, nutrient, meal],
         |r| r.get(0))?;
-    if count.is_none_or(|x| x == 0) {
+    if count.is_none_or(|x| x < amount) {
         return Err(AppError::InvalidRequest(
-            "can't unconsume because the count is already 0",
+            "can't unconsume because the count would become negative",
         ));
     }
 
     conn.execute(
-        "INSERT INTO nutrient_events(name, date, type) VALUES (?, ?, 'unconsume')",
-        [&nutrient, &date],
+        "INSERT INTO nutrient_events(profile, name, date, type, meal, halves, command_id) VALUES (?, ?, ?, 'unconsume', ?, ?, ?)",
+        params![profile, nutrient, date, meal, amount, command_id],
     )?;
+    Ok(())
+}
 
-    Ok(Json("success"))
+#[derive(Serialize)]
+struct DayEvent {
+    id: i64,
+    timestamp: i64,
+    nutrient: String,
+    #[serde(rename = "type")]
+    kind: String,
+    meal: Option<String>,
+    amount: Portions,
+    retracted: bool,
 }
 
-async fn inc_goal(
-    nutrient: Path<String>,
+/// Returns the events recorded for `date` in the order they were recorded. Retractions are
+/// left out, instead the events they retract are marked as retracted.
+async fn get_events_for_date(
     conn: State<Arc<Mutex<Connection>>>,
+    Path((profile, date)): Path<(i64, String)>,
+) -> Result<Json<Vec<DayEvent>>, AppError> {
+    if !is_valid_date(&date) {
+        return Err(AppError::InvalidRequest("invalid date"));
+    }
+
+    let conn = conn.lock().unwrap();
+    let mut stmt = conn.prepare(
+        "SELECT id, timestamp, name, type, meal, halves, EXISTS (SELECT 1 FROM nutrient_events AS r WHERE r.retracts = e.id)
+        FROM nutrient_events AS e WHERE profile = ? AND date = ? AND retracts IS NULL ORDER BY id",
+    )?;
+    let rows = stmt.query(params![profile, date])?;
+    Ok(Json(
+        rows.map(|r| {
+            Ok(DayEvent {
+                id: r.get(0)?,
+                timestamp: r.get(1)?,
+                nutrient: r.get(2)?,
+                kind: r.get(3)?,
+                meal: r.get(4)?,
+                amount: r.get(5)?,
+                retracted: r.get(6)?,
+            })
+        })
+        .collect()?,
+    ))
+}
+
+/// Cancels out an event recorded for `date` by recording the opposite one.
+async fn retract_event(
+    conn: State<Arc<Mutex<Connection>>>,
+    changes: State<Changes>,
+    Path((profile, date, id)): Path<(i64, String, i64)>,
+    headers: HeaderMap,
 ) -> Result<Json<&'static str>, AppError> {
-    if !is_valid_nutrient(&nutrient) {
-        return Err(AppError::InvalidRequest("invalid nutrient"));
+    if !is_valid_date(&date) {
+        return Err(AppError::InvalidRequest("invalid date"));
     }
+    let command_id = idempotency_key(&headers)?;
 
     let conn = conn.lock().unwrap();
+    if is_applied(&conn, command_id)? {
+        return Ok(Json("duplicate"));
+    }
+    let event: Option<(String, String, Option<String>, Portions, bool, bool)> = conn
+        .query_row(
+            "SELECT name, type, meal, halves, retracts IS NOT NULL, EXISTS (SELECT 1 FROM nutrient_events AS r WHERE r.retracts = e.id)
+            FROM nutrient_events AS e WHERE id = ? AND profile = ? AND date = ?",
+            params![id, profile, date],
+            |r| Ok((r.get(0)?, r.get(1)?, r.get(2)?, r.get(3)?, r.get(4)?, r.get(5)?)),
+        )
+        .optional()?;
+    let Some((nutrient, kind, meal, amount, is_retraction, retracted)) = event else {
+        return Err(AppError::InvalidRequest("unknown event"));
+    };
+    if is_retraction {
+        return Err(AppError::InvalidRequest("can't retract a retraction"));
+    }
+    if retracted {
+        return Err(AppError::InvalidRequest("the event is already retracted"));
+    }
+
+    // It's safe to do the check and update without transaction because mutex enforces no parallelism
+    if kind == "consume" {
+        let count: Portions = conn.query_row(
+            "SELECT SUM(CASE type WHEN 'consume' THEN halves ELSE -halves END) FROM nutrient_events WHERE profile = ? AND date = ? AND name = ? AND meal IS ?",
+            params![profile, date, nutrient, meal],
+            |r| r.get(0),
+        )?;
+        if count < amount {
+            return Err(AppError::InvalidRequest(
+                "can't retract because the count would become negative",
+            ));
+        }
+    }
 
     conn.execute(
-        "INSERT INTO goal_events (nutrient, type) VALUES (?, ?)",
-        params![&*nutrient, "inc"],
+        "INSERT INTO nutrient_events (profile, name, date, type, meal, halves, retracts, command_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?)",
+        params![
+            profile,
+            nutrient,
+            date,
+            if kind == "consume" {
+                "unconsume"
+            } else {
+                "consume"
+            },
+            meal,
+            amount,
+            id,
+            command_id
+        ],
     )?;
+    changes.publish(Change::Portions { profile, date });
     Ok(Json("success"))
 }
 
-async fn dec_goal(
-    nutrient: Path<String>,
-    conn: State<Arc<Mutex<Connection>>>,
+/// Increases the goal from `date` on, or from today if it's `None`.
+fn inc_goal_from(
+    conn: &Connection,
+    profile: i64,
+    nutrient: &str,
+    date: Option<&str>,
+    amount: Portions,
+    command_id: Option<&str>,
 ) -> Result<Json<&'static str>, AppError> {
-    if !is_valid_nutrient(&nutrient) {
+    if !is_valid_profile(conn, profile)? {
+        return Err(AppError::InvalidRequest("unknown profile"));
+    }
+    if !is_valid_nutrient(conn, nutrient)? {
         return Err(AppError::InvalidRequest("invalid nutrient"));
     }
 
-    let conn = conn.lock().unwrap();
+    conn.execute(
+        "INSERT INTO goal_events (profile, nutrient, type, effective_date, halves, command_id) VALUES (?, ?, ?, COALESCE(?, date('now', 'localtime')), ?, ?)",
+        params![profile, nutrient, "inc", date, amount, command_id],
+    )?;
+    Ok(Json("success"))
+}
+
+/// Decreases the goal from `date` on, or from today if it's `None`.
+fn dec_goal_from(
+    conn: &Connection,
+    profile: i64,
+    nutrient: &str,
+    date: Option<&str>,
+    amount: Portions,
+    command_id: Option<&str>,
+) -> Result<Json<&'static str>, AppError> {
+    if !is_valid_profile(conn, profile)? {
+        return Err(AppError::InvalidRequest("unknown profile"));
+    }
+    if !is_valid_nutrient(conn, nutrient)? {
+        return Err(AppError::InvalidRequest("invalid nutrient"));
+    }
 
+    // The goal must not go below 0 on any day from `date` on. It only changes on the days
+    // changes take effect, so it's enough to check those.
     // It's safe to do the check and update without transaction because mutex enforces no parallelism
-    let count: Option<i32> = conn.query_row(
-        "SELECT SUM(CASE type WHEN 'inc' THEN 1 ELSE -1 END) FROM goal_events WHERE nutrient = ?",
-        [&*nutrient],
+    let count: Option<Portions> = conn.query_row(
+        "SELECT MIN((SELECT SUM(CASE type WHEN 'inc' THEN halves ELSE -halves END) FROM goal_events WHERE profile = ?3 AND nutrient = ?1 AND effective_date <= dates.date))
+        FROM (
+            SELECT COALESCE(?2, date('now', 'localtime')) AS date
+            UNION SELECT effective_date FROM goal_events WHERE profile = ?3 AND nutrient = ?1 AND effective_date > COALESCE(?2, date('now', 'localtime'))
+        ) AS dates",
+        params![nutrient, date, profile],
         |r| r.get(0),
     )?;
-    if count.is_none_or(|x| x == 0) {
+    if count.is_none_or(|x| x < amount) {
         return Err(AppError::InvalidRequest(
-            "can't decrease because the goal is already 0",
+            "can't decrease because the goal would become negative",
         ));
     }
 
     conn.execute(
-        "INSERT INTO goal_events (nutrient, type) VALUES (?, ?)",
-        params![&*nutrient, "dec"],
+        "INSERT INTO goal_events (profile, nutrient, type, effective_date, halves, command_id) VALUES (?, ?, ?, COALESCE(?, date('now', 'localtime')), ?, ?)",
+        params![profile, nutrient, "dec", date, amount, command_id],
     )?;
     Ok(Json("success"))
 }
 
-fn router(conn: rusqlite::Connection) -> Router {
-    Router::new()
-        // queries
-        .route("/days/{date}/portions", get(get_portions_for_date))
-        .route("/goals", get(get_goals))
-        // commands
-        .route(
-            "/days/{date}/portions/{nutrient}/consume",
-            post(consume_portion),
-        )
-        .route(
-            "/days/{date}/portions/{nutrient}/unconsume",
-            post(unconsume_portion),
-        )
-        .route("/goals/portions/{nutrient}/inc", post(inc_goal))
-        .route("/goals/portions/{nutrient}/dec", post(dec_goal))
-        .layer(CorsLayer::permissive())
-        .layer(TraceLayer::new_for_http())
-        .with_state(Arc::new(Mutex::new(conn)))
+async fn inc_goal(
+    Path((profile, nutrient)): Path<(i64, String)>,
+    amount: Query<AmountQuery>,
+    conn: State<Arc<Mutex<Connection>>>,
+    changes: State<Changes>,
+    headers: HeaderMap,
+) -> Result<Json<&'static str>, AppError> {
+    let amount = amount.validated()?;
+    let command_id = idempotency_key(&headers)?;
+    let conn = conn.lock().unwrap();
+    if is_applied(&conn, command_id)? {
+        return Ok(Json("duplicate"));
+    }
+    let result = inc_goal_from(&conn, profile, &nutrient, None, amount, command_id)?;
+    changes.publish(Change::Goals { profile });
+    Ok(result)
 }
 
-fn setup_db(conn: &Connection) -> Result<(), rusqlite::Error> {
-    // SQLite3 performance settings.
-    // Without these, even simple writes take 10-15ms. With these, they're nearly instantenuous (<1ms).
-    conn.execute_batch("PRAGMA journal_mode = WAL; PRAGMA synchronous = NORMAL;")?;
-    // Design notes:
-    // - pure event sourcing for sync and simple design
-    // - PRIMARY KEY is id, not timestamp, to save me from battling disambiguation if
-    //   multiple things happen at the same time
-    // Possible future optimisations:
-    // - indices to support the queries better
-    // - materialized views to avoid processing all events
-    conn.execute(
-        "CREATE TABLE IF NOT EXISTS nutrient_events (
-            id INTEGER PRIMARY KEY,
-            timestamp INT DEFAULT(unixepoch('subsec') * 1000),
-            name TEXT NOT NULL CHECK (name in ('protein', 'carbs', 'vegetables', 'fats')),
-            date TEXT NOT NULL,
-            type TEXT NOT NULL CHECK (type in ('consume', 'unconsume'))) STRICT",
-        [],
-    )?;
-    conn.execute(
-        "CREATE TABLE IF NOT EXISTS goal_events (
-            id INTEGER PRIMARY KEY,
-            timestamp INT DEFAULT(unixepoch('subsec') * 1000),
-            nutrient TEXT NOT NULL CHECK (nutrient in ('protein', 'carbs', 'vegetables', 'fats')),
-            type TEXT NOT NULL CHECK (type in ('inc', 'dec'))) STRICT",
-        [],
-    )?;
-    Ok(())
+async fn dec_goal(
+    Path((profile, nutrient)): Path<(i64, String)>,
+    amount: Query<AmountQuery>,
+    conn: State<Arc<Mutex<Connection>>>,
+    changes: State<Changes>,
+    headers: HeaderMap,
+) -> Result<Json<&'static str>, AppError> {
+    let amount = amount.validated()?;
+    let command_id = idempotency_key(&headers)?;
+    let conn = conn.lock().unwrap();
+    if is_applied(&conn, command_id)? {
+        return Ok(Json("duplicate"));
+    }
+    let result = dec_goal_from(&conn, profile, &nutrient, None, amount, command_id)?;
+    changes.publish(Change::Goals { profile });
+    Ok(result)
 }
 
-#[tokio::main]
-async fn main() {
-    tracing_subscriber::fmt()
-        .with_max_level(Level::TRACE)
-        .init();
+async fn inc_scheduled_goal(
+    Path((profile, date, nutrient)): Path<(i64, String, String)>,
+    amount: Query<AmountQuery>,
+    conn: State<Arc<Mutex<Connection>>>,
+    changes: State<Changes>,
+    headers: HeaderMap,
+) -> Result<Json<&'static str>, AppError> {
+    if !is_valid_date(&date) {
+        return Err(AppError::InvalidRequest("invalid date"));
+    }
+    let amount = amount.validated()?;
+    let command_id = idempotency_key(&headers)?;
+
+    let conn = conn.lock().unwrap();
+    if is_applied(&conn, command_id)? {
+        return Ok(Json("duplicate"));
+    }
+    let result = inc_goal_from(&conn, profile, &nutrient, Some(&date), amount, command_id)?;
+    changes.publish(Change::Goals { profile });
+    Ok(result)
+}
+
+async fn dec_scheduled_goal(
+    Path((profile, date, nutrient)): Path<(i64, String, String)>,
+    amount: Query<AmountQuery>,
+    conn: State<Arc<Mutex<Connection>>>,
+    changes: State<Changes>,
+    headers: HeaderMap,
+) -> Result<Json<&'static str>, AppError> {
+    if !is_valid_date(&date) {
+        return Err(AppError::InvalidRequest("invalid date"));
+    }
+    let amount = amount.validated()?;
+    let command_id = idempotency_key(&headers)?;
+
+    let conn = conn.lock().unwrap();
+    if is_applied(&conn, command_id)? {
+        return Ok(Json("duplicate"));
+    }
+    let result = dec_goal_from(&conn, profile, &nutrient, Some(&date), amount, command_id)?;
+    changes.publish(Change::Goals { profile });
+    Ok(result)
+}
+
+/// One of the commands applied together by `apply_commands`, the same as those sent one by one.
+#[derive(Deserialize)]
+#[serde(tag = "type", rename_all = "lowercase")]
+enum Command {
+    Consume {
+        date: String,
+        nutrient: String,
+        meal: Option<String>,
+        amount: Option<Portions>,
+    },
+    Unconsume {
+        date: String,
+        nutrient: String,
+        meal: Option<String>,
+        amount: Option<Portions>,
+    },
+    /// Increases the goal from `date` on, or from today if it's not given.
+    Inc {
+        date: Option<String>,
+        nutrient: String,
+        amount: Option<Portions>,
+    },
+    /// Decreases the goal from `date` on, or from today if it's not given.
+    Dec {
+        date: Option<String>,
+        nutrient: String,
+        amount: Option<Portions>,
+    },
+}
+
+impl Command {
+    /// Applies the command, returning the change it made. Must be called in a transaction, as
+    /// it may fail after the previous commands were applied.
+    fn apply(
+        &self,
+        conn: &Connection,
+        profile: i64,
+        command_id: Option<&str>,
+    ) -> Result<Change, AppError> {
+        match self {
+            Command::Consume {
+                date,
+                nutrient,
+                meal,
+                amount,
+            }
+            | Command::Unconsume {
+                date,
+                nutrient,
+                meal,
+                amount,
+            } => {
+                if !is_valid_date(date) {
+                    return Err(AppError::InvalidRequest("invalid date"));
+                }
+                let meal = validated_meal(meal.as_deref())?;
+                let amount = validated_amount(*amount)?;
+                if matches!(self, Command::Consume { .. }) {
+                    consume_portion_on(conn, profile, date, nutrient, meal, amount, command_id)?;
+                } else {
+                    unconsume_portion_on(conn, profile, date, nutrient, meal, amount, command_id)?;
+                }
+                Ok(Change::Portions {
+                    profile,
+                    date: date.clone(),
+                })
+            }
+            Command::Inc {
+                date,
+                nutrient,
+                amount,
+            }
+            | Command::Dec {
+                date,
+                nutrient,
+                amount,
+            } => {
+                if date.as_deref().is_some_and(|date| !is_valid_date(date)) {
+                    return Err(AppError::InvalidRequest("invalid date"));
+                }
+                let amount = validated_amount(*amount)?;
+                if matches!(self, Command::Inc { .. }) {
+                    inc_goal_from(conn, profile, nutrient, date.as_deref(), amount, command_id)?;
+                } else {
+                    dec_goal_from(conn, profile, nutrient, date.as_deref(), amount, command_id)?;
+                }
+                Ok(Change::Goals { profile })
+            }
+        }
+    }
+}
+
+/// Applies the commands in order, all of them or none if any is rejected. Each one sees the
+/// changes made by the previous ones, e.g. portions consumed earlier in the list can be
+/// unconsumed later.
+async fn apply_commands(
+    conn: State<Arc<Mutex<Connection>>>,
+    changes: State<Changes>,
+    Path(profile): Path<i64>,
+    headers: HeaderMap,
+    Json(commands): Json<Vec<Command>>,
+) -> Result<Json<&'static str>, AppError> {
+    let command_id = idempotency_key(&headers)?;
+    if commands.is_empty() {
+        return Err(AppError::InvalidRequest("no commands"));
+    }
+
+    let conn = conn.lock().unwrap();
+    if is_applied(&conn, command_id)? {
+        return Ok(Json("duplicate"));
+    }
+
+    let tx = conn.unchecked_transaction()?;
+    let mut made = Vec::new();
+    for (i, command) in commands.iter().enumerate() {
+        // Command ids are unique, so the batch is identified by its first event.
+        let change = command.apply(&tx, profile, command_id.filter(|_| i == 0))?;
+        if !made.contains(&change) {
+            made.push(change);
+        }
+    }
+    tx.commit()?;
+    for change in made {
+        changes.publish(change);
+    }
+
+    Ok(Json("success"))
+}
+
+#[derive(Serialize, Deserialize)]
+struct PortionEvent {
+    timestamp: i64,
+    date: String,
+    nutrient: String,
+    #[serde(rename = "type")]
+    kind: String,
+    /// Missing in exports made before meals were recorded.
+    #[serde(default)]
+    meal: Option<String>,
+    /// Missing in exports made before half portions were recorded.
+    #[serde(default = "Portions::one")]
+    amount: Portions,
+}
+
+#[derive(Serialize, Deserialize)]
+struct GoalEvent {
+    timestamp: i64,
+    /// The date the change takes effect.
+    from: String,
+    nutrient: String,
+    #[serde(rename = "type")]
+    kind: String,
+    /// Missing in exports made before half portions were recorded.
+    #[serde(default = "Portions::one")]
+    amount: Portions,
+}
+
+/// All the data, in the form it's stored in.
+#[derive(Serialize, Deserialize)]
+struct Export {
+    nutrients: Vec<Nutrient>,
+    portions: Vec<PortionEvent>,
+    goals: Vec<GoalEvent>,
+}
+
+/// Exports the events of `profile`, along with the nutrients shared by all profiles.
+async fn export(
+    conn: State<Arc<Mutex<Connection>>>,
+    Path(profile): Path<i64>,
+) -> Result<Json<Export>, AppError> {
+    let conn = conn.lock().unwrap();
+    let mut stmt = conn.prepare(
+        "SELECT timestamp, date, name, type, meal, halves FROM nutrient_events WHERE profile = ? ORDER BY id",
+    )?;
+    let rows = stmt.query([profile])?;
+    let portions: Vec<PortionEvent> = rows
+        .map(|r| {
+            Ok(PortionEvent {
+                timestamp: r.get(0)?,
+                date: r.get(1)?,
+                nutrient: r.get(2)?,
+                kind: r.get(3)?,
+                meal: r.get(4)?,
+                amount: r.get(5)?,
+            })
+        })
+        .collect()?;
+    let mut stmt = conn.prepare(
+        "SELECT timestamp, effective_date, nutrient, type, halves FROM goal_events WHERE profile = ? ORDER BY id",
+    )?;
+    let rows = stmt.query([profile])?;
+    let goals: Vec<GoalEvent> = rows
+        .map(|r| {
+            Ok(GoalEvent {
+                timestamp: r.get(0)?,
+                from: r.get(1)?,
+                nutrient: r.get(2)?,
+                kind: r.get(3)?,
+                amount: r.get(4)?,
+            })
+        })
+        .collect()?;
+    Ok(Json(Export {
+        nutrients: list_nutrients(&conn)?,
+        portions,
+        goals,
+    }))
+}
+
+#[derive(Deserialize)]
+struct ImportOptions {
+    #[serde(default)]
+    dry_run: bool,
+}
+
+/// What an import adds. Events that are already stored are skipped as duplicates.
+#[derive(Serialize, Default)]
+struct ImportSummary {
+    nutrients: usize,
+    portions: usize,
+    goals: usize,
+    /// The number of days the added portions are recorded on.
+    days: usize,
+    duplicates: usize,
+    /// Dates on which both the stored and the added events record portions or change goals.
+    conflicts: BTreeSet<String>,
+}
+
+/// Adds exported data to `profile`. Nutrients that already exist keep their definitions.
+///
+/// With `dry_run`, only reports what would be added.
+async fn import(
+    conn: State<Arc<Mutex<Connection>>>,
+    changes: State<Changes>,
+    Path(profile): Path<i64>,
+    options: Query<ImportOptions>,
+    Json(data): Json<Export>,
+) -> Result<Json<ImportSummary>, AppError> {
+    for nutrient in &data.nutrients {
+        validate_nutrient(&nutrient.id, &nutrient.definition)?;
+    }
+    for event in &data.portions {
+        if !is_valid_date(&event.date) {
+            return Err(AppError::InvalidRequest("invalid date"));
+        }
+        if event.kind != "consume" && event.kind != "unconsume" {
+            return Err(AppError::InvalidRequest("invalid portion event type"));
+        }
+        if event
+            .meal
+            .as_deref()
+            .is_some_and(|meal| !is_valid_meal(meal))
+        {
+            return Err(AppError::InvalidRequest("invalid meal"));
+        }
+        if event.amount <= Portions(0) {
+            return Err(AppError::InvalidRequest("invalid amount"));
+        }
+    }
+    for event in &data.goals {
+        if !is_valid_date(&event.from) {
+            return Err(AppError::InvalidRequest("invalid date"));
+        }
+        if event.kind != "inc" && event.kind != "dec" {
+            return Err(AppError::InvalidRequest("invalid goal event type"));
+        }
+        if event.amount <= Portions(0) {
+            return Err(AppError::InvalidRequest("invalid amount"));
+        }
+    }
+
+    let conn = conn.lock().unwrap();
+    if !is_valid_profile(&conn, profile)? {
+        return Err(AppError::InvalidRequest("unknown profile"));
+    }
+    // Dropping the transaction without committing it rolls the import back.
+    let tx = conn.unchecked_transaction()?;
+    let mut summary = ImportSummary::default();
+    for nutrient in &data.nutrients {
+        if !is_valid_nutrient(&tx, &nutrient.id)? {
+            save_nutrient(&tx, &nutrient.id, &nutrient.definition)?;
+            summary.nutrients += 1;
+        }
+    }
+
+    // Everything is checked against the stored data before adding anything.
+    let mut portions = Vec::new();
+    let mut days = BTreeSet::new();
+    for event in &data.portions {
+        if !is_valid_nutrient(&tx, &event.nutrient)? {
+            return Err(AppError::InvalidRequest("unknown nutrient"));
+        }
+        let (duplicate, conflict): (bool, bool) = tx.query_row(
+            "SELECT
+                EXISTS (SELECT 1 FROM nutrient_events WHERE profile = ?7 AND timestamp = ?1 AND date = ?2 AND name = ?3 AND type = ?4 AND meal IS ?5 AND halves = ?6),
+                EXISTS (SELECT 1 FROM nutrient_events WHERE profile = ?7 AND date = ?2)",
+            params![event.timestamp, event.date, event.nutrient, event.kind, event.meal, event.amount, profile],
+            |r| Ok((r.get(0)?, r.get(1)?)),
+        )?;
+        if duplicate {
+            summary.duplicates += 1;
+            continue;
+        }
+        if conflict {
+            summary.conflicts.insert(event.date.clone());
+        }
+        days.insert(&event.date);
+        portions.push(event);
+    }
+    let mut goals = Vec::new();
+    for event in &data.goals {
+        if !is_valid_nutrient(&tx, &event.nutrient)? {
+            return Err(AppError::InvalidRequest("unknown nutrient"));
+        }
+        let (duplicate, conflict): (bool, bool) = tx.query_row(
+            "SELECT
+                EXISTS (SELECT 1 FROM goal_events WHERE profile = ?6 AND timestamp = ?1 AND effective_date = ?2 AND nutrient = ?3 AND type = ?4 AND halves = ?5),
+                EXISTS (SELECT 1 FROM goal_events WHERE profile = ?6 AND effective_date = ?2)",
+            params![event.timestamp, event.from, event.nutrient, event.kind, event.amount, profile],
+            |r| Ok((r.get(0)?, r.get(1)?)),
+        )?;
+        if duplicate {
+            summary.duplicates += 1;
+            continue;
+        }
+        if conflict {
+            summary.conflicts.insert(event.from.clone());
+        }
+        goals.push(event);
+    }
+
+    for event in &portions {
+        tx.execute(
+            "INSERT INTO nutrient_events (profile, timestamp, date, name, type, meal, halves) VALUES (?, ?, ?, ?, ?, ?, ?)",
+            params![profile, event.timestamp, event.date, event.nutrient, event.kind, event.meal, event.amount],
+        )?;
+    }
+    for event in &goals {
+        tx.execute(
+            "INSERT INTO goal_events (profile, timestamp, effective_date, nutrient, type, halves) VALUES (?, ?, ?, ?, ?, ?)",
+            params![profile, event.timestamp, event.from, event.nutrient, event.kind, event.amount],
+        )?;
+    }
+    summary.portions = portions.len();
+    summary.goals = goals.len();
+    summary.days = days.len();
+
+    if !options.dry_run {
+        tx.commit()?;
+        changes.publish(Change::All { profile });
+    }
+    Ok(Json(summary))
+}
+
+#[derive(Serialize)]
+struct Profile {
+    id: i64,
+    name: String,
+}
+
+#[derive(Deserialize)]
+struct ProfileDefinition {
+    name: String,
+}
+
+impl ProfileDefinition {
+    /// Returns the name without surrounding whitespace.
+    fn validated(&self) -> Result<&str, AppError> {
+        let name = self.name.trim();
+        if name.is_empty() {
+            return Err(AppError::InvalidRequest("empty name"));
+        }
+        Ok(name)
+    }
+}
+
+async fn get_profiles(conn: State<Arc<Mutex<Connection>>>) -> Result<Json<Vec<Profile>>, AppError> {
+    let conn = conn.lock().unwrap();
+    let mut stmt = conn.prepare("SELECT id, name FROM profiles ORDER BY id")?;
+    let rows = stmt.query([])?;
+    Ok(Json(
+        rows.map(|r| {
+            Ok(Profile {
+                id: r.get(0)?,
+                name: r.get(1)?,
+            })
+        })
+        .collect()?,
+    ))
+}
+
+async fn create_profile(
+    conn: State<Arc<Mutex<Connection>>>,
+    changes: State<Changes>,
+    Json(definition): Json<ProfileDefinition>,
+) -> Result<Json<Profile>, AppError> {
+    let name = definition.validated()?;
+
+    let conn = conn.lock().unwrap();
+    conn.execute("INSERT INTO profiles (name) VALUES (?)", [name])?;
+    changes.publish(Change::Profiles);
+    Ok(Json(Profile {
+        id: conn.last_insert_rowid(),
+        name: name.into(),
+    }))
+}
+
+async fn put_profile(
+    conn: State<Arc<Mutex<Connection>>>,
+    changes: State<Changes>,
+    Path(profile): Path<i64>,
+    Json(definition): Json<ProfileDefinition>,
+) -> Result<Json<&'static str>, AppError> {
+    let name = definition.validated()?;
+
+    let conn = conn.lock().unwrap();
+    if conn.execute(
+        "UPDATE profiles SET name = ? WHERE id = ?",
+        params![name, profile],
+    )? == 0
+    {
+        return Err(AppError::InvalidRequest("unknown profile"));
+    }
+    changes.publish(Change::Profiles);
+    Ok(Json("success"))
+}
+
+/// Portions of several nutrients saved under a name, for recording them at once, e.g. a
+/// lunch that's always the same.
+#[derive(Serialize)]
+struct SavedMeal {
+    id: i64,
+    #[serde(flatten)]
+    definition: SavedMealDefinition,
+}
+
+#[derive(Serialize, Deserialize)]
+struct SavedMealDefinition {
+    name: String,
+    position: i32,
+    portions: BTreeMap<String, Portions>,
+}
+
+impl SavedMealDefinition {
+    /// Returns the name without surrounding whitespace.
+    fn validated(&self, conn: &Connection) -> Result<&str, AppError> {
+        let name = self.name.trim();
+        if name.is_empty() {
+            return Err(AppError::InvalidRequest("empty name"));
+        }
+        for (nutrient, &amount) in &self.portions {
+            if amount <= Portions(0) {
+                return Err(AppError::InvalidRequest("invalid amount"));
+            }
+            if !is_valid_nutrient(conn, nutrient)? {
+                return Err(AppError::InvalidRequest("invalid nutrient"));
+            }
+        }
+        Ok(name)
+    }
+}
+
+/// Replaces the portions of a saved meal. Must be called in a transaction.
+fn save_saved_meal_portions(
+    conn: &Connection,
+    id: i64,
+    portions: &BTreeMap<String, Portions>,
+) -> Result<(), rusqlite::Error> {
+    conn.execute("DELETE FROM saved_meal_portions WHERE saved_meal = ?", [id])?;
+    for (nutrient, amount) in portions {
+        conn.execute(
+            "INSERT INTO saved_meal_portions (saved_meal, nutrient, halves) VALUES (?, ?, ?)",
+            params![id, nutrient, amount],
+        )?;
+    }
+    Ok(())
+}
+
+async fn get_saved_meals(
+    conn: State<Arc<Mutex<Connection>>>,
+    Path(profile): Path<i64>,
+) -> Result<Json<Vec<SavedMeal>>, AppError> {
+    let conn = conn.lock().unwrap();
+    let mut portions: HashMap<i64, BTreeMap<String, Portions>> = HashMap::new();
+    let mut stmt = conn.prepare(
+        "SELECT saved_meal, nutrient, halves FROM saved_meal_portions
+        JOIN saved_meals ON saved_meals.id = saved_meal WHERE profile = ?",
+    )?;
+    let mut rows = stmt.query([profile])?;
+    while let Some(r) = rows.next()? {
+        portions
+            .entry(r.get(0)?)
+            .or_default()
+            .insert(r.get(1)?, r.get(2)?);
+    }
+
+    let mut stmt = conn.prepare(
+        "SELECT id, name, position FROM saved_meals WHERE profile = ? ORDER BY position, id",
+    )?;
+    let rows = stmt.query([profile])?;
+    Ok(Json(
+        rows.map(|r| {
+            let id = r.get(0)?;
+            Ok(SavedMeal {
+                id,
+                definition: SavedMealDefinition {
+                    name: r.get(1)?,
+                    position: r.get(2)?,
+                    portions: portions.remove(&id).unwrap_or_default(),
+                },
+            })
+        })
+        .collect()?,
+    ))
+}
+
+async fn create_saved_meal(
+    conn: State<Arc<Mutex<Connection>>>,
+    changes: State<Changes>,
+    Path(profile): Path<i64>,
+    Json(definition): Json<SavedMealDefinition>,
+) -> Result<Json<SavedMeal>, AppError> {
+    let conn = conn.lock().unwrap();
+    let name = definition.validated(&conn)?.to_owned();
+    if !is_valid_profile(&conn, profile)? {
+        return Err(AppError::InvalidRequest("unknown profile"));
+    }
+
+    let tx = conn.unchecked_transaction()?;
+    tx.execute(
+        "INSERT INTO saved_meals (profile, name, position) VALUES (?, ?, ?)",
+        params![profile, name, definition.position],
+    )?;
+    let id = tx.last_insert_rowid();
+    save_saved_meal_portions(&tx, id, &definition.portions)?;
+    tx.commit()?;
+    changes.publish(Change::SavedMeals { profile });
+    Ok(Json(SavedMeal {
+        id,
+        definition: SavedMealDefinition { name, ..definition },
+    }))
+}
+
+async fn put_saved_meal(
+    conn: State<Arc<Mutex<Connection>>>,
+    changes: State<Changes>,
+    Path((profile, id)): Path<(i64, i64)>,
+    Json(definition): Json<SavedMealDefinition>,
+) -> Result<Json<&'static str>, AppError> {
+    let conn = conn.lock().unwrap();
+    let name = definition.validated(&conn)?;
+
+    let tx = conn.unchecked_transaction()?;
+    if tx.execute(
+        "UPDATE saved_meals SET name = ?, position = ? WHERE id = ? AND profile = ?",
+        params![name, definition.position, id, profile],
+    )? == 0
+    {
+        return Err(AppError::InvalidRequest("unknown saved meal"));
+    }
+    save_saved_meal_portions(&tx, id, &definition.portions)?;
+    tx.commit()?;
+    changes.publish(Change::SavedMeals { profile });
+    Ok(Json("success"))
+}
+
+async fn delete_saved_meal(
+    conn: State<Arc<Mutex<Connection>>>,
+    changes: State<Changes>,
+    Path((profile, id)): Path<(i64, i64)>,
+) -> Result<Json<&'static str>, AppError> {
+    let conn = conn.lock().unwrap();
+    let tx = conn.unchecked_transaction()?;
+    if tx.execute(
+        "DELETE FROM saved_meals WHERE id = ? AND profile = ?",
+        params![id, profile],
+    )? == 0
+    {
+        return Err(AppError::InvalidRequest("unknown saved meal"));
+    }
+    tx.execute("DELETE FROM saved_meal_portions WHERE saved_meal = ?", [id])?;
+    tx.commit()?;
+    changes.publish(Change::SavedMeals { profile });
+    Ok(Json("success"))
+}
+
+/// A change of the stored data, sent to the clients so that they refresh what they display.
+#[derive(Clone, Debug, PartialEq, Serialize)]
+#[serde(tag = "kind", rename_all = "lowercase")]
+enum Change {
+    /// Portions recorded for `date` changed.
+    Portions { profile: i64, date: String },
+    /// Goals changed, possibly only from a future date on.
+    Goals { profile: i64 },
+    /// Any data of the profile may have changed.
+    All { profile: i64 },
+    /// Nutrients changed, which are shared by all profiles.
+    Nutrients,
+    /// A profile was created or renamed.
+    Profiles,
+    /// Saved meals were created, changed, or deleted.
+    #[serde(rename = "saved-meals")]
+    SavedMeals { profile: i64 },
+}
+
+impl Change {
+    /// Whether a client displaying the data of `subscriber` needs to know about the change.
+    fn concerns(&self, subscriber: i64) -> bool {
+        match self {
+            Change::Portions { profile, .. }
+            | Change::Goals { profile }
+            | Change::All { profile }
+            | Change::SavedMeals { profile } => *profile == subscriber,
+            Change::Nutrients | Change::Profiles => true,
+        }
+    }
+}
+
+/// How many changes are kept for a client that is slow to receive them.
+const CHANGES_CAPACITY: usize = 64;
+
+#[derive(Clone)]
+struct Changes(broadcast::Sender<Change>);
+
+impl Changes {
+    fn new() -> Changes {
+        Changes(broadcast::channel(CHANGES_CAPACITY).0)
+    }
+
+    fn publish(&self, change: Change) {
+        // Sending only fails if no client is subscribed, which is fine.
+        let _ = self.0.send(change);
+    }
+}
+
+/// Streams the changes concerning `profile` as server-sent events, as they happen.
+async fn get_changes(
+    conn: State<Arc<Mutex<Connection>>>,
+    changes: State<Changes>,
+    Path(profile): Path<i64>,
+) -> Result<Sse<impl Stream<Item = Result<Event, Infallible>>>, AppError> {
+    if !is_valid_profile(&conn.lock().unwrap(), profile)? {
+        return Err(AppError::InvalidRequest("unknown profile"));
+    }
+
+    let receiver = changes.0.subscribe();
+    let events = stream::unfold(receiver, move |mut receiver| async move {
+        let change = loop {
+            match receiver.recv().await {
+                Ok(change) if change.concerns(profile) => break change,
+                Ok(_) => {}
+                // Some changes were dropped, so the client has to refresh everything.
+                Err(RecvError::Lagged(_)) => break Change::All { profile },
+                Err(RecvError::Closed) => return None,
+            }
+        };
+        let event = Event::default()
+            .json_data(change)
+            .expect("changes are serializable");
+        Some((Ok(event), receiver))
+    });
+    Ok(Sse::new(events).keep_alive(KeepAlive::default()))
+}
+
+#[derive(Clone)]
+struct AppState {
+    conn: Arc<Mutex<Connection>>,
+    /// The password to log in with. Without one, authentication is disabled.
+    password: Option<Arc<str>>,
+    changes: Changes,
+}
+
+impl AppState {
+    fn new(conn: Connection, password: Option<String>) -> AppState {
+        AppState {
+            conn: Arc::new(Mutex::new(conn)),
+            password: password.map(Into::into),
+            changes: Changes::new(),
+        }
+    }
+}
+
+impl FromRef<AppState> for Arc<Mutex<Connection>> {
+    fn from_ref(state: &AppState) -> Self {
+        state.conn.clone()
+    }
+}
+
+impl FromRef<AppState> for Changes {
+    fn from_ref(state: &AppState) -> Self {
+        state.changes.clone()
+    }
+}
+
+/// Returns the session token sent as `Authorization: Bearer <token>`.
+fn session_token(headers: &HeaderMap) -> Option<&str> {
+    headers
+        .get(header::AUTHORIZATION)?
+        .to_str()
+        .ok()?
+        .strip_prefix("Bearer ")
+}
+
+/// Compares in a time not depending on where the strings differ, so that the password
+/// can't be guessed character by character.
+fn constant_time_eq(a: &str, b: &str) -> bool {
+    a.len() == b.len()
+        && a.bytes()
+            .zip(b.bytes())
+            .fold(0, |acc, (x, y)| acc | (x ^ y))
+            == 0
+}
+
+/// How long a session lasts, unless ended earlier by logging out.
+const SESSION_MAX_AGE_SECS: i64 = 90 * 24 * 60 * 60;
+
+/// Rejects requests without a valid session if authentication is enabled.
+async fn require_session(
+    State(state): State<AppState>,
+    request: Request,
+    next: Next,
+) -> Result<Response, AppError> {
+    if state.password.is_some() {
+        let Some(token) = session_token(request.headers()) else {
+            return Err(AppError::Unauthorized);
+        };
+        let conn = state.conn.lock().unwrap();
+        let valid: bool = conn.query_row(
+            "SELECT EXISTS (SELECT 1 FROM sessions WHERE token = ? AND created > unixepoch() - ?)",
+            params![token, SESSION_MAX_AGE_SECS],
+            |r| r.get(0),
+        )?;
+        if !valid {
+            return Err(AppError::Unauthorized);
+        }
+    }
+    Ok(next.run(request).await)
+}
+
+#[derive(Serialize)]
+struct AuthStatus {
+    required: bool,
+}
+
+async fn get_auth_status(State(state): State<AppState>) -> Json<AuthStatus> {
+    Json(AuthStatus {
+        required: state.password.is_some(),
+    })
+}
+
+#[derive(Deserialize)]
+struct Credentials {
+    password: String,
+}
+
+#[derive(Serialize)]
+struct Session {
+    token: String,
+}
+
+/// Starts a session, which lasts until logging out, or for `SESSION_MAX_AGE_SECS` at most.
+async fn login(
+    State(state): State<AppState>,
+    Json(credentials): Json<Credentials>,
+) -> Result<Json<Session>, AppError> {
+    let Some(password) = &state.password else {
+        return Err(AppError::InvalidRequest("authentication is disabled"));
+    };
+    if !constant_time_eq(&credentials.password, password) {
+        return Err(AppError::Unauthorized);
+    }
+
+    let conn = state.conn.lock().unwrap();
+    conn.execute(
+        "DELETE FROM sessions WHERE created <= unixepoch() - ?",
+        [SESSION_MAX_AGE_SECS],
+    )?;
+    // SQLite's randomness comes from the operating system, so the token can't be guessed.
+    let token: String = conn.query_row(
+        "INSERT INTO sessions (token) VALUES (lower(hex(randomblob(32)))) RETURNING token",
+        [],
+        |r| r.get(0),
+    )?;
+    Ok(Json(Session { token }))
+}
+
+async fn logout(
+    conn: State<Arc<Mutex<Connection>>>,
+    headers: HeaderMap,
+) -> Result<Json<&'static str>, AppError> {
+    let conn = conn.lock().unwrap();
+    conn.execute(
+        "DELETE FROM sessions WHERE token = ?",
+        [session_token(&headers)],
+    )?;
+    Ok(Json("success"))
+}
+
+fn router(state: AppState) -> Router {
+    Router::new()
+        // queries
+        .route("/nutrients", get(get_nutrients))
+        .route("/profiles", get(get_profiles))
+        .route("/profiles/{profile}/days", get(get_portions_for_range))
+        .route(
+            "/profiles/{profile}/days/{date}/portions",
+            get(get_portions_for_date),
+        )
+        .route(
+            "/profiles/{profile}/days/{date}/goals",
+            get(get_goals_for_date),
+        )
+        .route(
+            "/profiles/{profile}/days/{date}/events",
+            get(get_events_for_date),
+        )
+        .route(
+            "/profiles/{profile}/days/{date}/meals",
+            get(get_meals_for_date),
+        )
+        .route("/profiles/{profile}/goals", get(get_goals))
+        .route("/profiles/{profile}/goals/history", get(get_goal_history))
+        .route("/profiles/{profile}/export", get(export))
+        .route("/profiles/{profile}/changes", get(get_changes))
+        .route("/profiles/{profile}/saved-meals", get(get_saved_meals))
+        // commands
+        .route("/nutrients/{id}", put(put_nutrient))
+        .route("/profiles", post(create_profile))
+        .route("/profiles/{profile}", put(put_profile))
+        .route("/profiles/{profile}/import", post(import))
+        .route("/profiles/{profile}/saved-meals", post(create_saved_meal))
+        .route(
+            "/profiles/{profile}/saved-meals/{id}",
+            put(put_saved_meal).delete(delete_saved_meal),
+        )
+        .route("/profiles/{profile}/commands", post(apply_commands))
+        .route(
+            "/profiles/{profile}/days/{date}/portions/{nutrient}/consume",
+            post(consume_portion),
+        )
+        .route(
+            "/profiles/{profile}/days/{date}/portions/{nutrient}/unconsume",
+            post(unconsume_portion),
+        )
+        .route(
+            "/profiles/{profile}/days/{date}/events/{id}/retract",
+            post(retract_event),
+        )
+        .route(
+            "/profiles/{profile}/goals/portions/{nutrient}/inc",
+            post(inc_goal),
+        )
+        .route(
+            "/profiles/{profile}/goals/portions/{nutrient}/dec",
+            post(dec_goal),
+        )
+        .route(
+            "/profiles/{profile}/goals/{date}/portions/{nutrient}/inc",
+            post(inc_scheduled_goal),
+        )
+        .route(
+            "/profiles/{profile}/goals/{date}/portions/{nutrient}/dec",
+            post(dec_scheduled_goal),
+        )
+        .route("/logout", post(logout))
+        // Only the routes above require a session.
+        .route_layer(middleware::from_fn_with_state(
+            state.clone(),
+            require_session,
+        ))
+        .route("/auth", get(get_auth_status))
+        .route("/login", post(login))
+        .layer(CorsLayer::permissive())
+        .layer(TraceLayer::new_for_http())
+        .with_state(state)
+}
+
+fn setup_db(conn: &Connection) -> Result<(), rusqlite::Error> {
+    // SQLite3 performance settings.
+    // Without these, even simple writes take 10-15ms. With these, they're nearly instantenuous (<1ms).
+    conn.execute_batch("PRAGMA journal_mode = WAL; PRAGMA synchronous = NORMAL;")?;
+    // Design notes:
+    // - pure event sourcing for sync and simple design
+    // - PRIMARY KEY is id, not timestamp, to save me from battling disambiguation if
+    //   multiple things happen at the same time
+    // Possible future optimisations:
+    // - indices to support the queries better
+    // - materialized views to avoid processing all events
+    conn.execute(
+        "CREATE TABLE IF NOT EXISTS nutrient_events (
+            id INTEGER PRIMARY KEY,
+            timestamp INT DEFAULT(unixepoch('subsec') * 1000),
+            name TEXT NOT NULL CHECK (name in ('protein', 'carbs', 'vegetables', 'fats')),
+            date TEXT NOT NULL,
+            type TEXT NOT NULL CHECK (type in ('consume', 'unconsume'))) STRICT",
+        [],
+    )?;
+    conn.execute(
+        "CREATE TABLE IF NOT EXISTS goal_events (
+            id INTEGER PRIMARY KEY,
+            timestamp INT DEFAULT(unixepoch('subsec') * 1000),
+            nutrient TEXT NOT NULL CHECK (nutrient in ('protein', 'carbs', 'vegetables', 'fats')),
+            type TEXT NOT NULL CHECK (type in ('inc', 'dec'))) STRICT",
+        [],
+    )?;
+    migrate(conn)
+}
+
+/// Schema changes made after the initial version, applied in order.
+/// The number of the applied ones is stored in `user_version`.
+const MIGRATIONS: &[&str] = &[
+    // Goal changes take effect from a given date. The existing ones took effect when they were made.
+    "ALTER TABLE goal_events ADD COLUMN effective_date TEXT;
+    UPDATE goal_events SET effective_date = date(timestamp / 1000, 'unixepoch', 'localtime');",
+    // Nutrients are defined by the user. The initial ones are kept, and the events are no
+    // longer restricted to them, which in SQLite requires recreating the tables.
+    "CREATE TABLE nutrients (
+        id TEXT PRIMARY KEY,
+        color TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        active INTEGER NOT NULL DEFAULT 1) STRICT;
+    CREATE TABLE nutrient_labels (
+        nutrient TEXT NOT NULL REFERENCES nutrients (id),
+        language TEXT NOT NULL,
+        label TEXT NOT NULL,
+        PRIMARY KEY (nutrient, language)) STRICT;
+    INSERT INTO nutrients (id, color, position) VALUES
+        ('protein', '#40c1e6', 0),
+        ('carbs', '#f47216', 1),
+        ('vegetables', '#99d540', 2),
+        ('fats', '#fbc707', 3);
+    INSERT INTO nutrient_labels (nutrient, language, label) VALUES
+        ('protein', 'en', 'Protein'),
+        ('protein', 'de', 'Eiweiß'),
+        ('protein', 'ja', 'タンパク'),
+        ('protein', 'uk', 'Білки'),
+        ('carbs', 'en', 'Carbs'),
+        ('carbs', 'de', 'Kohlenhydrate'),
+        ('carbs', 'ja', '炭水化物'),
+        ('carbs', 'uk', 'Вуглеводи'),
+        ('vegetables', 'en', 'Vegetables'),
+        ('vegetables', 'de', 'Gemüse'),
+        ('vegetables', 'ja', '野菜'),
+        ('vegetables', 'uk', 'Овочі'),
+        ('fats', 'en', 'Fats'),
+        ('fats', 'de', 'Fett'),
+        ('fats', 'ja', '脂肪'),
+        ('fats', 'uk', 'Жири');
+    CREATE TABLE nutrient_events_new (
+        id INTEGER PRIMARY KEY,
+        timestamp INT DEFAULT(unixepoch('subsec') * 1000),
+        name TEXT NOT NULL,
+        date TEXT NOT NULL,
+        type TEXT NOT NULL CHECK (type in ('consume', 'unconsume'))) STRICT;
+    INSERT INTO nutrient_events_new SELECT id, timestamp, name, date, type FROM nutrient_events;
+    DROP TABLE nutrient_events;
+    ALTER TABLE nutrient_events_new RENAME TO nutrient_events;
+    CREATE TABLE goal_events_new (
+        id INTEGER PRIMARY KEY,
+        timestamp INT DEFAULT(unixepoch('subsec') * 1000),
+        nutrient TEXT NOT NULL,
+        type TEXT NOT NULL CHECK (type in ('inc', 'dec')),
+        effective_date TEXT) STRICT;
+    INSERT INTO goal_events_new SELECT id, timestamp, nutrient, type, effective_date FROM goal_events;
+    DROP TABLE goal_events;
+    ALTER TABLE goal_events_new RENAME TO goal_events;",
+    // Retracting an event records the opposite one, which refers to it.
+    "ALTER TABLE nutrient_events ADD COLUMN retracts INTEGER REFERENCES nutrient_events (id);",
+    "ALTER TABLE nutrient_events ADD COLUMN meal TEXT CHECK (meal IN ('breakfast', 'lunch', 'dinner', 'snack'));",
+    // Events can be about half portions. Amounts are counted in halves, the existing events are about whole ones.
+    "ALTER TABLE nutrient_events ADD COLUMN halves INTEGER NOT NULL DEFAULT 2 CHECK (halves > 0);
+    ALTER TABLE goal_events ADD COLUMN halves INTEGER NOT NULL DEFAULT 2 CHECK (halves > 0);",
+    // Several people can track their portions in one instance, each in their own profile.
+    // The existing events belong to the first one.
+    "CREATE TABLE profiles (
+        id INTEGER PRIMARY KEY,
+        name TEXT NOT NULL) STRICT;
+    INSERT INTO profiles (id, name) VALUES (1, 'Default');
+    ALTER TABLE nutrient_events ADD COLUMN profile INTEGER NOT NULL DEFAULT 1;
+    ALTER TABLE goal_events ADD COLUMN profile INTEGER NOT NULL DEFAULT 1;",
+    "CREATE TABLE sessions (
+        token TEXT PRIMARY KEY,
+        created INT DEFAULT(unixepoch())) STRICT;",
+    // Commands sent with an idempotency key are applied only once. The key is stored with
+    // the event recorded by the command.
+    "ALTER TABLE nutrient_events ADD COLUMN command_id TEXT;
+    ALTER TABLE goal_events ADD COLUMN command_id TEXT;
+    CREATE UNIQUE INDEX nutrient_events_command_id ON nutrient_events (command_id);
+    CREATE UNIQUE INDEX goal_events_command_id ON goal_events (command_id);",
+    // Meals saved for recording their portions at once.
+    "CREATE TABLE saved_meals (
+        id INTEGER PRIMARY KEY,
+        profile INTEGER NOT NULL REFERENCES profiles (id),
+        name TEXT NOT NULL,
+        position INTEGER NOT NULL) STRICT;
+    CREATE TABLE saved_meal_portions (
+        saved_meal INTEGER NOT NULL REFERENCES saved_meals (id),
+        nutrient TEXT NOT NULL REFERENCES nutrients (id),
+        halves INTEGER NOT NULL CHECK (halves > 0),
+        PRIMARY KEY (saved_meal, nutrient)) STRICT;",
+];
+
+fn migrate(conn: &Connection) -> Result<(), rusqlite::Error> {
+    let version: u32 = conn.query_row("PRAGMA user_version", [], |r| r.get(0))?;
+    for (i, migration) in MIGRATIONS.iter().enumerate().skip(version as usize) {
+        let tx = conn.unchecked_transaction()?;
+        tx.execute_batch(migration)?;
+        tx.pragma_update(None, "user_version", i as u32 + 1)?;
+        tx.commit()?;
+    }
+    Ok(())
+}
+
+#[tokio::main]
+async fn main() {
+    tracing_subscriber::fmt()
+        .with_max_level(Level::TRACE)
+        .init();
+
+    let bind_address = env::var("SSNT_BIND_ADDRESS").unwrap_or("0.0.0.0:3000".into());
+    let password = env::var("SSNT_PASSWORD").ok().filter(|p| !p.is_empty());
+
+    let conn = Connection::open("nutrients.db").expect("Failed to open nutrients.db");
+    setup_db(&conn).unwrap();
+
+    info!("Starting server at {}...", bind_address);
+    let listener = tokio::net::TcpListener::bind(bind_address).await.unwrap();
+    axum::serve(listener, router(AppState::new(conn, password)))
+        .await
+        .unwrap();
+}
+
+#[cfg(test)]
+mod tests {
+    use axum_test::TestServer;
+    use rusqlite::Connection;
+    use serde_json::json;
+
+    use crate::{AppState, router, setup_db};
+
+    fn test_server() -> TestServer {
+        let conn = Connection::open_in_memory().unwrap();
+        setup_db(&conn).unwrap();
+        TestServer::new(router(AppState::new(conn, None))).unwrap()
+    }
+
+    mod goals {
+        use super::*;
+
+        #[tokio::test]
+        async fn test_get_goals_empty() {
+            let server = test_server();
+            let resp = server.get("/profiles/1/goals").await;
+            resp.assert_status_success();
+            resp.assert_json(&json!({}));
+        }
+
+        #[tokio::test]
+        async fn test_inc_goal_validation() {
+            let server = test_server();
+            server
+                .post("/profiles/1/goals/portions/protein/inc")
+                .await
+                .assert_status_success();
+            server
+                .post("/profiles/1/goals/portions/carbs/inc")
+                .await
+                .assert_status_success();
+            server
+                .post("/profiles/1/goals/portions/fats/inc")
+                .await
+                .assert_status_success();
+            server
+                .post("/profiles/1/goals/portions/vegetables/inc")
+                .await
+                .assert_status_success();
+            server
+                .post("/profiles/1/goals/portions/bad/inc")
+                .await
+                .assert_status_bad_request();
+        }
+
+        #[tokio::test]
+        async fn test_inc_goal() {
+            let server = test_server();
+            server
+                .post("/profiles/1/goals/portions/protein/inc")
+                .await
+                .assert_status_success();
+            server
+                .post("/profiles/1/goals/portions/protein/inc")
+                .await
+                .assert_status_success();
+            server
+                .post("/profiles/1/goals/portions/carbs/inc")
+                .await
+                .assert_status_success();
+            let resp = server.get("/profiles/1/goals").await;
+            resp.assert_status_success();
+            resp.assert_json(&json!({"carbs": 1, "protein": 2}));
+        }
+
+        #[tokio::test]
+        async fn test_dec_goal() {
+            let server = test_server();
+            server
+                .post("/profiles/1/goals/portions/protein/inc")
+                .await
+                .assert_status_success();
+            server
+                .post("/profiles/1/goals/portions/protein/inc")
+                .await
+                .assert_status_success();
+            server
+                .post("/profiles/1/goals/portions/protein/dec")
+                .await
+                .assert_status_success();
+            let resp = server.get("/profiles/1/goals").await;
+            resp.assert_status_success();
+            resp.assert_json(&json!({"protein": 1}));
+        }
+
+        #[tokio::test]
+        async fn test_half_goal() {
+            let server = test_server();
+            for url in [
+                "/profiles/1/goals/portions/protein/inc?amount=1.5",
+                "/profiles/1/goals/portions/carbs/inc",
+                "/profiles/1/goals/portions/carbs/dec?amount=0.5",
+            ] {
+                server.post(url).await.assert_status_success();
+            }
+            server
+                .post("/profiles/1/goals/portions/carbs/dec")
+                .await
+                .assert_status_bad_request();
+            let resp = server.get("/profiles/1/goals").await;
+            resp.assert_json(&json!({"protein": 1.5, "carbs": 0.5}));
+        }
+
+        #[tokio::test]
+        async fn test_dec_goal_validation_empty() {
+            let server = test_server();
+            server
+                .post("/profiles/1/goals/portions/protein/dec")
+                .await
+                .assert_status_bad_request();
+        }
+
+        #[tokio::test]
+        async fn test_dec_goal_validation_0() {
+            let server = test_server();
+            server
+                .post("/profiles/1/goals/portions/protein/inc")
+                .await
+                .assert_status_success();
+            server
+                .post("/profiles/1/goals/portions/protein/dec")
+                .await
+                .assert_status_success();
+            server
+                .post("/profiles/1/goals/portions/protein/dec")
+                .await
+                .assert_status_bad_request();
+        }
+    }
+
+    mod scheduled_goals {
+        use super::*;
+
+        #[tokio::test]
+        async fn test_scheduled_goal() {
+            let server = test_server();
+            for url in [
+                "/profiles/1/goals/2000-01-01/portions/protein/inc",
+                "/profiles/1/goals/2000-01-01/portions/protein/inc",
+                "/profiles/1/goals/2000-02-01/portions/protein/dec",
+            ] {
+                server.post(url).await.assert_status_success();
+            }
+            let resp = server.get("/profiles/1/days/1999-12-31/goals").await;
+            resp.assert_status_success();
+            resp.assert_json(&json!({}));
+            let resp = server.get("/profiles/1/days/2000-01-31/goals").await;
+            resp.assert_status_success();
+            resp.assert_json(&json!({"protein": 2}));
+            let resp = server.get("/profiles/1/days/2000-02-01/goals").await;
+            resp.assert_status_success();
+            resp.assert_json(&json!({"protein": 1}));
+            let resp = server.get("/profiles/1/goals").await;
+            resp.assert_status_success();
+            resp.assert_json(&json!({"protein": 1}));
+        }
+
+        #[tokio::test]
+        async fn test_scheduled_goal_in_future() {
+            let server = test_server();
+            server
+                .post("/profiles/1/goals/portions/protein/inc")
+                .await
+                .assert_status_success();
+            server
+                .post("/profiles/1/goals/2999-01-01/portions/protein/inc")
+                .await
+                .assert_status_success();
+            let resp = server.get("/profiles/1/goals").await;
+            resp.assert_status_success();
+            resp.assert_json(&json!({"protein": 1}));
+            let resp = server.get("/profiles/1/days/2999-01-01/goals").await;
+            resp.assert_status_success();
+            resp.assert_json(&json!({"protein": 2}));
+        }
+
+        #[tokio::test]
+        async fn test_scheduled_goal_validation() {
+            let server = test_server();
+            server
+                .post("/profiles/1/goals/bad/portions/protein/inc")
+                .await
+                .assert_status_bad_request();
+            server
+                .post("/profiles/1/goals/2000-01-01/portions/bad/inc")
+                .await
+                .assert_status_bad_request();
+            server
+                .get("/profiles/1/days/bad/goals")
+                .await
+                .assert_status_bad_request();
+        }
+
+        #[tokio::test]
+        async fn test_dec_scheduled_goal_validation() {
+            let server = test_server();
+            server
+                .post("/profiles/1/goals/2000-01-01/portions/protein/inc")
+                .await
+                .assert_status_success();
+            // Before the goal was set.
+            server
+                .post("/profiles/1/goals/1999-12-31/portions/protein/dec")
+                .await
+                .assert_status_bad_request();
+            server
+                .post("/profiles/1/goals/2000-02-01/portions/protein/dec")
+                .await
+                .assert_status_success();
+            // Would bring the goal below 0 from 2000-02-01 on.
+            server
+                .post("/profiles/1/goals/2000-01-15/portions/protein/dec")
+                .await
+                .assert_status_bad_request();
+        }
+
+        #[tokio::test]
+        async fn test_goal_history() {
+            let server = test_server();
+            for url in [
+                "/profiles/1/goals/2000-01-01/portions/protein/inc",
+                "/profiles/1/goals/2000-01-01/portions/carbs/inc",
+                "/profiles/1/goals/2000-02-01/portions/protein/inc",
+                "/profiles/1/goals/2000-03-01/portions/carbs/inc",
+                "/profiles/1/goals/2000-03-01/portions/carbs/dec",
+            ] {
+                server.post(url).await.assert_status_success();
+            }
+            let resp = server.get("/profiles/1/goals/history").await;
+            resp.assert_status_success();
+            resp.assert_json(&json!([
+                {"from": "2000-01-01", "goals": {"protein": 1, "carbs": 1}},
+                {"from": "2000-02-01", "goals": {"protein": 2, "carbs": 1}},
+            ]));
+        }
+
+        #[test]
+        fn test_migration_sets_effective_date() {
+            let conn = Connection::open_in_memory().unwrap();
+            conn.execute_batch(
+                "CREATE TABLE goal_events (
+                    id INTEGER PRIMARY KEY,
+                    timestamp INT DEFAULT(unixepoch('subsec') * 1000),
+                    nutrient TEXT NOT NULL CHECK (nutrient in ('protein', 'carbs', 'vegetables', 'fats')),
+                    type TEXT NOT NULL CHECK (type in ('inc', 'dec'))) STRICT;
+                INSERT INTO goal_events (timestamp, nutrient, type) VALUES (946728000000, 'protein', 'inc');",
+            )
+            .unwrap();
+            setup_db(&conn).unwrap();
+            // Running it again must not apply the migrations twice.
+            setup_db(&conn).unwrap();
+            let effective_date: String = conn
+                .query_row("SELECT effective_date FROM goal_events", [], |r| r.get(0))
+                .unwrap();
+            assert_eq!(effective_date, "2000-01-01");
+        }
+    }
+
+    mod nutrients {
+        use super::*;
+
+        #[tokio::test]
+        async fn test_get_nutrients_initial() {
+            let server = test_server();
+            let resp = server.get("/nutrients").await;
+            resp.assert_status_success();
+            let nutrients = resp.json::<serde_json::Value>();
+            let ids: Vec<&str> = nutrients
+                .as_array()
+                .unwrap()
+                .iter()
+                .map(|n| n["id"].as_str().unwrap())
+                .collect();
+            assert_eq!(ids, ["protein", "carbs", "vegetables", "fats"]);
+            assert_eq!(
+                nutrients[0],
+                json!({
+                    "id": "protein",
+                    "labels": {"de": "Eiweiß", "en": "Protein", "ja": "タンパク", "uk": "Білки"},
+                    "color": "#40c1e6",
+                    "position": 0,
+                    "active": true,
+                })
+            );
+        }
+
+        #[tokio::test]
+        async fn test_put_nutrient() {
+            let server = test_server();
+            server
+                .put("/nutrients/water")
+                .json(&json!({
+                    "labels": {"en": "Water"},
+                    "color": "#3366ff",
+                    "position": -1,
+                    "active": true,
+                }))
+                .await
+                .assert_status_success();
+            server
+                .post("/profiles/1/days/2026-01-01/portions/water/consume")
+                .await
+                .assert_status_success();
+            server
+                .post("/profiles/1/goals/portions/water/inc")
+                .await
+                .assert_status_success();
+
+            let resp = server.get("/nutrients").await;
+            resp.assert_status_success();
+            assert_eq!(
+                resp.json::<serde_json::Value>()[0],
+                json!({
+                    "id": "water",
+                    "labels": {"en": "Water"},
+                    "color": "#3366ff",
+                    "position": -1,
+                    "active": true,
+                })
+            );
+            let resp = server.get("/profiles/1/days/2026-01-01/portions").await;
+            resp.assert_json(&json!({"water": 1}));
+        }
+
+        #[tokio::test]
+        async fn test_put_nutrient_replaces_definition() {
+            let server = test_server();
+            server
+                .put("/nutrients/protein")
+                .json(&json!({
+                    "labels": {"en": "Meat"},
+                    "color": "#aa0000",
+                    "position": 5,
+                    "active": false,
+                }))
+                .await
+                .assert_status_success();
+
+            let resp = server.get("/nutrients").await;
+            resp.assert_status_success();
+            let nutrients = resp.json::<serde_json::Value>();
+            assert_eq!(nutrients.as_array().unwrap().len(), 4);
+            assert_eq!(
+                nutrients[3],
+                json!({
+                    "id": "protein",
+                    "labels": {"en": "Meat"},
+                    "color": "#aa0000",
+                    "position": 5,
+                    "active": false,
+                })
+            );
+        }
+
+        #[tokio::test]
+        async fn test_put_nutrient_validation() {
+            let server = test_server();
+            for (id, color, label) in [
+                ("Water", "#3366ff", "Water"),
+                ("water_glasses", "#3366ff", "Water"),
+                ("water", "blue", "Water"),
+                ("water", "#3366ff", " "),
+            ] {
+                server
+                    .put(&format!("/nutrients/{}", id))
+                    .json(&json!({
+                        "labels": {"en": label},
+                        "color": color,
+                        "position": 4,
+                        "active": true,
+                    }))
+                    .await
+                    .assert_status_bad_request();
+            }
+            let resp = server.get("/nutrients").await;
+            assert_eq!(
+                resp.json::<serde_json::Value>().as_array().unwrap().len(),
+                4
+            );
+        }
+    }
+
+    mod events {
+        use super::*;
+
+        /// Returns the events without the timestamps, which differ between runs.
+        async fn events(server: &TestServer, date: &str) -> Vec<serde_json::Value> {
+            let resp = server
+                .get(&format!("/profiles/1/days/{}/events", date))
+                .await;
+            resp.assert_status_success();
+            resp.json::<Vec<serde_json::Value>>()
+                .into_iter()
+                .map(|mut e| {
+                    assert!(e["timestamp"].is_i64());
+                    e.as_object_mut().unwrap().remove("timestamp");
+                    e
+                })
+                .collect()
+        }
+
+        #[tokio::test]
+        async fn test_get_events() {
+            let server = test_server();
+            for url in [
+                "/profiles/1/days/2026-01-01/portions/protein/consume",
+                "/profiles/1/days/2026-01-01/portions/carbs/consume",
+                "/profiles/1/days/2026-01-02/portions/fats/consume",
+                "/profiles/1/days/2026-01-01/portions/protein/unconsume",
+            ] {
+                server.post(url).await.assert_status_success();
+            }
+            assert_eq!(
+                events(&server, "2026-01-01").await,
+                [
+                    json!({"id": 1, "nutrient": "protein", "type": "consume", "meal": null, "amount": 1, "retracted": false}),
+                    json!({"id": 2, "nutrient": "carbs", "type": "consume", "meal": null, "amount": 1, "retracted": false}),
+                    json!({"id": 4, "nutrient": "protein", "type": "unconsume", "meal": null, "amount": 1, "retracted": false}),
+                ]
+            );
+        }
+
+        #[tokio::test]
+        async fn test_retract() {
+            let server = test_server();
+            for url in [
+                "/profiles/1/days/2026-01-01/portions/protein/consume",
+                "/profiles/1/days/2026-01-01/portions/protein/consume",
+                "/profiles/1/days/2026-01-01/portions/protein/unconsume",
+            ] {
+                server.post(url).await.assert_status_success();
+            }
+            server
+                .post("/profiles/1/days/2026-01-01/events/1/retract")
+                .await
+                .assert_status_success();
+            server
+                .post("/profiles/1/days/2026-01-01/events/3/retract")
+                .await
+                .assert_status_success();
+
+            let resp = server.get("/profiles/1/days/2026-01-01/portions").await;
+            resp.assert_json(&json!({"protein": 1}));
+            assert_eq!(
+                events(&server, "2026-01-01").await,
+                [
+                    json!({"id": 1, "nutrient": "protein", "type": "consume", "meal": null, "amount": 1, "retracted": true}),
+                    json!({"id": 2, "nutrient": "protein", "type": "consume", "meal": null, "amount": 1, "retracted": false}),
+                    json!({"id": 3, "nutrient": "protein", "type": "unconsume", "meal": null, "amount": 1, "retracted": true}),
+                ]
+            );
+        }
+
+        #[tokio::test]
+        async fn test_retract_half() {
+            let server = test_server();
+            for url in [
+                "/profiles/1/days/2026-01-01/portions/protein/consume",
+                "/profiles/1/days/2026-01-01/portions/protein/consume?amount=0.5",
+                "/profiles/1/days/2026-01-01/events/2/retract",
+            ] {
+                server.post(url).await.assert_status_success();
+            }
+            let resp = server.get("/profiles/1/days/2026-01-01/portions").await;
+            resp.assert_json(&json!({"protein": 1}));
+            assert_eq!(events(&server, "2026-01-01").await[1]["amount"], 0.5);
+        }
+
+        #[tokio::test]
+        async fn test_retract_validation() {
+            let server = test_server();
+            for url in [
+                "/profiles/1/days/2026-01-01/portions/protein/consume",
+                "/profiles/1/days/2026-01-01/portions/protein/unconsume",
+                "/profiles/1/days/2026-01-01/portions/carbs/consume",
+                "/profiles/1/days/2026-01-01/events/3/retract",
+            ] {
+                server.post(url).await.assert_status_success();
+            }
+            for url in [
+                // Another day.
+                "/profiles/1/days/2026-01-02/events/1/retract",
+                // Unknown.
+                "/profiles/1/days/2026-01-01/events/10/retract",
+                // Already retracted.
+                "/profiles/1/days/2026-01-01/events/3/retract",
+                // A retraction.
+                "/profiles/1/days/2026-01-01/events/4/retract",
+                // The count would become negative.
+                "/profiles/1/days/2026-01-01/events/1/retract",
+            ] {
+                server.post(url).await.assert_status_bad_request();
+            }
+            let resp = server.get("/profiles/1/days/2026-01-01/portions").await;
+            resp.assert_json(&json!({"protein": 0, "carbs": 0}));
+        }
+    }
+
+    mod meals {
+        use super::*;
+
+        #[tokio::test]
+        async fn test_get_meals() {
+            let server = test_server();
+            for url in [
+                "/profiles/1/days/2026-01-01/portions/protein/consume?meal=breakfast",
+                "/profiles/1/days/2026-01-01/portions/protein/consume?meal=lunch",
+                "/profiles/1/days/2026-01-01/portions/carbs/consume?meal=lunch",
+                "/profiles/1/days/2026-01-01/portions/carbs/consume",
+                "/profiles/1/days/2026-01-02/portions/fats/consume?meal=dinner",
+            ] {
+                server.post(url).await.assert_status_success();
+            }
+            let resp = server.get("/profiles/1/days/2026-01-01/meals").await;
+            resp.assert_status_success();
+            resp.assert_json(&json!({
+                "breakfast": {"protein": 1},
+                "lunch": {"protein": 1, "carbs": 1},
+            }));
+            let resp = server.get("/profiles/1/days/2026-01-01/portions").await;
+            resp.assert_json(&json!({"protein": 2, "carbs": 2}));
+        }
+
+        #[tokio::test]
+        async fn test_unconsume_from_meal() {
+            let server = test_server();
+            for url in [
+                "/profiles/1/days/2026-01-01/portions/protein/consume?meal=lunch",
+                "/profiles/1/days/2026-01-01/portions/protein/consume",
+            ] {
+                server.post(url).await.assert_status_success();
+            }
+            server
+                .post("/profiles/1/days/2026-01-01/portions/protein/unconsume?meal=dinner")
+                .await
+                .assert_status_bad_request();
+            server
+                .post("/profiles/1/days/2026-01-01/portions/protein/unconsume?meal=lunch")
+                .await
+                .assert_status_success();
+            server
+                .post("/profiles/1/days/2026-01-01/portions/protein/unconsume?meal=lunch")
+                .await
+                .assert_status_bad_request();
+
+            let resp = server.get("/profiles/1/days/2026-01-01/meals").await;
+            resp.assert_json(&json!({"lunch": {"protein": 0}}));
+            let resp = server.get("/profiles/1/days/2026-01-01/portions").await;
+            resp.assert_json(&json!({"protein": 1}));
+        }
+
+        #[tokio::test]
+        async fn test_retract_keeps_meal() {
+            let server = test_server();
+            for url in [
+                "/profiles/1/days/2026-01-01/portions/protein/consume?meal=snack",
+                "/profiles/1/days/2026-01-01/events/1/retract",
+            ] {
+                server.post(url).await.assert_status_success();
+            }
+            let resp = server.get("/profiles/1/days/2026-01-01/meals").await;
+            resp.assert_json(&json!({"snack": {"protein": 0}}));
+        }
+
+        #[tokio::test]
+        async fn test_invalid_meal() {
+            let server = test_server();
+            server
+                .post("/profiles/1/days/2026-01-01/portions/protein/consume?meal=brunch")
+                .await
+                .assert_status_bad_request();
+            let resp = server.get("/profiles/1/days/2026-01-01/portions").await;
+            resp.assert_json(&json!({}));
+        }
+    }
+
+    mod transfer {
+        use super::*;
+
+        async fn server_with_data() -> TestServer {
+            let server = test_server();
+            for url in [
+                "/profiles/1/days/2026-01-01/portions/protein/consume",
+                "/profiles/1/days/2026-01-01/portions/protein/consume",
+                "/profiles/1/days/2026-01-02/portions/carbs/consume?meal=dinner",
+                "/profiles/1/goals/2026-01-01/portions/protein/inc",
+            ] {
+                server.post(url).await.assert_status_success();
+            }
+            server
+        }
 
-    let bind_address = env::var("SSNT_BIND_ADDRESS").unwrap_or("0.0.0.0:3000".into());
+        #[tokio::test]
+        async fn test_export() {
+            let server = server_with_data().await;
+            let resp = server.get("/profiles/1/export").await;
+            resp.assert_status_success();
+            let data = resp.json::<serde_json::Value>();
+            assert_eq!(data["nutrients"].as_array().unwrap().len(), 4);
+            assert_eq!(data["portions"].as_array().unwrap().len(), 3);
+            assert_eq!(data["portions"][2]["date"], "2026-01-02");
+            assert_eq!(data["portions"][2]["nutrient"], "carbs");
+            assert_eq!(data["portions"][2]["type"], "consume");
+            assert_eq!(data["portions"][2]["meal"], "dinner");
+            assert_eq!(data["portions"][0]["meal"], serde_json::Value::Null);
+            assert_eq!(data["goals"].as_array().unwrap().len(), 1);
+            assert_eq!(data["goals"][0]["from"], "2026-01-01");
+            assert_eq!(data["goals"][0]["type"], "inc");
+        }
 
-    let conn = Connection::open("nutrients.db").expect("Failed to open nutrients.db");
-    setup_db(&conn).unwrap();
+        #[tokio::test]
+        async fn test_import_into_fresh_instance() {
+            let data = server_with_data()
+                .await
+                .get("/profiles/1/export")
+                .await
+                .json::<serde_json::Value>();
+            let server = test_server();
+            let resp = server.post("/profiles/1/import").json(&data).await;
+            resp.assert_status_success();
+            resp.assert_json(&json!({
+                "nutrients": 0,
+                "portions": 3,
+                "goals": 1,
+                "days": 2,
+                "duplicates": 0,
+                "conflicts": [],
+            }));
+            let resp = server.get("/profiles/1/days/2026-01-01/portions").await;
+            resp.assert_json(&json!({"protein": 2}));
+            let resp = server.get("/profiles/1/days/2026-01-02/meals").await;
+            resp.assert_json(&json!({"dinner": {"carbs": 1}}));
+            let resp = server.get("/profiles/1/days/2026-01-01/goals").await;
+            resp.assert_json(&json!({"protein": 1}));
 
-    info!("Starting server at {}...", bind_address);
-    let listener = tokio::net::TcpListener::bind(bind_address).await.unwrap();
-    axum::serve(listener, router(conn)).await.unwrap();
-}
+            // Importing the same data again adds nothing.
+            let resp = server.post("/profiles/1/import").json(&data).await;
+            resp.assert_status_success();
+            resp.assert_json(&json!({
+                "nutrients": 0,
+                "portions": 0,
+                "goals": 0,
+                "days": 0,
+                "duplicates": 4,
+                "conflicts": [],
+            }));
+        }
 
-#[cfg(test)]
-mod tests {
-    use axum_test::TestServer;
-    use rusqlite::Connection;
-    use serde_json::json;
+        #[tokio::test]
+        async fn test_import_dry_run() {
+            let server = test_server();
+            server
+                .post("/profiles/1/days/2026-01-02/portions/fats/consume")
+                .await
+                .assert_status_success();
+            let resp = server
+                .post("/profiles/1/import")
+                .add_query_param("dry_run", "true")
+                .json(&json!({
+                    "nutrients": [{
+                        "id": "water",
+                        "labels": {"en": "Water"},
+                        "color": "#3366ff",
+                        "position": 4,
+                        "active": true,
+                    }],
+                    "portions": [
+                        {"timestamp": 1, "date": "2026-01-01", "nutrient": "water", "type": "consume"},
+                        {"timestamp": 2, "date": "2026-01-02", "nutrient": "water", "type": "consume"},
+                    ],
+                    "goals": [],
+                }))
+                .await;
+            resp.assert_status_success();
+            resp.assert_json(&json!({
+                "nutrients": 1,
+                "portions": 2,
+                "goals": 0,
+                "days": 2,
+                "duplicates": 0,
+                "conflicts": ["2026-01-02"],
+            }));
 
-    use crate::{router, setup_db};
+            let resp = server.get("/nutrients").await;
+            assert_eq!(
+                resp.json::<serde_json::Value>().as_array().unwrap().len(),
+                4
+            );
+            let resp = server.get("/profiles/1/days/2026-01-01/portions").await;
+            resp.assert_json(&json!({}));
+        }
 
-    fn test_server() -> TestServer {
-        let conn = Connection::open_in_memory().unwrap();
-        setup_db(&conn).unwrap();
-        TestServer::new(router(conn)).unwrap()
+        #[tokio::test]
+        async fn test_import_validation() {
+            let server = test_server();
+            for data in [
+                json!({
+                    "nutrients": [],
+                    "portions": [{"timestamp": 1, "date": "2026-01-01", "nutrient": "water", "type": "consume"}],
+                    "goals": [],
+                }),
+                json!({
+                    "nutrients": [],
+                    "portions": [{"timestamp": 1, "date": "2026-01-01", "nutrient": "protein", "type": "eat"}],
+                    "goals": [],
+                }),
+                json!({
+                    "nutrients": [],
+                    "portions": [],
+                    "goals": [{"timestamp": 1, "from": "tomorrow", "nutrient": "protein", "type": "inc"}],
+                }),
+                json!({
+                    "nutrients": [],
+                    "portions": [{"timestamp": 1, "date": "2026-01-01", "nutrient": "protein", "type": "consume", "meal": "brunch"}],
+                    "goals": [],
+                }),
+            ] {
+                server
+                    .post("/profiles/1/import")
+                    .json(&data)
+                    .await
+                    .assert_status_bad_request();
+            }
+            let resp = server.get("/profiles/1/export").await;
+            let data = resp.json::<serde_json::Value>();
+            assert_eq!(data["portions"], json!([]));
+            assert_eq!(data["goals"], json!([]));
+        }
     }
 
-    mod goals {
+    mod auth {
         use super::*;
 
-        #[tokio::test]
-        async fn test_get_goals_empty() {
-            let server = test_server();
-            let resp = server.get("/goals").await;
+        fn test_server_with_password() -> TestServer {
+            let conn = Connection::open_in_memory().unwrap();
+            setup_db(&conn).unwrap();
+            TestServer::new(router(AppState::new(conn, Some("secret".into())))).unwrap()
+        }
+
+        async fn log_in(server: &TestServer) -> String {
+            let resp = server
+                .post("/login")
+                .json(&json!({"password": "secret"}))
+                .await;
             resp.assert_status_success();
-            resp.assert_json(&json!({}));
+            resp.json::<serde_json::Value>()["token"]
+                .as_str()
+                .unwrap()
+                .to_string()
         }
 
         #[tokio::test]
-        async fn test_inc_goal_validation() {
+        async fn test_auth_disabled() {
             let server = test_server();
+            let resp = server.get("/auth").await;
+            resp.assert_json(&json!({"required": false}));
             server
-                .post("/goals/portions/protein/inc")
+                .get("/profiles/1/goals")
                 .await
                 .assert_status_success();
             server
-                .post("/goals/portions/carbs/inc")
+                .post("/login")
+                .json(&json!({"password": "secret"}))
                 .await
-                .assert_status_success();
+                .assert_status_bad_request();
+        }
+
+        #[tokio::test]
+        async fn test_auth_required() {
+            let server = test_server_with_password();
+            let resp = server.get("/auth").await;
+            resp.assert_json(&json!({"required": true}));
             server
-                .post("/goals/portions/fats/inc")
+                .get("/profiles/1/goals")
                 .await
-                .assert_status_success();
+                .assert_status_unauthorized();
             server
-                .post("/goals/portions/vegetables/inc")
+                .get("/profiles/1/goals")
+                .authorization_bearer("guess")
                 .await
-                .assert_status_success();
+                .assert_status_unauthorized();
             server
-                .post("/goals/portions/bad/inc")
+                .post("/login")
+                .json(&json!({"password": "guess"}))
                 .await
-                .assert_status_bad_request();
+                .assert_status_unauthorized();
         }
 
         #[tokio::test]
-        async fn test_inc_goal() {
-            let server = test_server();
+        async fn test_login_and_logout() {
+            let server = test_server_with_password();
+            let token = log_in(&server).await;
+            assert_eq!(token.len(), 64);
             server
-                .post("/goals/portions/protein/inc")
+                .get("/profiles/1/goals")
+                .authorization_bearer(&token)
                 .await
                 .assert_status_success();
+
+            // Other sessions are not affected by logging out.
+            let other = log_in(&server).await;
             server
-                .post("/goals/portions/protein/inc")
+                .post("/logout")
+                .authorization_bearer(&token)
                 .await
                 .assert_status_success();
             server
-                .post("/goals/portions/carbs/inc")
+                .get("/profiles/1/goals")
+                .authorization_bearer(&token)
+                .await
+                .assert_status_unauthorized();
+            server
+                .get("/profiles/1/goals")
+                .authorization_bearer(&other)
                 .await
                 .assert_status_success();
-            let resp = server.get("/goals").await;
-            resp.assert_status_success();
-            resp.assert_json(&json!({"carbs": 1, "protein": 2}));
         }
 
         #[tokio::test]
-        async fn test_dec_goal() {
-            let server = test_server();
+        async fn test_session_expires() {
+            let conn = Connection::open_in_memory().unwrap();
+            setup_db(&conn).unwrap();
+            conn.execute(
+                "INSERT INTO sessions (token, created) VALUES ('old', unixepoch() - ?), ('recent', unixepoch() - ?)",
+                params![SESSION_MAX_AGE_SECS, SESSION_MAX_AGE_SECS - 60],
+            )
+            .unwrap();
+            let server =
+                TestServer::new(router(AppState::new(conn, Some("secret".into())))).unwrap();
+
             server
-                .post("/goals/portions/protein/inc")
+                .get("/profiles/1/goals")
+                .authorization_bearer("old")
                 .await
-                .assert_status_success();
+                .assert_status_unauthorized();
             server
-                .post("/goals/portions/protein/inc")
+                .get("/profiles/1/goals")
+                .authorization_bearer("recent")
                 .await
                 .assert_status_success();
+        }
+    }
+
+    mod profiles {
+        use super::*;
+
+        #[tokio::test]
+        async fn test_get_profiles_initial() {
+            let server = test_server();
+            let resp = server.get("/profiles").await;
+            resp.assert_status_success();
+            resp.assert_json(&json!([{"id": 1, "name": "Default"}]));
+        }
+
+        #[tokio::test]
+        async fn test_create_and_rename_profile() {
+            let server = test_server();
+            let resp = server
+                .post("/profiles")
+                .json(&json!({"name": " Alice "}))
+                .await;
+            resp.assert_status_success();
+            resp.assert_json(&json!({"id": 2, "name": "Alice"}));
             server
-                .post("/goals/portions/protein/dec")
+                .put("/profiles/1")
+                .json(&json!({"name": "Bob"}))
                 .await
                 .assert_status_success();
-            let resp = server.get("/goals").await;
-            resp.assert_status_success();
-            resp.assert_json(&json!({"protein": 1}));
+            let resp = server.get("/profiles").await;
+            resp.assert_json(&json!([
+                {"id": 1, "name": "Bob"},
+                {"id": 2, "name": "Alice"},
+            ]));
         }
 
         #[tokio::test]
-        async fn test_dec_goal_validation_empty() {
+        async fn test_profile_validation() {
             let server = test_server();
             server
-                .post("/goals/portions/protein/dec")
+                .post("/profiles")
+                .json(&json!({"name": " "}))
+                .await
+                .assert_status_bad_request();
+            server
+                .put("/profiles/2")
+                .json(&json!({"name": "Alice"}))
                 .await
                 .assert_status_bad_request();
+            for url in [
+                "/profiles/2/days/2026-01-01/portions/protein/consume",
+                "/profiles/2/goals/portions/protein/inc",
+                "/profiles/2/goals/2026-01-01/portions/protein/inc",
+            ] {
+                server.post(url).await.assert_status_bad_request();
+            }
         }
 
         #[tokio::test]
-        async fn test_dec_goal_validation_0() {
+        async fn test_profiles_are_separate() {
             let server = test_server();
             server
-                .post("/goals/portions/protein/inc")
-                .await
-                .assert_status_success();
+                .post("/profiles")
+                .json(&json!({"name": "Alice"}))
+                .await;
+            for url in [
+                "/profiles/1/days/2026-01-01/portions/protein/consume",
+                "/profiles/2/days/2026-01-01/portions/carbs/consume?meal=lunch",
+                "/profiles/2/goals/2026-01-01/portions/carbs/inc",
+            ] {
+                server.post(url).await.assert_status_success();
+            }
+            let resp = server.get("/profiles/1/days/2026-01-01/portions").await;
+            resp.assert_json(&json!({"protein": 1}));
+            let resp = server.get("/profiles/2/days/2026-01-01/portions").await;
+            resp.assert_json(&json!({"carbs": 1}));
+            let resp = server.get("/profiles/1/days/2026-01-01/meals").await;
+            resp.assert_json(&json!({}));
+            let resp = server.get("/profiles/1/days/2026-01-01/goals").await;
+            resp.assert_json(&json!({}));
+            let resp = server.get("/profiles/2/days/2026-01-01/goals").await;
+            resp.assert_json(&json!({"carbs": 1}));
+            // The events of one profile can't be retracted through another.
             server
-                .post("/goals/portions/protein/dec")
+                .post("/profiles/2/days/2026-01-01/events/1/retract")
                 .await
-                .assert_status_success();
+                .assert_status_bad_request();
             server
-                .post("/goals/portions/protein/dec")
+                .post("/profiles/2/days/2026-01-01/portions/protein/unconsume")
                 .await
                 .assert_status_bad_request();
+            let data = server
+                .get("/profiles/2/export")
+                .await
+                .json::<serde_json::Value>();
+            assert_eq!(data["portions"].as_array().unwrap().len(), 1);
+            assert_eq!(data["goals"].as_array().unwrap().len(), 1);
         }
     }
 
@@ -377,7 +2809,7 @@ mod tests {
         #[tokio::test]
         async fn test_get_portions_empty() {
             let server = test_server();
-            let resp = server.get("/days/2026-01-01/portions").await;
+            let resp = server.get("/profiles/1/days/2026-01-01/portions").await;
             resp.assert_status_success();
             resp.assert_json(&json!({}));
         }
@@ -386,13 +2818,13 @@ mod tests {
         async fn test_consume() {
             let server = test_server();
             server
-                .post("/days/2026-01-01/portions/protein/consume")
+                .post("/profiles/1/days/2026-01-01/portions/protein/consume")
                 .await
                 .assert_status_success();
-            let resp = server.get("/days/2026-01-01/portions").await;
+            let resp = server.get("/profiles/1/days/2026-01-01/portions").await;
             resp.assert_status_success();
             resp.assert_json(&json!({"protein": 1}));
-            let resp = server.get("/days/2026-01-02/portions").await;
+            let resp = server.get("/profiles/1/days/2026-01-02/portions").await;
             resp.assert_status_success();
             resp.assert_json(&json!({}));
         }
@@ -401,30 +2833,127 @@ mod tests {
         async fn test_consume_validation() {
             let server = test_server();
             server
-                .post("/days/2026-01-01/portions/bad/consume")
+                .post("/profiles/1/days/2026-01-01/portions/bad/consume")
+                .await
+                .assert_status_bad_request();
+            let resp = server.get("/profiles/1/days/2026-01-01/portions").await;
+            resp.assert_status_success();
+            resp.assert_json(&json!({}));
+        }
+
+        #[tokio::test]
+        async fn test_consume_half() {
+            let server = test_server();
+            for url in [
+                "/profiles/1/days/2026-01-01/portions/protein/consume?amount=0.5",
+                "/profiles/1/days/2026-01-01/portions/protein/consume",
+                "/profiles/1/days/2026-01-01/portions/carbs/consume?amount=0.5",
+                "/profiles/1/days/2026-01-01/portions/carbs/consume?amount=0.5",
+            ] {
+                server.post(url).await.assert_status_success();
+            }
+            let resp = server.get("/profiles/1/days/2026-01-01/portions").await;
+            resp.assert_json(&json!({"protein": 1.5, "carbs": 1}));
+
+            server
+                .post("/profiles/1/days/2026-01-01/portions/protein/unconsume?amount=2")
                 .await
                 .assert_status_bad_request();
-            let resp = server.get("/days/2026-01-01/portions").await;
+            server
+                .post("/profiles/1/days/2026-01-01/portions/protein/unconsume?amount=0.5")
+                .await
+                .assert_status_success();
+            let resp = server.get("/profiles/1/days/2026-01-01/portions").await;
+            resp.assert_json(&json!({"protein": 1, "carbs": 1}));
+        }
+
+        #[tokio::test]
+        async fn test_consume_amount_validation() {
+            let server = test_server();
+            for amount in ["0", "-1", "0.3", "NaN", "half"] {
+                server
+                    .post("/profiles/1/days/2026-01-01/portions/protein/consume")
+                    .add_query_param("amount", amount)
+                    .await
+                    .assert_status_bad_request();
+            }
+            let resp = server.get("/profiles/1/days/2026-01-01/portions").await;
+            resp.assert_json(&json!({}));
+        }
+
+        #[tokio::test]
+        async fn test_get_portions_for_range() {
+            let server = test_server();
+            for url in [
+                "/profiles/1/days/2025-12-31/portions/protein/consume",
+                "/profiles/1/days/2026-01-01/portions/protein/consume",
+                "/profiles/1/days/2026-01-01/portions/carbs/consume",
+                "/profiles/1/days/2026-01-03/portions/fats/consume",
+                "/profiles/1/days/2026-01-04/portions/fats/consume",
+            ] {
+                server.post(url).await.assert_status_success();
+            }
+            let resp = server
+                .get("/profiles/1/days")
+                .add_query_param("from", "2026-01-01")
+                .add_query_param("to", "2026-01-03")
+                .await;
+            resp.assert_status_success();
+            resp.assert_json(&json!({
+                "2026-01-01": {"protein": 1, "carbs": 1},
+                "2026-01-03": {"fats": 1},
+            }));
+        }
+
+        #[tokio::test]
+        async fn test_get_portions_for_range_empty() {
+            let server = test_server();
+            let resp = server
+                .get("/profiles/1/days")
+                .add_query_param("from", "2026-01-01")
+                .add_query_param("to", "2026-01-31")
+                .await;
             resp.assert_status_success();
             resp.assert_json(&json!({}));
         }
 
+        #[tokio::test]
+        async fn test_get_portions_for_range_validation() {
+            let server = test_server();
+            server
+                .get("/profiles/1/days")
+                .add_query_param("from", "bad")
+                .add_query_param("to", "2026-01-31")
+                .await
+                .assert_status_bad_request();
+            server
+                .get("/profiles/1/days")
+                .add_query_param("from", "2026-01-31")
+                .add_query_param("to", "2026-01-01")
+                .await
+                .assert_status_bad_request();
+            server
+                .get("/profiles/1/days")
+                .await
+                .assert_status_bad_request();
+        }
+
         #[tokio::test]
         async fn test_unconsume() {
             let server = test_server();
             server
-                .post("/days/2026-01-01/portions/protein/consume")
+                .post("/profiles/1/days/2026-01-01/portions/protein/consume")
                 .await
                 .assert_status_success();
             server
-                .post("/days/2026-01-01/portions/protein/consume")
+                .post("/profiles/1/days/2026-01-01/portions/protein/consume")
                 .await
                 .assert_status_success();
             server
-                .post("/days/2026-01-01/portions/protein/unconsume")
+                .post("/profiles/1/days/2026-01-01/portions/protein/unconsume")
                 .await
                 .assert_status_success();
-            let resp = server.get("/days/2026-01-01/portions").await;
+            let resp = server.get("/profiles/1/days/2026-01-01/portions").await;
             resp.assert_status_success();
             resp.assert_json(&json!({"protein": 1}));
         }
@@ -433,7 +2962,7 @@ mod tests {
         async fn test_unconsume_validation_empty() {
             let server = test_server();
             server
-                .post("/days/2026-01-01/portions/protein/unconsume")
+                .post("/profiles/1/days/2026-01-01/portions/protein/unconsume")
                 .await
                 .assert_status_bad_request();
         }
@@ -442,20 +2971,370 @@ mod tests {
         async fn test_unconsume_validation_zero() {
             let server = test_server();
             server
-                .post("/days/2026-01-01/portions/protein/consume")
+                .post("/profiles/1/days/2026-01-01/portions/protein/consume")
                 .await
                 .assert_status_success();
             server
-                .post("/days/2026-01-01/portions/protein/unconsume")
+                .post("/profiles/1/days/2026-01-01/portions/protein/unconsume")
                 .await
                 .assert_status_success();
             server
-                .post("/days/2026-01-01/portions/protein/unconsume")
+                .post("/profiles/1/days/2026-01-01/portions/protein/unconsume")
                 .await
                 .assert_status_bad_request();
-            let resp = server.get("/days/2026-01-01/portions").await;
+            let resp = server.get("/profiles/1/days/2026-01-01/portions").await;
+            resp.assert_status_success();
+            resp.assert_json(&json!({"protein": 0}));
+        }
+    }
+
+    mod saved_meals {
+        use super::*;
+
+        #[tokio::test]
+        async fn test_saved_meals() {
+            let server = test_server();
+            let resp = server
+                .post("/profiles/1/saved-meals")
+                .json(&json!({
+                    "name": " Chicken bowl ",
+                    "position": 1,
+                    "portions": {"protein": 1, "vegetables": 2},
+                }))
+                .await;
+            resp.assert_status_success();
+            resp.assert_json(&json!({
+                "id": 1,
+                "name": "Chicken bowl",
+                "position": 1,
+                "portions": {"protein": 1, "vegetables": 2},
+            }));
+            server
+                .post("/profiles/1/saved-meals")
+                .json(&json!({"name": "Porridge", "position": 0, "portions": {"carbs": 1.5}}))
+                .await
+                .assert_status_success();
+            server
+                .put("/profiles/1/saved-meals/1")
+                .json(&json!({"name": "Bowl", "position": 2, "portions": {"fats": 1}}))
+                .await
+                .assert_status_success();
+
+            let resp = server.get("/profiles/1/saved-meals").await;
             resp.assert_status_success();
+            resp.assert_json(&json!([
+                {"id": 2, "name": "Porridge", "position": 0, "portions": {"carbs": 1.5}},
+                {"id": 1, "name": "Bowl", "position": 2, "portions": {"fats": 1}},
+            ]));
+
+            server
+                .delete("/profiles/1/saved-meals/2")
+                .await
+                .assert_status_success();
+            let resp = server.get("/profiles/1/saved-meals").await;
+            resp.assert_json(&json!([
+                {"id": 1, "name": "Bowl", "position": 2, "portions": {"fats": 1}},
+            ]));
+        }
+
+        #[tokio::test]
+        async fn test_saved_meals_are_per_profile() {
+            let server = test_server();
+            server
+                .post("/profiles")
+                .json(&json!({"name": "Bob"}))
+                .await
+                .assert_status_success();
+            server
+                .post("/profiles/1/saved-meals")
+                .json(&json!({"name": "Bowl", "position": 0, "portions": {}}))
+                .await
+                .assert_status_success();
+
+            let resp = server.get("/profiles/2/saved-meals").await;
+            resp.assert_json(&json!([]));
+            server
+                .put("/profiles/2/saved-meals/1")
+                .json(&json!({"name": "Mine", "position": 0, "portions": {}}))
+                .await
+                .assert_status_bad_request();
+            server
+                .delete("/profiles/2/saved-meals/1")
+                .await
+                .assert_status_bad_request();
+        }
+
+        #[tokio::test]
+        async fn test_saved_meal_validation() {
+            let server = test_server();
+            for definition in [
+                json!({"name": " ", "position": 0, "portions": {}}),
+                json!({"name": "Bowl", "position": 0, "portions": {"unknown": 1}}),
+                json!({"name": "Bowl", "position": 0, "portions": {"protein": 0}}),
+            ] {
+                server
+                    .post("/profiles/1/saved-meals")
+                    .json(&definition)
+                    .await
+                    .assert_status_bad_request();
+            }
+            server
+                .post("/profiles/2/saved-meals")
+                .json(&json!({"name": "Bowl", "position": 0, "portions": {}}))
+                .await
+                .assert_status_bad_request();
+        }
+    }
+
+    mod commands {
+        use super::*;
+        use crate::Change;
+
+        #[tokio::test]
+        async fn test_apply_commands() {
+            let server = test_server();
+            server
+                .post("/profiles/1/commands")
+                .json(&json!([
+                    {"type": "consume", "date": "2026-01-01", "nutrient": "protein", "meal": "lunch", "amount": 2},
+                    {"type": "consume", "date": "2026-01-01", "nutrient": "carbs"},
+                    {"type": "unconsume", "date": "2026-01-01", "nutrient": "protein", "meal": "lunch", "amount": 0.5},
+                    {"type": "inc", "date": "2026-01-01", "nutrient": "fats", "amount": 3},
+                    {"type": "dec", "date": "2026-01-01", "nutrient": "fats"},
+                ]))
+                .await
+                .assert_status_success();
+
+            let resp = server.get("/profiles/1/days/2026-01-01/portions").await;
+            resp.assert_json(&json!({"protein": 1.5, "carbs": 1}));
+            let resp = server.get("/profiles/1/days/2026-01-01/meals").await;
+            resp.assert_json(&json!({"lunch": {"protein": 1.5}}));
+            let resp = server.get("/profiles/1/days/2026-01-01/goals").await;
+            resp.assert_json(&json!({"fats": 2}));
+        }
+
+        #[tokio::test]
+        async fn test_apply_commands_is_all_or_nothing() {
+            let server = test_server();
+            for commands in [
+                json!([]),
+                json!([{"type": "consume", "date": "2026-01-01", "nutrient": "unknown"}]),
+                json!([{"type": "consume", "date": "2026-1-1", "nutrient": "protein"}]),
+                json!([{"type": "consume", "date": "2026-01-01", "nutrient": "protein", "meal": "brunch"}]),
+                json!([{"type": "consume", "date": "2026-01-01", "nutrient": "protein", "amount": 0}]),
+                json!([{"type": "eat", "date": "2026-01-01", "nutrient": "protein"}]),
+                // The portions are recorded without a meal, so there are none for lunch.
+                json!([
+                    {"type": "consume", "date": "2026-01-01", "nutrient": "protein"},
+                    {"type": "unconsume", "date": "2026-01-01", "nutrient": "protein", "meal": "lunch"},
+                ]),
+                json!([
+                    {"type": "inc", "nutrient": "protein"},
+                    {"type": "dec", "nutrient": "protein", "amount": 2},
+                ]),
+            ] {
+                let resp = server.post("/profiles/1/commands").json(&commands).await;
+                assert!(resp.status_code().is_client_error(), "{commands}");
+            }
+            server
+                .post("/profiles/2/commands")
+                .json(&json!([{"type": "inc", "nutrient": "protein"}]))
+                .await
+                .assert_status_bad_request();
+
+            let resp = server.get("/profiles/1/days/2026-01-01/portions").await;
+            resp.assert_json(&json!({}));
+            let resp = server.get("/profiles/1/goals").await;
+            resp.assert_json(&json!({}));
+        }
+
+        #[tokio::test]
+        async fn test_replayed_commands_are_applied_once() {
+            let server = test_server();
+            for result in ["success", "duplicate"] {
+                let resp = server
+                    .post("/profiles/1/commands")
+                    .add_header("Idempotency-Key", "a")
+                    .json(&json!([
+                        {"type": "inc", "date": "2026-01-01", "nutrient": "carbs"},
+                        {"type": "consume", "date": "2026-01-01", "nutrient": "carbs"},
+                    ]))
+                    .await;
+                resp.assert_status_success();
+                resp.assert_json(&json!(result));
+            }
+            let resp = server.get("/profiles/1/days/2026-01-01/portions").await;
+            resp.assert_json(&json!({"carbs": 1}));
+            let resp = server.get("/profiles/1/days/2026-01-01/goals").await;
+            resp.assert_json(&json!({"carbs": 1}));
+        }
+
+        #[tokio::test]
+        async fn test_apply_commands_publishes_each_change_once() {
+            let conn = Connection::open_in_memory().unwrap();
+            setup_db(&conn).unwrap();
+            let state = AppState::new(conn, None);
+            let mut receiver = state.changes.0.subscribe();
+            let server = TestServer::new(router(state)).unwrap();
+
+            server
+                .post("/profiles/1/commands")
+                .json(&json!([
+                    {"type": "consume", "date": "2026-01-01", "nutrient": "protein"},
+                    {"type": "consume", "date": "2026-01-01", "nutrient": "carbs"},
+                    {"type": "inc", "nutrient": "carbs"},
+                    {"type": "consume", "date": "2026-01-02", "nutrient": "carbs"},
+                ]))
+                .await
+                .assert_status_success();
+
+            assert_eq!(
+                receiver.try_recv().unwrap(),
+                Change::Portions {
+                    profile: 1,
+                    date: "2026-01-01".into()
+                }
+            );
+            assert_eq!(receiver.try_recv().unwrap(), Change::Goals { profile: 1 });
+            assert_eq!(
+                receiver.try_recv().unwrap(),
+                Change::Portions {
+                    profile: 1,
+                    date: "2026-01-02".into()
+                }
+            );
+            assert!(receiver.try_recv().is_err());
+        }
+    }
+
+    mod changes {
+        use super::*;
+        use crate::Change;
+
+        #[tokio::test]
+        async fn test_commands_publish_changes() {
+            let conn = Connection::open_in_memory().unwrap();
+            setup_db(&conn).unwrap();
+            let state = AppState::new(conn, None);
+            let mut receiver = state.changes.0.subscribe();
+            let server = TestServer::new(router(state)).unwrap();
+
+            server
+                .post("/profiles/1/days/2026-01-01/portions/protein/consume")
+                .await
+                .assert_status_success();
+            server
+                .post("/profiles/1/goals/portions/protein/inc")
+                .await
+                .assert_status_success();
+            // Rejected commands change nothing.
+            server
+                .post("/profiles/1/days/2026-01-01/portions/carbs/unconsume")
+                .await
+                .assert_status_bad_request();
+
+            assert_eq!(
+                receiver.try_recv().unwrap(),
+                Change::Portions {
+                    profile: 1,
+                    date: "2026-01-01".into()
+                }
+            );
+            assert_eq!(receiver.try_recv().unwrap(), Change::Goals { profile: 1 });
+            assert!(receiver.try_recv().is_err());
+        }
+
+        #[test]
+        fn test_changes_concern_their_profile() {
+            assert!(Change::Goals { profile: 1 }.concerns(1));
+            assert!(!Change::Goals { profile: 1 }.concerns(2));
+            assert!(Change::Nutrients.concerns(2));
+        }
+
+        #[test]
+        fn test_change_json() {
+            assert_eq!(
+                serde_json::to_value(Change::Portions {
+                    profile: 1,
+                    date: "2026-01-01".into()
+                })
+                .unwrap(),
+                json!({"kind": "portions", "profile": 1, "date": "2026-01-01"})
+            );
+            assert_eq!(
+                serde_json::to_value(Change::SavedMeals { profile: 1 }).unwrap(),
+                json!({"kind": "saved-meals", "profile": 1})
+            );
+        }
+
+        #[tokio::test]
+        async fn test_changes_validation() {
+            let server = test_server();
+            server
+                .get("/profiles/2/changes")
+                .await
+                .assert_status_bad_request();
+        }
+    }
+
+    mod idempotency {
+        use super::*;
+
+        #[tokio::test]
+        async fn test_replayed_commands_are_applied_once() {
+            let server = test_server();
+            for url in [
+                "/profiles/1/days/2026-01-01/portions/protein/consume",
+                "/profiles/1/goals/2026-01-01/portions/protein/inc",
+            ] {
+                for (key, result) in [("a", "success"), ("a", "duplicate"), ("b", "success")] {
+                    let resp = server.post(url).add_header("Idempotency-Key", key).await;
+                    resp.assert_status_success();
+                    resp.assert_json(&json!(result));
+                }
+            }
+            // Keys are not reused across commands.
+            let resp = server
+                .post("/profiles/1/days/2026-01-01/portions/protein/unconsume")
+                .add_header("Idempotency-Key", "a")
+                .await;
+            resp.assert_json(&json!("duplicate"));
+
+            let resp = server.get("/profiles/1/days/2026-01-01/portions").await;
+            resp.assert_json(&json!({"protein": 2}));
+            let resp = server.get("/profiles/1/days/2026-01-01/goals").await;
+            resp.assert_json(&json!({"protein": 2}));
+        }
+
+        #[tokio::test]
+        async fn test_replayed_retraction_is_not_rejected() {
+            let server = test_server();
+            server
+                .post("/profiles/1/days/2026-01-01/portions/protein/consume")
+                .await
+                .assert_status_success();
+            for result in ["success", "duplicate"] {
+                let resp = server
+                    .post("/profiles/1/days/2026-01-01/events/1/retract")
+                    .add_header("Idempotency-Key", "c")
+                    .await;
+                resp.assert_status_success();
+                resp.assert_json(&json!(result));
+            }
+            let resp = server.get("/profiles/1/days/2026-01-01/portions").await;
             resp.assert_json(&json!({"protein": 0}));
         }
+
+        #[tokio::test]
+        async fn test_idempotency_key_validation() {
+            let server = test_server();
+            for key in ["", "not valid", "a".repeat(65).as_str()] {
+                server
+                    .post("/profiles/1/days/2026-01-01/portions/protein/consume")
+                    .add_header("Idempotency-Key", key)
+                    .await
+                    .assert_status_bad_request();
+            }
+        }
     }
 }
@@ -15,6 +15,7 @@
 import "./App.css";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import AppContent from "./components/AppContent";
+import AuthGate from "./components/AuthGate";
 
 const queryClient = new QueryClient();
 
@@ -22,7 +23,9 @@ function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <div>
-        <AppContent />
+        <AuthGate>
+          <AppContent />
+        </AuthGate>
       </div>
     </QueryClientProvider>
   );
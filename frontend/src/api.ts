@@ -0,0 +1,455 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { useContext, useMemo } from "react";
+import * as z from "zod/mini";
+import { authFetch, setSessionToken } from "./auth";
+import { BackendBaseUrl } from "./BackendUrlContext";
+import { ActiveProfile } from "./ProfileContext";
+
+export const Nutrient = z.object({
+  // Used in CSS class names. The backend allows up to 32 characters.
+  id: z.string().check(z.regex(/^[a-z][a-z0-9-]{0,31}$/)),
+  // Labels by language code, e.g. "en" or "de".
+  labels: z.record(z.string(), z.string()),
+  color: z.string().check(z.regex(/^#[0-9a-fA-F]{6}$/)),
+  position: z.number(),
+  active: z.boolean(),
+});
+export type Nutrient = z.infer<typeof Nutrient>;
+
+export const Profile = z.object({
+  id: z.number(),
+  name: z.string(),
+});
+export type Profile = z.infer<typeof Profile>;
+
+// Counts are in steps of half a portion.
+export const PortionsOfNutrients = z.record(z.string(), z.number());
+export type PortionsOfNutrients = z.infer<typeof PortionsOfNutrients>;
+
+// Days without any portions are absent.
+export const PortionsByDate = z.record(z.string(), PortionsOfNutrients);
+export type PortionsByDate = z.infer<typeof PortionsByDate>;
+
+// Each entry holds the goals in force from its date until the next entry's date.
+export const GoalHistory = z.array(
+  z.object({ from: z.string(), goals: PortionsOfNutrients }),
+);
+export type GoalHistory = z.infer<typeof GoalHistory>;
+
+export const MEALS = ["breakfast", "lunch", "dinner", "snack"] as const;
+export const Meal = z.enum(MEALS);
+export type Meal = z.infer<typeof Meal>;
+
+// Portions recorded without a meal are not included, neither are meals without portions.
+export const PortionsByMeal = z.partialRecord(Meal, PortionsOfNutrients);
+export type PortionsByMeal = z.infer<typeof PortionsByMeal>;
+
+// Retractions are not listed, the events they retract are marked instead.
+export const DayEvent = z.object({
+  id: z.number(),
+  timestamp: z.number(),
+  nutrient: z.string(),
+  type: z.enum(["consume", "unconsume"]),
+  meal: z.nullable(Meal),
+  amount: z.number(),
+  retracted: z.boolean(),
+});
+export type DayEvent = z.infer<typeof DayEvent>;
+
+// Portions of several nutrients saved under a name, for recording them at once.
+export const SavedMeal = z.object({
+  id: z.number(),
+  name: z.string(),
+  position: z.number(),
+  portions: PortionsOfNutrients,
+});
+export type SavedMeal = z.infer<typeof SavedMeal>;
+
+// One of the commands sent together, see `ApiClient.commandsUrl`. The date is the day of the
+// portions, or the day a change of the goal takes effect.
+export type Command = {
+  type: "consume" | "unconsume" | "inc" | "dec";
+  date: string;
+  nutrient: string;
+  meal?: Meal;
+  // One portion if not given.
+  amount?: number;
+};
+
+// Authentication is optional, it's up to the backend to require it.
+export const AuthStatus = z.object({ required: z.boolean() });
+export type AuthStatus = z.infer<typeof AuthStatus>;
+
+export const PortionEvent = z.object({
+  timestamp: z.number(),
+  date: z.string(),
+  nutrient: z.string(),
+  type: z.enum(["consume", "unconsume"]),
+  // Absent in exports made before meals were recorded.
+  meal: z.optional(z.nullable(Meal)),
+  // Absent in exports made before half portions were recorded.
+  amount: z.optional(z.number()),
+});
+
+export const GoalEvent = z.object({
+  timestamp: z.number(),
+  // The date the change takes effect.
+  from: z.string(),
+  nutrient: z.string(),
+  type: z.enum(["inc", "dec"]),
+  // Absent in exports made before half portions were recorded.
+  amount: z.optional(z.number()),
+});
+
+// All the data, in the form the backend stores it.
+export const ExportData = z.object({
+  nutrients: z.array(Nutrient),
+  portions: z.array(PortionEvent),
+  goals: z.array(GoalEvent),
+});
+export type ExportData = z.infer<typeof ExportData>;
+
+export const ImportSummary = z.object({
+  nutrients: z.number(),
+  portions: z.number(),
+  goals: z.number(),
+  days: z.number(),
+  duplicates: z.number(),
+  conflicts: z.array(z.string()),
+});
+export type ImportSummary = z.infer<typeof ImportSummary>;
+
+// A change of the data made by any client. Changes of portions are made on `date`.
+export const Change = z.object({
+  kind: z.enum([
+    "portions",
+    "goals",
+    "all",
+    "nutrients",
+    "profiles",
+    "saved-meals",
+  ]),
+  date: z.optional(z.string()),
+});
+export type Change = z.infer<typeof Change>;
+
+/**
+ * How long to wait for the backend before giving up on a request.
+ */
+export const REQUEST_TIMEOUT_MS = 15_000;
+
+/**
+ * A response of the backend rejecting a request, with the reason it gave as the message.
+ */
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+type RequestOptions = {
+  method?: string;
+  // Sent as JSON.
+  body?: unknown;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  // Whether to send the session token.
+  authenticated?: boolean;
+  // Streamed responses may take arbitrarily long, so they don't time out.
+  streamed?: boolean;
+};
+
+/**
+ * Sends a request, giving up after `REQUEST_TIMEOUT_MS` or once `signal` is aborted.
+ *
+ * @throws ApiError if the backend rejects the request.
+ */
+async function send(
+  url: string,
+  {
+    method,
+    body,
+    headers = {},
+    signal,
+    authenticated = true,
+    streamed = false,
+  }: RequestOptions = {},
+) {
+  const signals = streamed ? [] : [AbortSignal.timeout(REQUEST_TIMEOUT_MS)];
+  if (signal) {
+    signals.push(signal);
+  }
+  const init: RequestInit = {
+    method,
+    headers,
+    signal: AbortSignal.any(signals),
+  };
+  if (body !== undefined) {
+    init.headers = { ...headers, "Content-Type": "application/json" };
+    init.body = JSON.stringify(body);
+  }
+  const response = await (authenticated ? authFetch : fetch)(url, init);
+  if (!response.ok) {
+    throw new ApiError(response.status, await response.text());
+  }
+  return response;
+}
+
+/**
+ * Sends a request and validates the response.
+ */
+async function receive<T>(
+  schema: z.ZodMiniType<T>,
+  url: string,
+  options?: RequestOptions,
+) {
+  const response = await send(url, options);
+  return schema.parse(await response.json());
+}
+
+/**
+ * Sends a command queued in the outbox, whose URL is made by the client.
+ *
+ * @param commandId - Identifies the command, so that the backend applies it only once.
+ * @param body - Sent as JSON, if given.
+ * @returns Whether the command was applied now, rather than when sent before.
+ */
+export async function sendCommand(
+  url: string,
+  commandId?: string,
+  body?: unknown,
+) {
+  const response = await send(url, {
+    method: "POST",
+    body,
+    headers: commandId ? { "Idempotency-Key": commandId } : {},
+  });
+  return (await response.json()) !== "duplicate";
+}
+
+/**
+ * Yields the data of the server-sent events in the stream as they arrive.
+ */
+async function* serverSentEvents(body: ReadableStream<Uint8Array>) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return;
+    }
+    buffer += decoder.decode(value, { stream: true });
+    // Events end with an empty line, the last one may not have arrived entirely yet.
+    const events = buffer.split("\n\n");
+    buffer = events.pop() ?? "";
+    for (const event of events) {
+      // Lines without data are comments keeping the connection alive, or unused fields.
+      const data = event
+        .split("\n")
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice("data:".length).trimStart());
+      if (data.length > 0) {
+        yield data.join("\n");
+      }
+    }
+  }
+}
+
+function urlWithParams(path: string, params: Record<string, string> = {}) {
+  const search = new URLSearchParams(params).toString();
+  return search ? `${path}?${search}` : path;
+}
+
+/**
+ * The backend API. Portions, goals, and their history belong to `profile`, while
+ * nutrients are shared by all profiles.
+ *
+ * Queries take an optional `signal` for cancelling them, e.g. the one React Query passes
+ * to query functions.
+ */
+export function apiClient(baseUrl: string, profile: number) {
+  const profileUrl = `${baseUrl}/profiles/${profile}`;
+  const dayUrl = (isoDate: string) =>
+    `${profileUrl}/days/${encodeURIComponent(isoDate)}`;
+
+  return {
+    authStatus: (signal?: AbortSignal) =>
+      receive(AuthStatus, `${baseUrl}/auth`, { signal, authenticated: false }),
+
+    /**
+     * Starts a session.
+     *
+     * @returns The session token, or `null` if the password is wrong.
+     */
+    login: async (password: string) => {
+      try {
+        const session = await receive(
+          z.object({ token: z.string() }),
+          `${baseUrl}/login`,
+          { method: "POST", body: { password }, authenticated: false },
+        );
+        return session.token;
+      } catch (e) {
+        if (e instanceof ApiError && e.status === 401) {
+          return null;
+        }
+        throw e;
+      }
+    },
+
+    /**
+     * Ends the session. The token is dropped even if the backend can't be reached.
+     */
+    logout: async () => {
+      try {
+        await send(`${baseUrl}/logout`, { method: "POST" });
+      } finally {
+        setSessionToken(null);
+      }
+    },
+
+    nutrients: (signal?: AbortSignal) =>
+      receive(z.array(Nutrient), `${baseUrl}/nutrients`, { signal }),
+
+    /**
+     * Creates or replaces the definition of a nutrient.
+     */
+    saveNutrient: async ({ id, ...definition }: Nutrient) => {
+      await send(`${baseUrl}/nutrients/${encodeURIComponent(id)}`, {
+        method: "PUT",
+        body: definition,
+      });
+    },
+
+    profiles: (signal?: AbortSignal) =>
+      receive(z.array(Profile), `${baseUrl}/profiles`, { signal }),
+
+    createProfile: (name: string) =>
+      receive(Profile, `${baseUrl}/profiles`, {
+        method: "POST",
+        body: { name },
+      }),
+
+    savedMeals: (signal?: AbortSignal) =>
+      receive(z.array(SavedMeal), `${profileUrl}/saved-meals`, { signal }),
+
+    createSavedMeal: (definition: Omit<SavedMeal, "id">) =>
+      receive(SavedMeal, `${profileUrl}/saved-meals`, {
+        method: "POST",
+        body: definition,
+      }),
+
+    /**
+     * Replaces the definition of a saved meal.
+     */
+    saveSavedMeal: async ({ id, ...definition }: SavedMeal) => {
+      await send(`${profileUrl}/saved-meals/${id}`, {
+        method: "PUT",
+        body: definition,
+      });
+    },
+
+    deleteSavedMeal: async (id: number) => {
+      await send(`${profileUrl}/saved-meals/${id}`, { method: "DELETE" });
+    },
+
+    portions: (isoDate: string, signal?: AbortSignal) =>
+      receive(PortionsOfNutrients, `${dayUrl(isoDate)}/portions`, { signal }),
+
+    /**
+     * Fetches the portions of the days from `from` to `to`, both included.
+     */
+    portionsRange: (from: string, to: string, signal?: AbortSignal) =>
+      receive(
+        PortionsByDate,
+        `${profileUrl}/days?${new URLSearchParams({ from, to })}`,
+        { signal },
+      ),
+
+    meals: (isoDate: string, signal?: AbortSignal) =>
+      receive(PortionsByMeal, `${dayUrl(isoDate)}/meals`, { signal }),
+
+    dayEvents: (isoDate: string, signal?: AbortSignal) =>
+      receive(z.array(DayEvent), `${dayUrl(isoDate)}/events`, { signal }),
+
+    /**
+     * Fetches the goals in force on the given day.
+     */
+    goals: (isoDate: string, signal?: AbortSignal) =>
+      receive(PortionsOfNutrients, `${dayUrl(isoDate)}/goals`, { signal }),
+
+    goalHistory: (signal?: AbortSignal) =>
+      receive(GoalHistory, `${profileUrl}/goals/history`, { signal }),
+
+    /**
+     * Subscribes to the changes concerning the profile.
+     *
+     * Yields the changes as they're made, until the connection is lost or `signal` is
+     * aborted.
+     */
+    async *changes(signal?: AbortSignal) {
+      const response = await send(`${profileUrl}/changes`, {
+        signal,
+        streamed: true,
+      });
+      if (!response.body) {
+        return;
+      }
+      for await (const data of serverSentEvents(response.body)) {
+        yield Change.parse(JSON.parse(data));
+      }
+    },
+
+    exportData: (signal?: AbortSignal) =>
+      receive(ExportData, `${profileUrl}/export`, { signal }),
+
+    /**
+     * Imports the data, or with `dryRun` only reports what would be imported.
+     */
+    importData: (data: ExportData, dryRun: boolean) =>
+      receive(
+        ImportSummary,
+        urlWithParams(`${profileUrl}/import`, { dry_run: String(dryRun) }),
+        { method: "POST", body: data },
+      ),
+
+    // The commands below are queued in the outbox, so only their URLs are made here.
+
+    /**
+     * Applies the commands sent as the body in order, all of them or none.
+     */
+    commandsUrl: () => `${profileUrl}/commands`,
+
+    retractUrl: (isoDate: string, eventId: number) =>
+      `${dayUrl(isoDate)}/events/${eventId}/retract`,
+  };
+}
+
+export type ApiClient = ReturnType<typeof apiClient>;
+
+/**
+ * Returns the API client for the backend and profile in use.
+ */
+export function useApi() {
+  const baseUrl = useContext(BackendBaseUrl);
+  const profile = useContext(ActiveProfile);
+  return useMemo(() => apiClient(baseUrl, profile), [baseUrl, profile]);
+}
@@ -0,0 +1,57 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+// The token is kept across reloads, so that logging in is needed only once per device.
+const SESSION_STORAGE_KEY = "session";
+
+/**
+ * Dispatched on `window` when the backend rejects the session, e.g. because it logged out
+ * on another device.
+ */
+export const UNAUTHORIZED_EVENT = "ssnt:unauthorized";
+
+export const AUTH_QUERY_KEY = ["auth"];
+
+export function sessionToken() {
+  return localStorage.getItem(SESSION_STORAGE_KEY);
+}
+
+export function setSessionToken(token: string | null) {
+  if (token === null) {
+    localStorage.removeItem(SESSION_STORAGE_KEY);
+  } else {
+    localStorage.setItem(SESSION_STORAGE_KEY, token);
+  }
+}
+
+/**
+ * `fetch` sending the session token along, if there is one.
+ *
+ * A 401 response means the session is no longer valid, so the token is dropped and
+ * `UNAUTHORIZED_EVENT` is dispatched for the login screen to be shown.
+ */
+export async function authFetch(url: string, init: RequestInit = {}) {
+  const token = sessionToken();
+  let headers = init.headers;
+  if (token !== null) {
+    headers = new Headers(headers);
+    headers.set("Authorization", `Bearer ${token}`);
+  }
+  const response = await fetch(url, { ...init, headers });
+  if (response.status === 401) {
+    setSessionToken(null);
+    window.dispatchEvent(new Event(UNAUTHORIZED_EVENT));
+  }
+  return response;
+}
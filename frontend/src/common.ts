@@ -13,94 +13,578 @@
 // limitations under the License.
 
 import {
+  type QueryKey,
   type UseMutationResult,
   useMutation,
+  useQuery,
   useQueryClient,
 } from "@tanstack/react-query";
-import { useState } from "react";
+import type { TFunction } from "i18next";
+import { useCallback, useContext } from "react";
 import toast from "react-hot-toast";
 import { useTranslation } from "react-i18next";
-import * as z from "zod/mini";
+import {
+  ApiError,
+  type Command,
+  type DayEvent,
+  MEALS,
+  type Meal,
+  type Nutrient,
+  type PortionsByDate,
+  type PortionsByMeal,
+  type PortionsOfNutrients,
+  useApi,
+} from "./api";
+import { OutboxContext } from "./OutboxContext";
+import { addPortions, OUTBOX_QUERY_KEY, type OutboxEntry } from "./outbox";
+import { ActiveProfile } from "./ProfileContext";
+import { type Settings, UserSettings } from "./settings";
+
+export const NUTRIENTS_QUERY_KEY = ["nutrients"];
+
+export const PROFILES_QUERY_KEY = ["profiles"];
+
+// Days are calendar dates, which don't depend on the time zone. As `Date`s, they are
+// represented by midnight UTC of the date, so they must be formatted in UTC.
+
+export function dayBefore(date: Date) {
+  const d = new Date(date);
+  d.setUTCDate(d.getUTCDate() - 1);
+  return d;
+}
+
+export function dayAfter(date: Date) {
+  const d = new Date(date);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d;
+}
+
+export function toIsoDate(date: Date) {
+  return date.toISOString().split("T")[0];
+}
+
+export function fromIsoDate(isoDate: string) {
+  return new Date(`${isoDate}T00:00:00Z`);
+}
+
+/**
+ * Returns the date and the time of `instant` on a clock in the time zone, or in the time
+ * zone of the device if it's `null`.
+ */
+export function wallClock(instant: Date, timeZone: string | null) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timeZone ?? undefined,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value;
+  return {
+    isoDate: `${part("year")}-${part("month")}-${part("day")}`,
+    hour: Number(part("hour")),
+    minute: Number(part("minute")),
+  };
+}
+
+/**
+ * Returns the ISO date of the day `instant` counts to, according to the settings.
+ */
+export function dayOf(
+  instant: Date,
+  { timeZone, dayStartHour }: Settings,
+): string {
+  const { isoDate, hour } = wallClock(instant, timeZone);
+  return hour < dayStartHour
+    ? toIsoDate(dayBefore(fromIsoDate(isoDate)))
+    : isoDate;
+}
+
+/**
+ * Returns the ISO date of the current day, according to the settings in use.
+ */
+export function useToday() {
+  return dayOf(new Date(), useContext(UserSettings));
+}
+
+/**
+ * Returns the meal usually eaten at the time of `date` in the time zone.
+ */
+export function defaultMeal(date: Date, timeZone: string | null = null): Meal {
+  const { hour } = wallClock(date, timeZone);
+  if (hour >= 5 && hour < 11) {
+    return "breakfast";
+  }
+  if (hour >= 11 && hour < 16) {
+    return "lunch";
+  }
+  if (hour >= 16 && hour < 22) {
+    return "dinner";
+  }
+  return "snack";
+}
+
+/**
+ * Returns the meal to remove `amount` of the nutrient from, preferring `selected`.
+ *
+ * The backend only removes portions recorded for the given meal, or without a meal if
+ * it's `undefined`. Otherwise the latest meal having enough is used, so that removing
+ * a portion works regardless of the selected meal.
+ */
+export function mealToUnconsume(
+  total: number,
+  byMeal: PortionsByMeal,
+  nutrient: string,
+  selected: Meal,
+  amount = 1,
+): Meal | undefined {
+  const countOf = (meal: Meal) => byMeal[meal]?.[nutrient] ?? 0;
+  if (countOf(selected) >= amount) {
+    return selected;
+  }
+  const withoutMeal = MEALS.reduce((rest, meal) => rest - countOf(meal), total);
+  if (withoutMeal >= amount) {
+    return undefined;
+  }
+  return MEALS.findLast((meal) => countOf(meal) >= amount) ?? selected;
+}
 
-export const NUTRIENTS = ["protein", "carbs", "vegetables", "fats"];
+/**
+ * Splits removing `amount` of the nutrient into the amounts to remove from each meal, like
+ * `mealToUnconsume` preferring `selected`, then the portions without a meal, then the latest
+ * meals.
+ */
+export function mealsToUnconsume(
+  total: number,
+  byMeal: PortionsByMeal,
+  nutrient: string,
+  selected: Meal,
+  amount: number,
+): { meal?: Meal; amount: number }[] {
+  const countOf = (meal: Meal) => byMeal[meal]?.[nutrient] ?? 0;
+  const withoutMeal = MEALS.reduce((rest, meal) => rest - countOf(meal), total);
+  const sources: { meal?: Meal; count: number }[] = [
+    { meal: selected, count: countOf(selected) },
+    { count: withoutMeal },
+    ...MEALS.toReversed()
+      .filter((meal) => meal !== selected)
+      .map((meal) => ({ meal, count: countOf(meal) })),
+  ];
+  const parts = [];
+  let rest = amount;
+  for (const { meal, count } of sources) {
+    const part = Math.min(count, rest);
+    if (part > 0) {
+      parts.push(meal ? { meal, amount: part } : { amount: part });
+      rest -= part;
+    }
+  }
+  return parts;
+}
 
-export const PortionsOfNutrients = z.record(z.string(), z.number());
-export type PortionsOfNutrients = z.infer<typeof PortionsOfNutrients>;
+/**
+ * Returns the nutrient definitions, ordered for display.
+ */
+export function useNutrients() {
+  const api = useApi();
+  return useQuery({
+    queryKey: NUTRIENTS_QUERY_KEY,
+    queryFn: ({ signal }) => api.nutrients(signal),
+    // They only change in the settings, which refetch them.
+    staleTime: Number.POSITIVE_INFINITY,
+  });
+}
 
-type MutationInputs = {
+/**
+ * Returns the label in the given language, falling back to English and then to any label.
+ */
+export function nutrientLabel(nutrient: Nutrient, language: string) {
+  const { labels } = nutrient;
+  return (
+    labels[language] ??
+    labels[language.split("-")[0]] ??
+    labels.en ??
+    Object.values(labels)[0] ??
+    nutrient.id
+  );
+}
+
+/**
+ * Returns the CSS class setting the colors of a nutrient, see `nutrientColorsCss`.
+ */
+export function nutrientClass(id: string) {
+  return `nutrient-color-${id}`;
+}
+
+export function nutrientColorsCss(nutrients: Nutrient[]) {
+  return nutrients
+    .map(
+      (n) =>
+        `.${nutrientClass(n.id)} { --color: ${n.color}; --in-progress-color: oklch(from ${n.color} calc(l + 0.1) c h); }`,
+    )
+    .join("\n");
+}
+
+/**
+ * Returns the ISO dates from `from` to `to`, both included.
+ */
+export function isoDatesBetween(from: string, to: string) {
+  const dates = [];
+  // Going through UTC midnights avoids any surprises with daylight saving time.
+  for (
+    let d = new Date(`${from}T00:00:00Z`);
+    toIsoDate(d) <= to;
+    d.setUTCDate(d.getUTCDate() + 1)
+  ) {
+    dates.push(toIsoDate(d));
+  }
+  return dates;
+}
+
+/**
+ * Returns the message to display for a failed request: the reason if the backend rejected
+ * it, otherwise a hint to check the connection.
+ */
+export function requestErrorMessage(t: TFunction, error: unknown) {
+  return error instanceof ApiError
+    ? t("common.rejected", { reason: error.message })
+    : t("common.backendError");
+}
+
+type MutationInputs<Type> = {
   name: string;
-  command: string;
+  command: Type;
+  // One portion if not given.
+  amount?: number;
+  meal?: Meal;
 };
 
+/**
+ * How long a tap is held back before it's sent, so that the taps following it are sent
+ * along in a single request.
+ */
+export const COALESCE_WINDOW_MS = 300;
+
+/**
+ * Merges the command into the batch. Following another one of the same kind on the same
+ * nutrient, only its amount is added, otherwise it's appended.
+ */
+export function mergeCommand(batch: Command[], command: Command): Command[] {
+  const lastIndex = batch.findLastIndex(
+    (c) => c.nutrient === command.nutrient && c.date === command.date,
+  );
+  const last = batch[lastIndex];
+  if (last?.type !== command.type || last.meal !== command.meal) {
+    return [...batch, command];
+  }
+  const merged = batch.slice();
+  merged[lastIndex] = {
+    ...last,
+    amount: (last.amount ?? 1) + (command.amount ?? 1),
+  };
+  return merged;
+}
+
+/**
+ * A hook that provides the commands waiting in the outbox.
+ *
+ * The list lives in the React Query cache, so that every component showing pending
+ * changes re-renders when a command is enqueued or sent.
+ */
+export function usePendingCommands(): OutboxEntry[] {
+  const outbox = useContext(OutboxContext);
+  const query = useQuery({
+    queryKey: OUTBOX_QUERY_KEY,
+    queryFn: () => outbox.list(),
+    staleTime: Infinity,
+  });
+  return query.data ?? [];
+}
+
+/**
+ * Returns the portions of each meal including the pending commands on the day, so that
+ * the meal to remove portions from is picked by what the backend has once it gets there.
+ */
+export function withPendingMeals(
+  byMeal: PortionsByMeal,
+  pending: OutboxEntry[],
+  commandsUrl: string,
+  isoDate: string,
+): PortionsByMeal {
+  const result = { ...byMeal };
+  for (const entry of pending) {
+    if (entry.url !== commandsUrl) {
+      continue;
+    }
+    for (const {
+      type,
+      date,
+      nutrient,
+      meal,
+      amount = 1,
+    } of entry.body as Command[]) {
+      if (date !== isoDate || !meal) {
+        continue;
+      }
+      if (type === "consume" || type === "unconsume") {
+        result[meal] = addPortions(result[meal] ?? {}, {
+          [nutrient]: type === "consume" ? amount : -amount,
+        });
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * A hook that provides a function sending the queued commands to the backend.
+ *
+ * Commands rejected by the backend are reported with an error toast, as is failing to
+ * access the outbox on this device. The returned promise never rejects.
+ */
+export function useFlushOutbox() {
+  const { t } = useTranslation();
+  const outbox = useContext(OutboxContext);
+  const queryClient = useQueryClient();
+
+  return useCallback(
+    () =>
+      outbox
+        .flush(queryClient, (error) =>
+          toast.error(requestErrorMessage(t, error)),
+        )
+        // The commands stay in the outbox, for the next flush. Retries share the toast.
+        .catch(() => {
+          toast.error(t("common.outboxError"), { id: "outbox-error" });
+        }),
+    [outbox, queryClient, t],
+  );
+}
+
 /**
  * A hook that provides a mutation for updating nutrient counts with optimistic tracking.
  *
- * It tracks "in-progress" mutations locally to allow the UI to show pending changes
- * immediately. When the mutation succeeds, it updates the React Query cache.
+ * Mutations are queued in the outbox, which sends them to the backend in order. Pending
+ * mutations are shown immediately and survive losing the connection: they're retried once
+ * the backend is reachable again. When the backend confirms a mutation, it updates the
+ * React Query cache.
  *
- * @param urlPrefix - The base URL for the mutation. Requests are sent to `${urlPrefix}/{nutrient}/{command}`.
- * @param incCommand - The command name that signifies an increment. Any other command is treated as a decrement.
+ * Rapid taps are held back for `COALESCE_WINDOW_MS` and sent as a single batch of commands,
+ * which the backend applies or rejects as a whole.
+ *
+ * @param isoDate - The day of the portions, or the day a change of the goals takes effect.
+ * @param incCommand - The command that signifies an increment. Any other command is treated as a decrement.
  * @param queryKey - The React Query key to update in the cache upon success.
+ * @param invalidateKeys - Other React Query keys whose data is affected by the mutation.
  * @returns A tuple containing:
- *          - `mutationsInProgress`: An object tracking the net change of currently active mutations.
- *          - `mutation`: The React Query mutation result object.
+ *          - `mutationsInProgress`: An object tracking the net change of currently pending mutations.
+ *          - `mutation`: The React Query mutation result object. It settles once the mutation is queued.
  */
-export function useNutrientCounterMutation(
-  urlPrefix: string,
-  incCommand: string,
-  queryKey: string[],
+export function useNutrientCounterMutation<Type extends Command["type"]>(
+  isoDate: string,
+  incCommand: Type,
+  queryKey: QueryKey,
+  invalidateKeys: QueryKey[] = [],
 ): [
   PortionsOfNutrients,
-  UseMutationResult<Response, Error, MutationInputs, void>,
+  UseMutationResult<void, Error, MutationInputs<Type>, void>,
 ] {
   const { t } = useTranslation();
-  // { 'protein': 1 } would mean that pending mutations involve 1 portion of protein
-  const [mutationsInProgress, setMutationsInProgress] = useState(
-    {} as PortionsOfNutrients,
-  );
-
+  const api = useApi();
+  const outbox = useContext(OutboxContext);
   const queryClient = useQueryClient();
+  const flush = useFlushOutbox();
+
+  const pendingCommands = usePendingCommands();
+
+  // { 'protein': 1 } would mean that pending mutations involve 1 portion of protein
+  let mutationsInProgress: PortionsOfNutrients = {};
+  for (const entry of pendingCommands) {
+    if (JSON.stringify(entry.queryKey) === JSON.stringify(queryKey)) {
+      mutationsInProgress = addPortions(mutationsInProgress, entry.deltas);
+    }
+  }
 
   return [
     mutationsInProgress,
     useMutation({
-      mutationFn: ({ name, command }: MutationInputs) =>
-        fetch(`${urlPrefix}/${name}/${command}`, {
-          method: "POST",
-        }),
-      onMutate: ({ name, command }) => {
-        setMutationsInProgress((m) => {
-          return {
-            ...m,
-            [name]: (m[name] ?? 0) + (command === incCommand ? 1 : -1),
-          };
-        });
-      },
-      onSuccess: (_, { name, command }) => {
-        queryClient.setQueryData(queryKey, (data: PortionsOfNutrients) => {
-          return {
-            ...data,
-            [name]: (data[name] ?? 0) + (command === incCommand ? 1 : -1),
-          };
-        });
-        setMutationsInProgress((m) => {
-          // To remove from "in progress", add the opposite of the mutation direction.
-          return {
-            ...m,
-            [name]: (m[name] ?? 0) + (command === incCommand ? -1 : 1),
-          };
-        });
+      mutationFn: async ({
+        name,
+        command,
+        amount = 1,
+        meal,
+      }: MutationInputs<Type>) => {
+        const batch: Command[] = [
+          {
+            type: command,
+            date: isoDate,
+            nutrient: name,
+            ...(meal ? { meal } : {}),
+            ...(amount !== 1 ? { amount } : {}),
+          },
+        ];
+        await outbox.enqueueHeld(
+          queryClient,
+          {
+            url: api.commandsUrl(),
+            body: batch,
+            queryKey,
+            invalidateKeys,
+            deltas: { [name]: command === incCommand ? amount : -amount },
+          },
+          COALESCE_WINDOW_MS,
+          (queued, next) =>
+            queued.url === next.url &&
+            JSON.stringify(queued.queryKey) === JSON.stringify(next.queryKey)
+              ? {
+                  ...queued,
+                  body: (next.body as Command[]).reduce(
+                    mergeCommand,
+                    queued.body as Command[],
+                  ),
+                  deltas: addPortions(queued.deltas, next.deltas),
+                }
+              : null,
+        );
+        // Not awaited: the mutation is done once it's safely queued.
+        setTimeout(flush, COALESCE_WINDOW_MS);
       },
-      onError: (_, { name, command }) => {
+      onError: () => {
         toast.error(t("common.backendError"));
-        setMutationsInProgress((m) => {
-          // To remove from "in progress", add the opposite of the mutation direction.
-          return {
-            ...m,
-            [name]: (m[name] ?? 0) + (command === incCommand ? -1 : 1),
-          };
-        });
       },
     }),
   ];
 }
+
+/**
+ * A hook that provides a mutation retracting an event recorded for the given day.
+ *
+ * Like `useNutrientCounterMutation`, it's queued in the outbox, and counted as a pending
+ * change of the portions until the backend confirms it.
+ */
+export function useRetractEventMutation(isoDate: string) {
+  const { t } = useTranslation();
+  const api = useApi();
+  const profile = useContext(ActiveProfile);
+  const outbox = useContext(OutboxContext);
+  const queryClient = useQueryClient();
+  const flush = useFlushOutbox();
+
+  return useMutation({
+    mutationFn: async (event: DayEvent) => {
+      await outbox.enqueue(queryClient, {
+        url: api.retractUrl(isoDate, event.id),
+        queryKey: ["portions", profile, isoDate],
+        invalidateKeys: [
+          ["events", profile, isoDate],
+          ["meals", profile, isoDate],
+        ],
+        deltas: {
+          [event.nutrient]:
+            event.type === "consume" ? -event.amount : event.amount,
+        },
+      });
+      flush();
+    },
+    onError: () => {
+      toast.error(t("common.backendError"));
+    },
+  });
+}
+
+/**
+ * Returns the change of the portions made by the commands.
+ */
+export function commandDeltas(commands: Command[]) {
+  let deltas: PortionsOfNutrients = {};
+  for (const { type, nutrient, amount = 1 } of commands) {
+    deltas = addPortions(deltas, {
+      [nutrient]: type === "consume" ? amount : -amount,
+    });
+  }
+  return deltas;
+}
+
+/**
+ * A hook that provides a mutation applying consume and unconsume commands on the portions
+ * of a day as a single batch, e.g. to record a saved meal, or to copy another day and to
+ * undo that. The day is given along with the commands, as undoing may come after moving
+ * to another day.
+ *
+ * The backend applies all of them or none. Unlike taps, they're sent right away.
+ */
+export function usePortionCommandsMutation() {
+  const { t } = useTranslation();
+  const api = useApi();
+  const profile = useContext(ActiveProfile);
+  const outbox = useContext(OutboxContext);
+  const queryClient = useQueryClient();
+  const flush = useFlushOutbox();
+
+  return useMutation({
+    mutationFn: async ({
+      isoDate,
+      commands,
+    }: {
+      isoDate: string;
+      commands: Command[];
+    }) => {
+      await outbox.enqueue(queryClient, {
+        url: api.commandsUrl(),
+        body: commands,
+        queryKey: ["portions", profile, isoDate],
+        invalidateKeys: [
+          ["events", profile, isoDate],
+          ["meals", profile, isoDate],
+        ],
+        deltas: commandDeltas(commands),
+      });
+      flush();
+    },
+    onError: () => {
+      toast.error(t("common.backendError"));
+    },
+  });
+}
+
+/**
+ * A hook that fetches the saved meals of the profile, in their order.
+ */
+export function useSavedMeals() {
+  const api = useApi();
+  const profile = useContext(ActiveProfile);
+  return useQuery({
+    queryKey: ["savedMeals", profile],
+    queryFn: ({ signal }) => api.savedMeals(signal),
+  });
+}
+
+/**
+ * A hook that fetches the portions of all days from `from` to `to` in a single request.
+ *
+ * The fetched days are also stored as if fetched one by one, so that displaying any of them
+ * later doesn't have to wait for the backend.
+ *
+ * @returns The query, whose data has an entry for every day in the range.
+ */
+export function usePortionsRange(from: string, to: string) {
+  const api = useApi();
+  const profile = useContext(ActiveProfile);
+  const queryClient = useQueryClient();
+
+  return useQuery({
+    queryKey: ["portionsRange", profile, from, to],
+    queryFn: async ({ signal }) => {
+      const portionsByDate = await api.portionsRange(from, to, signal);
+      const days: PortionsByDate = {};
+      for (const isoDate of isoDatesBetween(from, to)) {
+        days[isoDate] = portionsByDate[isoDate] ?? {};
+        queryClient.setQueryData(["portions", profile, isoDate], days[isoDate]);
+      }
+      return days;
+    },
+  });
+}
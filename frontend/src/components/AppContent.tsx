@@ -12,11 +12,33 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
-import { useState } from "react";
+import { useContext, useEffect, useState } from "react";
 import { Toaster } from "react-hot-toast";
 import { useTranslation } from "react-i18next";
+import { useFlushOutbox, usePendingCommands } from "@/common";
+import { Logout } from "@/LogoutContext";
+import { ActiveProfile } from "@/ProfileContext";
+import { useRoute } from "@/routes";
+import {
+  type Settings as SettingsType,
+  storedSettings,
+  storeSettings,
+  UserSettings,
+} from "@/settings";
+import { useShortcuts } from "@/shortcuts";
 import Goals from "./Goals";
+import History from "./History";
+import LiveUpdates from "./LiveUpdates";
+import NutrientColors from "./NutrientColors";
+import Nutrients from "./Nutrients";
 import Portions from "./Portions";
+import ProfileSelect from "./ProfileSelect";
+import Reminders from "./Reminders";
+import SavedMeals from "./SavedMeals";
+import Settings from "./Settings";
+import ShortcutHelp from "./ShortcutHelp";
+import Transfer from "./Transfer";
+import Trends from "./Trends";
 
 // Separate from App for testing, so that I could substitute query client
 // with one that does not do retries.
@@ -27,38 +49,178 @@ const languages = [
   { code: "uk", flag: "🇺🇦", label: "Українська" },
 ];
 
+// Not every lost connection is reported by the browser (e.g. a VPN going down),
+// so the outbox is also retried periodically.
+const OUTBOX_RETRY_INTERVAL_MS = 30_000;
+
+// The active profile is remembered per device, like the language.
+const PROFILE_STORAGE_KEY = "profile";
+
+function storedProfile() {
+  return Number(localStorage.getItem(PROFILE_STORAGE_KEY)) || 1;
+}
+
 function AppContent() {
   const { t, i18n } = useTranslation();
-  const [settingGoals, setSettingGoals] = useState(false);
+  const [{ view }, navigate] = useRoute();
+  const [profile, setProfile] = useState(storedProfile);
+  const [settings, setSettings] = useState(storedSettings);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const pendingCommands = usePendingCommands();
+  const flushOutbox = useFlushOutbox();
+  const logout = useContext(Logout);
+
+  // Replays the commands left over from the previous session, and those that failed to reach the backend.
+  useEffect(() => {
+    flushOutbox();
+    window.addEventListener("online", flushOutbox);
+    const interval = setInterval(flushOutbox, OUTBOX_RETRY_INTERVAL_MS);
+    return () => {
+      window.removeEventListener("online", flushOutbox);
+      clearInterval(interval);
+    };
+  }, [flushOutbox]);
+
+  // The shortcuts for recording portions are handled by Portions itself.
+  useShortcuts((event) => {
+    if (event.key.toLowerCase() === "g") {
+      navigate({ view: view === "goals" ? "portions" : "goals" });
+    } else if (event.key === "?") {
+      setShowShortcuts((show) => !show);
+    } else if (event.key === "Escape" && showShortcuts) {
+      setShowShortcuts(false);
+    } else {
+      return;
+    }
+    event.preventDefault();
+  });
+
+  const changeProfile = (profile: number) => {
+    localStorage.setItem(PROFILE_STORAGE_KEY, String(profile));
+    setProfile(profile);
+  };
+
+  const changeSettings = (settings: SettingsType) => {
+    storeSettings(settings);
+    setSettings(settings);
+  };
 
   return (
-    <div className="app-container">
-      <Toaster />
-      <div className="header-row">
-        <button
-          type="button"
-          className="mode-toggle"
-          onClick={() => setSettingGoals(!settingGoals)}
-        >
-          {settingGoals
-            ? t("AppContent.backToRecording")
-            : t("AppContent.editGoals")}
-        </button>
-        <select
-          className="language-select"
-          value={i18n.resolvedLanguage}
-          onChange={(e) => i18n.changeLanguage(e.target.value)}
-          aria-label="Language"
-        >
-          {languages.map((lang) => (
-            <option key={lang.code} value={lang.code}>
-              {lang.flag} {lang.label}
-            </option>
-          ))}
-        </select>
-      </div>
-      {settingGoals ? <Goals /> : <Portions />}
-    </div>
+    <ActiveProfile.Provider value={profile}>
+      <UserSettings.Provider value={settings}>
+        <div className="app-container">
+          <Toaster />
+          <NutrientColors />
+          <LiveUpdates />
+          <Reminders />
+          <div className="header-row">
+            {pendingCommands.length > 0 && (
+              <output className="pending-indicator">
+                {t("AppContent.pending", { count: pendingCommands.length })}
+              </output>
+            )}
+            {view === "portions" ? (
+              <>
+                <button
+                  type="button"
+                  className="mode-toggle"
+                  onClick={() => navigate({ view: "history" })}
+                >
+                  {t("AppContent.history")}
+                </button>
+                <button
+                  type="button"
+                  className="mode-toggle"
+                  onClick={() => navigate({ view: "trends" })}
+                >
+                  {t("AppContent.trends")}
+                </button>
+                <button
+                  type="button"
+                  className="mode-toggle"
+                  onClick={() => navigate({ view: "goals" })}
+                >
+                  {t("AppContent.editGoals")}
+                </button>
+              </>
+            ) : (
+              <>
+                {view === "goals" && (
+                  <>
+                    <button
+                      type="button"
+                      className="mode-toggle"
+                      onClick={() => navigate({ view: "nutrients" })}
+                    >
+                      {t("AppContent.nutrients")}
+                    </button>
+                    <button
+                      type="button"
+                      className="mode-toggle"
+                      onClick={() => navigate({ view: "saved-meals" })}
+                    >
+                      {t("AppContent.savedMeals")}
+                    </button>
+                    <button
+                      type="button"
+                      className="mode-toggle"
+                      onClick={() => navigate({ view: "transfer" })}
+                    >
+                      {t("AppContent.transfer")}
+                    </button>
+                    <button
+                      type="button"
+                      className="mode-toggle"
+                      onClick={() => navigate({ view: "settings" })}
+                    >
+                      {t("AppContent.settings")}
+                    </button>
+                  </>
+                )}
+                <button
+                  type="button"
+                  className="mode-toggle"
+                  onClick={() => navigate({ view: "portions" })}
+                >
+                  {t("AppContent.backToRecording")}
+                </button>
+              </>
+            )}
+            <ProfileSelect profile={profile} onChange={changeProfile} />
+            <select
+              className="language-select"
+              value={i18n.resolvedLanguage}
+              onChange={(e) => i18n.changeLanguage(e.target.value)}
+              aria-label="Language"
+            >
+              {languages.map((lang) => (
+                <option key={lang.code} value={lang.code}>
+                  {lang.flag} {lang.label}
+                </option>
+              ))}
+            </select>
+            {logout && (
+              <button type="button" className="mode-toggle" onClick={logout}>
+                {t("AppContent.logout")}
+              </button>
+            )}
+          </div>
+          {showShortcuts && (
+            <ShortcutHelp onClose={() => setShowShortcuts(false)} />
+          )}
+          {view === "portions" && <Portions />}
+          {view === "goals" && <Goals />}
+          {view === "history" && <History />}
+          {view === "trends" && <Trends />}
+          {view === "nutrients" && <Nutrients />}
+          {view === "saved-meals" && <SavedMeals />}
+          {view === "transfer" && <Transfer />}
+          {view === "settings" && (
+            <Settings settings={settings} onChange={changeSettings} />
+          )}
+        </div>
+      </UserSettings.Provider>
+    </ActiveProfile.Provider>
   );
 }
 
@@ -0,0 +1,109 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {
+  type QueryClient,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+import { type ReactNode, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useApi } from "@/api";
+import {
+  AUTH_QUERY_KEY,
+  sessionToken,
+  setSessionToken,
+  UNAUTHORIZED_EVENT,
+} from "@/auth";
+import { Logout } from "@/LogoutContext";
+import { clearSessionCaches } from "@/serviceWorker";
+import Login from "./Login";
+
+/**
+ * Removes the data of the session from this device, so that whoever uses it next can't
+ * see it, not even offline.
+ */
+function forgetSessionData(queryClient: QueryClient) {
+  // Whether a login is required stays known, for the login screen to be shown offline too.
+  queryClient.removeQueries({
+    predicate: (query) => query.queryKey[0] !== AUTH_QUERY_KEY[0],
+  });
+  queryClient.getMutationCache().clear();
+  clearSessionCaches();
+}
+
+/**
+ * Displays the login screen instead of `children` when the backend requires a session and
+ * there is none, including when the backend stops accepting the current one.
+ */
+export default function AuthGate({ children }: { children: ReactNode }) {
+  const { t } = useTranslation();
+  const api = useApi();
+  const queryClient = useQueryClient();
+  const [token, setToken] = useState(sessionToken);
+
+  useEffect(() => {
+    const onUnauthorized = () => {
+      forgetSessionData(queryClient);
+      setToken(null);
+    };
+    window.addEventListener(UNAUTHORIZED_EVENT, onUnauthorized);
+    return () => window.removeEventListener(UNAUTHORIZED_EVENT, onUnauthorized);
+  }, [queryClient]);
+
+  const query = useQuery({
+    queryKey: AUTH_QUERY_KEY,
+    queryFn: ({ signal }) => api.authStatus(signal),
+    staleTime: Number.POSITIVE_INFINITY,
+    // Offline, it fails right away instead of holding up the app.
+    retry: false,
+  });
+
+  if (query.isPending) {
+    return <div className="loading">{t("common.loading")}</div>;
+  }
+
+  // Without the backend, the app still displays what's cached and queues the changes.
+  if (query.isError || !query.data.required) {
+    return children;
+  }
+
+  if (token === null) {
+    return (
+      <Login
+        onLogin={(token) => {
+          setSessionToken(token);
+          setToken(token);
+        }}
+      />
+    );
+  }
+
+  return (
+    // The session is ended on this device even if the backend can't be reached.
+    <Logout.Provider
+      value={() =>
+        api
+          .logout()
+          .catch(() => {})
+          .finally(() => {
+            forgetSessionData(queryClient);
+            setToken(null);
+          })
+      }
+    >
+      {children}
+    </Logout.Provider>
+  );
+}
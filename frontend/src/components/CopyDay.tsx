@@ -0,0 +1,111 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { useQuery } from "@tanstack/react-query";
+import { type ReactNode, useContext, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { type PortionsOfNutrients, useApi } from "@/api";
+import {
+  dayBefore,
+  fromIsoDate,
+  nutrientLabel,
+  toIsoDate,
+  useNutrients,
+} from "@/common";
+import { ActiveProfile } from "@/ProfileContext";
+
+type CopyDayProps = {
+  // The day to copy the portions to.
+  isoDate: string;
+  onCopy: (source: string, portions: PortionsOfNutrients) => void;
+  onClose: () => void;
+};
+
+/**
+ * Dialog picking a day to copy the portions from, previewing them before they're copied.
+ */
+export default function CopyDay({ isoDate, onCopy, onClose }: CopyDayProps) {
+  const { t, i18n } = useTranslation();
+  const api = useApi();
+  const profile = useContext(ActiveProfile);
+  const [source, setSource] = useState(() =>
+    toIsoDate(dayBefore(fromIsoDate(isoDate))),
+  );
+  const nutrientsQuery = useNutrients();
+
+  const portionsQuery = useQuery({
+    queryKey: ["portions", profile, source],
+    queryFn: ({ signal }) => api.portions(source, signal),
+  });
+
+  const portions = Object.fromEntries(
+    Object.entries(portionsQuery.data ?? {}).filter(([, count]) => count > 0),
+  );
+  const label = (id: string) => {
+    const nutrient = nutrientsQuery.data?.find((n) => n.id === id);
+    return nutrient ? nutrientLabel(nutrient, i18n.language) : id;
+  };
+
+  let preview: ReactNode;
+  if (portionsQuery.isPending) {
+    preview = <div className="loading">{t("common.loading")}</div>;
+  } else if (portionsQuery.isError) {
+    preview = <div className="error">{t("common.error")}</div>;
+  } else if (Object.keys(portions).length === 0) {
+    preview = <p>{t("CopyDay.empty")}</p>;
+  } else {
+    preview = (
+      <dl className="copy-day-preview">
+        {Object.entries(portions).map(([id, count]) => (
+          <div key={id} className="copy-day-row">
+            <dt>{label(id)}</dt>
+            <dd>{count}</dd>
+          </div>
+        ))}
+      </dl>
+    );
+  }
+
+  return (
+    <dialog open className="copy-day" aria-label={t("CopyDay.title")}>
+      <h2>{t("CopyDay.title")}</h2>
+      <label className="copy-day-source">
+        {t("CopyDay.source")}
+        <input
+          type="date"
+          value={source}
+          onChange={(e) => {
+            if (!Number.isNaN(fromIsoDate(e.target.value).getTime())) {
+              setSource(e.target.value);
+            }
+          }}
+        />
+      </label>
+      {preview}
+      <div className="copy-day-actions">
+        <button type="button" className="mode-toggle" onClick={onClose}>
+          {t("CopyDay.cancel")}
+        </button>
+        <button
+          type="button"
+          className="mode-toggle"
+          onClick={() => onCopy(source, portions)}
+          disabled={source === isoDate || Object.keys(portions).length === 0}
+        >
+          {t("CopyDay.copy")}
+        </button>
+      </div>
+    </dialog>
+  );
+}
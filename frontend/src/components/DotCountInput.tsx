@@ -12,82 +12,328 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
+import { useEffect, useRef, useState } from "react";
 import { useTranslation } from "react-i18next";
+import { nutrientClass } from "@/common";
+
+// How long + or − is held before it starts repeating, and how often it repeats then.
+const HOLD_MS = 500;
+const REPEAT_MS = 150;
 
 type NutrientProps = {
   name: string;
+  label: string;
   count: number;
   inProgress?: number;
   goal?: number;
+  // The amount the buttons change the count by, decreasing below 0 is not possible.
+  step?: number;
+  // Parts of the count to list under the dots, e.g. by meal.
+  breakdown?: { label: string; count: number }[];
+  // The key to press for increasing the count, shown next to the label.
+  shortcut?: string;
   onIncrease: () => void;
   onDecrease: () => void;
+  // Called with the count entered directly, rounded to half a portion. Without it, the
+  // count can only be changed by the buttons.
+  onSet?: (count: number) => void;
 };
 
+type DotState = "filled" | "in-progress" | "empty";
+
+/**
+ * Returns the handlers of a button doing `action` on a click, and repeatedly while it's held.
+ *
+ * The latest `action` and `enabled` are used on each repeat, so that they see the count
+ * changed by the previous ones. Repeating stops once it's disabled, as a disabled button
+ * gets no event on its release.
+ */
+function useRepeatOnHold(action: () => void, enabled = true) {
+  const latest = useRef({ action, enabled });
+  latest.current = { action, enabled };
+  const timer = useRef<ReturnType<typeof setTimeout>>(undefined);
+  // The click ending a hold must not do the action once more.
+  const repeated = useRef(false);
+  const pressed = useRef(false);
+
+  const stop = () => clearTimeout(timer.current);
+  // Released elsewhere, no click ends the hold. A touch leaves only once released, before
+  // the click ending the hold, which is still ignored then.
+  const abort = () => {
+    stop();
+    if (pressed.current) {
+      pressed.current = false;
+      repeated.current = false;
+    }
+  };
+  useEffect(() => () => clearTimeout(timer.current), []);
+
+  return {
+    onPointerDown: () => {
+      stop();
+      pressed.current = true;
+      repeated.current = false;
+      const repeat = () => {
+        if (!latest.current.enabled) {
+          return;
+        }
+        repeated.current = true;
+        latest.current.action();
+        timer.current = setTimeout(repeat, REPEAT_MS);
+      };
+      timer.current = setTimeout(repeat, HOLD_MS);
+    },
+    onPointerUp: () => {
+      stop();
+      pressed.current = false;
+    },
+    onPointerLeave: abort,
+    onPointerCancel: abort,
+    onClick: () => {
+      if (repeated.current) {
+        repeated.current = false;
+        return;
+      }
+      latest.current.action();
+    },
+  };
+}
+
 /**
  * Component that displays a count as a series of dots.
  *
  * The `inProgress` prop allows for optimistic UI updates:
  * - A positive value adds "in-progress" dots (representing a pending increase).
  * - A negative value visually converts filled dots to "in-progress" dots (representing a pending decrease).
+ *
+ * Counts are in steps of half a dot. A dot whose halves differ gets the state of the left
+ * half as its class, and the state of the right one as a `half-` class, e.g. "filled half-empty".
+ *
+ * With `onSet`, tapping the dots opens an input for entering the count directly.
+ *
+ * For assistive technologies, the dots are a spinbutton changed by the arrow keys, and the
+ * count is announced once the changes in progress are done.
  */
 export function DotCountInput({
   count,
   inProgress,
   name,
+  label,
   onIncrease,
   onDecrease,
   goal,
+  step,
+  breakdown,
+  shortcut,
+  onSet,
 }: NutrientProps) {
   const { t } = useTranslation();
-
+  const [editing, setEditing] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const dotsRef = useRef<HTMLDivElement>(null);
+  // Set when the input is closed, for the focus to return to the dots it was opened from.
+  const refocus = useRef(false);
+  const [announcement, setAnnouncement] = useState("");
+  const wasInProgress = useRef(false);
+  const colorClass = nutrientClass(name);
   const numInProgress = inProgress ?? 0;
-  const filledDots = numInProgress < 0 ? count + numInProgress : count;
-  const inProgressDots = Math.abs(numInProgress);
+  const halves = (n: number) => Math.round(n * 2);
+  const filledHalves = halves(
+    numInProgress < 0 ? count + numInProgress : count,
+  );
+  const inProgressHalves = halves(Math.abs(numInProgress));
+  const totalHalves = Math.max(
+    filledHalves + inProgressHalves,
+    halves(goal ?? 0),
+  );
+
+  const total = count + numInProgress;
+  const canDecrease = total >= (step ?? 1);
+  const increaseHandlers = useRepeatOnHold(onIncrease);
+  const decreaseHandlers = useRepeatOnHold(onDecrease, canDecrease);
+
+  const over = goal && total > goal ? total - goal : 0;
+  const valueText = goal
+    ? t(over ? "DotCountInput.valueOverGoal" : "DotCountInput.valueOfGoal", {
+        count: total,
+        goal,
+        label,
+        over,
+      })
+    : t("DotCountInput.value", { count: total, label });
+
+  useEffect(() => {
+    if (editing) {
+      inputRef.current?.focus();
+      inputRef.current?.select();
+    } else if (refocus.current) {
+      refocus.current = false;
+      dotsRef.current?.focus();
+    }
+  }, [editing]);
+
+  // Announcing every change in progress would be too chatty when tapping rapidly.
+  useEffect(() => {
+    if (numInProgress !== 0) {
+      wasInProgress.current = true;
+    } else if (wasInProgress.current) {
+      wasInProgress.current = false;
+      setAnnouncement(valueText);
+    }
+  }, [numInProgress, valueText]);
+
+  const closeInput = () => {
+    refocus.current = true;
+    setEditing(false);
+  };
+
+  const submit = (value: string) => {
+    closeInput();
+    const entered = Number(value);
+    if (value === "" || !Number.isFinite(entered) || entered < 0) {
+      return;
+    }
+    const rounded = Math.round(entered * 2) / 2;
+    if (rounded !== total) {
+      onSet?.(rounded);
+    }
+  };
+
+  const stateOf = (half: number): DotState => {
+    if (half < filledHalves) {
+      return "filled";
+    }
+    return half < filledHalves + inProgressHalves ? "in-progress" : "empty";
+  };
+
+  // Compared in halves, as with a goal like 2.5 a dot can be partly over it.
+  const isExcess = (half: number) =>
+    !!goal && half >= halves(goal) && stateOf(half) !== "empty";
+
+  const dots = new Array(Math.ceil(totalHalves / 2)).fill(0).map((_, i) => {
+    const left = stateOf(2 * i);
+    const right = stateOf(2 * i + 1);
+    return [
+      "dot",
+      left === "empty" ? "" : left,
+      right === left ? "" : `half-${right}`,
+      colorClass,
+      isExcess(2 * i) || isExcess(2 * i + 1) ? "excess" : "",
+    ]
+      .filter((c) => c !== "")
+      .join(" ");
+  });
+
+  const dotSpans = dots.map((className, i) => (
+    // biome-ignore lint/suspicious/noArrayIndexKey: nothing wrong with index here, and there's no more "natural" id
+    <span className={className} key={i} aria-hidden="true"></span>
+  ));
+
   return (
     <div className="nutrient-row">
-      <div className="nutrient-label">{t(`DotCountInput.${name}`)}</div>
-      <div className="controls">
-        <div className="dots-container">
-          {new Array(filledDots).fill(filledDots).map((_, i) => (
-            <span
-              className={`dot filled ${name} ${goal && i >= goal ? "excess" : ""}`}
-              // biome-ignore lint/suspicious/noArrayIndexKey: nothing wrong with index here, and there's no more "natural" id
-              key={i}
-            ></span>
+      {/* The shortcut is displayed by CSS, so that it's not part of the label. */}
+      <div className="nutrient-label" data-shortcut={shortcut}>
+        {label}
+      </div>
+      {editing ? (
+        <form
+          className="controls count-form"
+          // Any count is rounded to half a portion, regardless of the step of the buttons.
+          noValidate
+          onSubmit={(e) => {
+            e.preventDefault();
+            submit(inputRef.current?.value ?? "");
+          }}
+        >
+          <input
+            ref={inputRef}
+            type="number"
+            className="count-input"
+            min={0}
+            step={step ?? 1}
+            defaultValue={total}
+            aria-label={t("DotCountInput.count", { label })}
+            onKeyDown={(e) => {
+              if (e.key === "Escape") {
+                closeInput();
+              }
+            }}
+          />
+          <button
+            type="submit"
+            className="action-btn"
+            aria-label={t("DotCountInput.set")}
+          >
+            ✓
+          </button>
+          <button
+            type="button"
+            className="action-btn"
+            aria-label={t("DotCountInput.cancel")}
+            onClick={closeInput}
+          >
+            ✕
+          </button>
+        </form>
+      ) : (
+        <div className="controls">
+          <div
+            ref={dotsRef}
+            role="spinbutton"
+            tabIndex={0}
+            className={`dots-container ${onSet ? "editable" : ""}`}
+            aria-label={label}
+            aria-valuenow={total}
+            aria-valuemin={0}
+            aria-valuetext={valueText}
+            aria-keyshortcuts={onSet ? "Enter" : undefined}
+            onClick={() => onSet && setEditing(true)}
+            onKeyDown={(e) => {
+              if (e.key === "ArrowUp") {
+                onIncrease();
+              } else if (e.key === "ArrowDown") {
+                if (canDecrease) {
+                  onDecrease();
+                }
+              } else if (e.key === "Enter" && onSet) {
+                setEditing(true);
+              } else {
+                return;
+              }
+              e.preventDefault();
+            }}
+          >
+            {dotSpans}
+          </div>
+          <button
+            type="button"
+            className="action-btn"
+            aria-label={t("DotCountInput.decrease", { label })}
+            disabled={!canDecrease}
+            {...decreaseHandlers}
+          >
+            −
+          </button>
+          <button
+            type="button"
+            className="action-btn"
+            aria-label={t("DotCountInput.increase", { label })}
+            {...increaseHandlers}
+          >
+            +
+          </button>
+        </div>
+      )}
+      <output className="visually-hidden">{announcement}</output>
+      {breakdown && breakdown.length > 0 && (
+        <div className="breakdown">
+          {breakdown.map((part) => (
+            <span key={part.label} className="breakdown-part">
+              {part.label} {part.count}
+            </span>
           ))}
-          {numInProgress
-            ? new Array(inProgressDots)
-                .fill(inProgressDots)
-                .map((_, i) => (
-                  <span
-                    className={`dot in-progress ${name} ${goal && filledDots + i >= goal ? "excess" : ""}`}
-                    key={i + filledDots}
-                  ></span>
-                ))
-            : []}
-          {goal && filledDots + inProgressDots < goal
-            ? new Array(goal - filledDots - inProgressDots)
-                .fill(goal - filledDots - inProgressDots)
-                .map((_, i) => (
-                  <span
-                    className={`dot ${name}`}
-                    key={i + filledDots + inProgressDots}
-                  ></span>
-                ))
-            : []}
         </div>
-        <button
-          type="button"
-          className="action-btn"
-          onClick={onDecrease}
-          disabled={count + numInProgress === 0}
-        >
-          −
-        </button>
-        <button type="button" className="action-btn" onClick={onIncrease}>
-          +
-        </button>
-      </div>
+      )}
     </div>
   );
 }
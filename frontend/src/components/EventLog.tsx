@@ -0,0 +1,123 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { useQuery } from "@tanstack/react-query";
+import { useContext, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useApi } from "@/api";
+import {
+  nutrientClass,
+  nutrientLabel,
+  useNutrients,
+  usePendingCommands,
+  useRetractEventMutation,
+} from "@/common";
+import { ActiveProfile } from "@/ProfileContext";
+import { UserSettings } from "@/settings";
+
+/**
+ * An expandable list of the portions recorded for a day, each of which can be retracted.
+ */
+export default function EventLog({ isoDate }: { isoDate: string }) {
+  const { t, i18n } = useTranslation();
+  const api = useApi();
+  const profile = useContext(ActiveProfile);
+  const [expanded, setExpanded] = useState(false);
+
+  const query = useQuery({
+    queryKey: ["events", profile, isoDate],
+    queryFn: ({ signal }) => api.dayEvents(isoDate, signal),
+    enabled: expanded,
+  });
+  const nutrientsQuery = useNutrients();
+  const pendingCommands = usePendingCommands();
+  const mutation = useRetractEventMutation(isoDate);
+
+  const { timeZone } = useContext(UserSettings);
+  const timeFormat = new Intl.DateTimeFormat(i18n.language, {
+    timeStyle: "short",
+    timeZone: timeZone ?? undefined,
+  });
+  const amountFormat = new Intl.NumberFormat(i18n.language);
+
+  const label = (id: string) => {
+    const nutrient = nutrientsQuery.data?.find((n) => n.id === id);
+    return nutrient ? nutrientLabel(nutrient, i18n.language) : id;
+  };
+
+  const content = () => {
+    if (query.isPending) {
+      return <div className="loading">{t("common.loading")}</div>;
+    }
+    if (query.isError) {
+      return <div className="error">{t("common.error")}</div>;
+    }
+    if (query.data.length === 0) {
+      return <div className="event-log-empty">{t("EventLog.empty")}</div>;
+    }
+    return (
+      <ul className="event-log-list">
+        {query.data.map((event) => {
+          const retractUrl = api.retractUrl(isoDate, event.id);
+          const retracting = pendingCommands.some((c) => c.url === retractUrl);
+          return (
+            <li
+              key={event.id}
+              className={`event ${event.retracted || retracting ? "retracted" : ""}`}
+            >
+              <span className="event-time">
+                {timeFormat.format(new Date(event.timestamp))}
+              </span>
+              <span className={`event-dot ${nutrientClass(event.nutrient)}`} />
+              <span className="event-nutrient">{label(event.nutrient)}</span>
+              {event.meal && (
+                <span className="event-meal">{t(`Meals.${event.meal}`)}</span>
+              )}
+              <span className="event-change">
+                {event.type === "consume" ? "+" : "−"}
+                {amountFormat.format(event.amount)}
+              </span>
+              {!event.retracted && (
+                <button
+                  type="button"
+                  className="event-retract"
+                  onClick={() => mutation.mutate(event)}
+                  disabled={retracting}
+                  aria-label={t("EventLog.retract")}
+                  title={t("EventLog.retract")}
+                >
+                  ↶
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    );
+  };
+
+  return (
+    <div className="event-log">
+      <button
+        type="button"
+        className="event-log-toggle"
+        onClick={() => setExpanded((e) => !e)}
+        aria-expanded={expanded}
+      >
+        {expanded ? "▾" : "▸"} {t("EventLog.title")}
+      </button>
+      {expanded && content()}
+    </div>
+  );
+}
@@ -13,35 +13,68 @@
 // limitations under the License.
 
 import { useQuery } from "@tanstack/react-query";
-import { useContext } from "react";
+import { useContext, useState } from "react";
 import { useTranslation } from "react-i18next";
-import { BackendBaseUrl } from "@/BackendUrlContext";
-import { NUTRIENTS, useNutrientCounterMutation } from "@/common";
+import { useApi } from "@/api";
+import {
+  fromIsoDate,
+  nutrientClass,
+  nutrientLabel,
+  useNutrientCounterMutation,
+  useNutrients,
+  useToday,
+} from "@/common";
+import { ActiveProfile } from "@/ProfileContext";
 import { DotCountInput } from "./DotCountInput";
+import HalfPortions from "./HalfPortions";
 
 export default function Goals() {
-  const { t } = useTranslation();
-  const baseUrl = useContext(BackendBaseUrl);
+  const { t, i18n } = useTranslation();
+  const api = useApi();
+  const profile = useContext(ActiveProfile);
+  const today = useToday();
+  const [isoDate, setIsoDate] = useState(today);
+  const [step, setStep] = useState(1);
 
   const query = useQuery({
-    queryKey: ["goals"],
-    queryFn: () => fetch(`${baseUrl}/goals`).then((res) => res.json()),
+    queryKey: ["goals", profile, isoDate],
+    queryFn: ({ signal }) => api.goals(isoDate, signal),
   });
 
-  const [mutationsInProgress, mutation] = useNutrientCounterMutation(
-    `${baseUrl}/goals/portions`,
+  const nutrientsQuery = useNutrients();
+
+  const historyQuery = useQuery({
+    queryKey: ["goalHistory", profile],
+    queryFn: ({ signal }) => api.goalHistory(signal),
+  });
+
+  // A change applies to all the following days too, until the next scheduled change.
+  const [mutationsInProgress, mutation] = useNutrientCounterMutation<
+    "inc" | "dec"
+  >(
+    isoDate,
     "inc",
-    ["goals"],
+    ["goals", profile, isoDate],
+    [
+      ["goals", profile],
+      ["goalHistory", profile],
+    ],
   );
 
-  if (query.isPending) {
+  if (query.isPending || nutrientsQuery.isPending) {
     return <div className="loading">{t("common.loading")}</div>;
   }
 
-  if (query.isError) {
+  if (query.isError || nutrientsQuery.isError) {
     return <div className="error">{t("common.error")}</div>;
   }
 
+  const nutrients = nutrientsQuery.data.filter((n) => n.active);
+  const dateFormat = new Intl.DateTimeFormat(i18n.language, {
+    dateStyle: "medium",
+    timeZone: "UTC",
+  });
+
   // The gidden buttons are in place to ensure consistency of height with the Portions view.
   if (query.data) {
     return (
@@ -63,18 +96,76 @@ export default function Goals() {
             {">"}
           </button>
         </div>
+        <label className="goals-effective-from">
+          {t("Goals.effectiveFrom")}
+          <input
+            type="date"
+            value={isoDate}
+            onChange={(e) => {
+              if (e.target.value) {
+                setIsoDate(e.target.value);
+              }
+            }}
+          />
+        </label>
+        <HalfPortions step={step} onChange={setStep} />
         <div className="nutrients-list">
-          {NUTRIENTS.map((n) => (
+          {nutrients.map((n) => (
             <DotCountInput
-              name={n}
-              key={n}
-              count={query.data[n] ?? 0}
-              inProgress={mutationsInProgress[n] ?? 0}
-              onIncrease={() => mutation.mutate({ name: n, command: "inc" })}
-              onDecrease={() => mutation.mutate({ name: n, command: "dec" })}
+              name={n.id}
+              key={n.id}
+              label={nutrientLabel(n, i18n.language)}
+              count={query.data[n.id] ?? 0}
+              inProgress={mutationsInProgress[n.id] ?? 0}
+              step={step}
+              onIncrease={() =>
+                mutation.mutate({ name: n.id, command: "inc", amount: step })
+              }
+              onDecrease={() =>
+                mutation.mutate({ name: n.id, command: "dec", amount: step })
+              }
+              onSet={(target) => {
+                const delta =
+                  target -
+                  ((query.data[n.id] ?? 0) + (mutationsInProgress[n.id] ?? 0));
+                mutation.mutate({
+                  name: n.id,
+                  command: delta > 0 ? "inc" : "dec",
+                  amount: Math.abs(delta),
+                });
+              }}
             />
           ))}
         </div>
+        {historyQuery.data && historyQuery.data.length > 0 && (
+          <div className="goal-history">
+            <div className="goal-history-title">{t("Goals.history")}</div>
+            {historyQuery.data.map((change) => (
+              <button
+                type="button"
+                key={change.from}
+                className={`goal-history-entry ${change.from === isoDate ? "selected" : ""}`}
+                onClick={() => setIsoDate(change.from)}
+              >
+                <span className="goal-history-date">
+                  {dateFormat.format(fromIsoDate(change.from))}
+                </span>
+                {nutrients.map((n) => (
+                  <span
+                    key={n.id}
+                    className="goal-history-goal"
+                    title={nutrientLabel(n, i18n.language)}
+                  >
+                    <span
+                      className={`goal-history-dot ${nutrientClass(n.id)}`}
+                    />
+                    {change.goals[n.id] ?? 0}
+                  </span>
+                ))}
+              </button>
+            ))}
+          </div>
+        )}
       </>
     );
   }
@@ -0,0 +1,41 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { useTranslation } from "react-i18next";
+
+/**
+ * A toggle between counting whole and half portions, returning the step to count by.
+ */
+export default function HalfPortions({
+  step,
+  onChange,
+}: {
+  step: number;
+  onChange: (step: number) => void;
+}) {
+  const { t } = useTranslation();
+  const half = step < 1;
+  return (
+    <div className="half-portions">
+      <button
+        type="button"
+        className={`half-portions-toggle ${half ? "selected" : ""}`}
+        onClick={() => onChange(half ? 1 : 0.5)}
+        aria-pressed={half}
+      >
+        {t("HalfPortions.label")}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { useQuery } from "@tanstack/react-query";
+import { useContext, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useApi } from "@/api";
+import {
+  dayAfter,
+  dayBefore,
+  fromIsoDate,
+  nutrientClass,
+  nutrientLabel,
+  toIsoDate,
+  useNutrients,
+  usePortionsRange,
+  useToday,
+} from "@/common";
+import { goalProgress, goalStatus, goalsOn, summarize } from "@/history";
+import { ActiveProfile } from "@/ProfileContext";
+
+const RANGES = {
+  week: 7,
+  month: 28,
+  quarter: 91,
+};
+
+type Range = keyof typeof RANGES;
+
+/**
+ * Returns the days to display in the calendar: whole weeks from Monday to Sunday,
+ * covering the last `length` days up to today.
+ */
+function calendarDays(today: Date, length: number) {
+  let first = today;
+  for (let i = 1; i < length; i++) {
+    first = dayBefore(first);
+  }
+  // getUTCDay() is 0 for Sunday, while weeks start on Monday.
+  let start = first;
+  while (start.getUTCDay() !== 1) {
+    start = dayBefore(start);
+  }
+  let end = today;
+  while (end.getUTCDay() !== 0) {
+    end = dayAfter(end);
+  }
+
+  const days = [];
+  for (let d = start; d <= end; d = dayAfter(d)) {
+    days.push({ date: d, inRange: d >= first && d <= today });
+  }
+  return days;
+}
+
+export default function History() {
+  const { t, i18n } = useTranslation();
+  const api = useApi();
+  const profile = useContext(ActiveProfile);
+  const [range, setRange] = useState<Range>("week");
+  const today = fromIsoDate(useToday());
+
+  const days = calendarDays(today, RANGES[range]);
+  const isoDates = days.filter((d) => d.inRange).map((d) => toIsoDate(d.date));
+
+  const portionsQuery = usePortionsRange(
+    isoDates[0],
+    isoDates[isoDates.length - 1],
+  );
+
+  const nutrientsQuery = useNutrients();
+
+  const goalHistoryQuery = useQuery({
+    queryKey: ["goalHistory", profile],
+    queryFn: ({ signal }) => api.goalHistory(signal),
+  });
+
+  const header = (
+    <div className="header-nav">
+      <span>{t("History.title")}</span>
+      <select
+        className="range-select"
+        value={range}
+        onChange={(e) => setRange(e.target.value as Range)}
+        aria-label={t("History.range")}
+      >
+        {Object.keys(RANGES).map((r) => (
+          <option key={r} value={r}>
+            {t(`History.${r}`)}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+
+  if (
+    portionsQuery.isPending ||
+    goalHistoryQuery.isPending ||
+    nutrientsQuery.isPending
+  ) {
+    return (
+      <>
+        {header}
+        <div className="loading">{t("common.loading")}</div>
+      </>
+    );
+  }
+
+  if (
+    portionsQuery.isError ||
+    goalHistoryQuery.isError ||
+    nutrientsQuery.isError
+  ) {
+    return (
+      <>
+        {header}
+        <div className="error">{t("common.error")}</div>
+      </>
+    );
+  }
+
+  const nutrients = nutrientsQuery.data.filter((n) => n.active);
+  const goalHistory = goalHistoryQuery.data;
+  // The average is compared against the goals in force today.
+  const goals = goalsOn(goalHistory, isoDates[isoDates.length - 1]);
+  const portionsByDate = portionsQuery.data;
+  const weekdayFormat = new Intl.DateTimeFormat(i18n.language, {
+    weekday: "narrow",
+    timeZone: "UTC",
+  });
+  const dateFormat = new Intl.DateTimeFormat(i18n.language, {
+    dateStyle: "medium",
+    timeZone: "UTC",
+  });
+
+  return (
+    <>
+      {header}
+      <div className="history-calendar">
+        {days.slice(0, 7).map(({ date }) => (
+          <div key={date.getUTCDay()} className="history-weekday">
+            {weekdayFormat.format(date)}
+          </div>
+        ))}
+        {days.map(({ date, inRange }) => {
+          const isoDate = toIsoDate(date);
+          const portions = portionsByDate[isoDate];
+          if (!inRange || !portions) {
+            return <div key={isoDate} className="history-day outside" />;
+          }
+          return (
+            <div
+              key={isoDate}
+              className="history-day"
+              title={dateFormat.format(date)}
+            >
+              <span className="history-day-number">{date.getUTCDate()}</span>
+              <div className="history-day-nutrients">
+                {nutrients.map(({ id }) => {
+                  const count = portions[id] ?? 0;
+                  const goal = goalsOn(goalHistory, isoDate)[id] ?? 0;
+                  const status = goalStatus(count, goal);
+                  return (
+                    <span
+                      key={id}
+                      className={`history-nutrient ${nutrientClass(id)} ${status === "over" ? "excess" : ""}`}
+                      style={{ opacity: 0.2 + 0.8 * goalProgress(count, goal) }}
+                    />
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <table className="history-summary">
+        <thead>
+          <tr>
+            <th />
+            <th>{t("History.average")}</th>
+            <th>{t("History.daysMet")}</th>
+            <th>{t("History.currentStreak")}</th>
+            <th>{t("History.longestStreak")}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {nutrients.map((n) => {
+            const summary = summarize(
+              isoDates.map((isoDate) => portionsByDate[isoDate]),
+              isoDates.map((isoDate) => goalsOn(goalHistory, isoDate)),
+              n.id,
+            );
+            return (
+              <tr key={n.id}>
+                <th className="nutrient-label">
+                  {nutrientLabel(n, i18n.language)}
+                </th>
+                <td>
+                  {summary.average.toFixed(1)} / {goals[n.id] ?? 0}
+                </td>
+                <td>
+                  {summary.daysMet} / {isoDates.length}
+                </td>
+                <td>{summary.currentStreak}</td>
+                <td>{summary.longestStreak}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </>
+  );
+}
@@ -0,0 +1,125 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { type QueryKey, useQueryClient } from "@tanstack/react-query";
+import { useContext, useEffect } from "react";
+import { type Change, useApi } from "@/api";
+import { NUTRIENTS_QUERY_KEY, PROFILES_QUERY_KEY } from "@/common";
+import { OutboxContext } from "@/OutboxContext";
+import { ActiveProfile } from "@/ProfileContext";
+
+// How long to wait before reconnecting after losing the connection.
+export const RECONNECT_DELAY_MS = 5_000;
+
+function profileQueryKeys(profile: number): QueryKey[] {
+  return [
+    ["portions", profile],
+    ["portionsRange", profile],
+    ["meals", profile],
+    ["events", profile],
+    ["goals", profile],
+    ["goalHistory", profile],
+    ["savedMeals", profile],
+  ];
+}
+
+/**
+ * Returns the keys of the queries whose data is affected by the change.
+ */
+function changedQueryKeys(change: Change, profile: number): QueryKey[] {
+  switch (change.kind) {
+    case "portions":
+      return [
+        ["portions", profile, change.date],
+        ["meals", profile, change.date],
+        ["events", profile, change.date],
+        ["portionsRange", profile],
+      ];
+    case "goals":
+      return [
+        ["goals", profile],
+        ["goalHistory", profile],
+      ];
+    case "all":
+      return profileQueryKeys(profile);
+    case "nutrients":
+      return [NUTRIENTS_QUERY_KEY];
+    case "profiles":
+      return [PROFILES_QUERY_KEY];
+    case "saved-meals":
+      return [["savedMeals", profile]];
+  }
+}
+
+function sleep(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    const timeout = setTimeout(resolve, ms);
+    signal.addEventListener("abort", () => {
+      clearTimeout(timeout);
+      resolve();
+    });
+  });
+}
+
+/**
+ * Keeps the displayed data up to date with the changes made on other devices, by
+ * refetching the data affected by each change.
+ *
+ * Changes made while disconnected are missed, so everything is refetched after
+ * reconnecting.
+ */
+export default function LiveUpdates() {
+  const api = useApi();
+  const profile = useContext(ActiveProfile);
+  const outbox = useContext(OutboxContext);
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const invalidate = async (queryKeys: QueryKey[]) => {
+      // This device's own commands are applied to the cache once confirmed. Refetching
+      // in the meantime could count them twice.
+      await outbox.settled();
+      for (const queryKey of queryKeys) {
+        queryClient.invalidateQueries({ queryKey });
+      }
+    };
+
+    (async () => {
+      for (;;) {
+        try {
+          for await (const change of api.changes(controller.signal)) {
+            invalidate(changedQueryKeys(change, profile));
+          }
+        } catch {
+          // Retried after a delay, like a lost connection.
+        }
+        await sleep(RECONNECT_DELAY_MS, controller.signal);
+        if (controller.signal.aborted) {
+          return;
+        }
+        invalidate([
+          ...profileQueryKeys(profile),
+          NUTRIENTS_QUERY_KEY,
+          PROFILES_QUERY_KEY,
+        ]);
+      }
+    })();
+
+    return () => controller.abort();
+  }, [api, profile, outbox, queryClient]);
+
+  return null;
+}
@@ -0,0 +1,75 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { useMutation } from "@tanstack/react-query";
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useApi } from "@/api";
+
+/**
+ * The login screen, calling `onLogin` with the session token once the password is accepted.
+ */
+export default function Login({
+  onLogin,
+}: {
+  onLogin: (token: string) => void;
+}) {
+  const { t } = useTranslation();
+  const api = useApi();
+  const [password, setPassword] = useState("");
+
+  const mutation = useMutation({
+    mutationFn: () => api.login(password),
+    onSuccess: (token) => {
+      if (token !== null) {
+        onLogin(token);
+      }
+    },
+  });
+
+  return (
+    <div className="app-container">
+      <form
+        className="login"
+        onSubmit={(e) => {
+          e.preventDefault();
+          mutation.mutate();
+        }}
+      >
+        <div className="login-title">{t("Login.title")}</div>
+        <input
+          type="password"
+          className="login-password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          aria-label={t("Login.password")}
+          autoComplete="current-password"
+        />
+        <button
+          type="submit"
+          className="mode-toggle"
+          disabled={password === "" || mutation.isPending}
+        >
+          {t("Login.submit")}
+        </button>
+        {mutation.data === null && (
+          <div className="login-error">{t("Login.wrongPassword")}</div>
+        )}
+        {mutation.isError && (
+          <div className="login-error">{t("common.backendError")}</div>
+        )}
+      </form>
+    </div>
+  );
+}
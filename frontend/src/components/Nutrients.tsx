@@ -0,0 +1,189 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+import toast from "react-hot-toast";
+import { useTranslation } from "react-i18next";
+import { Nutrient, useApi } from "@/api";
+import {
+  NUTRIENTS_QUERY_KEY,
+  nutrientLabel,
+  requestErrorMessage,
+  useNutrients,
+} from "@/common";
+
+export default function Nutrients() {
+  const { t, i18n } = useTranslation();
+  const api = useApi();
+  const queryClient = useQueryClient();
+  const query = useNutrients();
+  const [newId, setNewId] = useState("");
+  const [newLabel, setNewLabel] = useState("");
+  const [newColor, setNewColor] = useState("#888888");
+
+  // Labels are edited in the language of the UI, without the region.
+  const language = i18n.language.split("-")[0];
+
+  const mutation = useMutation({
+    mutationFn: (nutrients: Nutrient[]) =>
+      Promise.all(nutrients.map((n) => api.saveNutrient(n))),
+    onSettled: () =>
+      queryClient.invalidateQueries({ queryKey: NUTRIENTS_QUERY_KEY }),
+    onError: (error) => toast.error(requestErrorMessage(t, error)),
+  });
+
+  if (query.isPending) {
+    return <div className="loading">{t("common.loading")}</div>;
+  }
+
+  if (query.isError) {
+    return <div className="error">{t("common.error")}</div>;
+  }
+
+  const nutrients = query.data;
+
+  // All positions are renumbered, as several nutrients may share one. Only the changed
+  // ones are saved.
+  const move = (from: number, to: number) => {
+    const reordered = [...nutrients];
+    [reordered[from], reordered[to]] = [reordered[to], reordered[from]];
+    mutation.mutate(
+      reordered
+        .map((n, position) => ({ ...n, position }))
+        .filter(
+          (n) => n.position !== nutrients.find((o) => o.id === n.id)?.position,
+        ),
+    );
+  };
+
+  const candidate = {
+    id: newId,
+    labels: { [language]: newLabel.trim() },
+    color: newColor,
+    position: Math.max(-1, ...nutrients.map((n) => n.position)) + 1,
+    active: true,
+  };
+  const canAdd =
+    Nutrient.safeParse(candidate).success &&
+    candidate.labels[language] !== "" &&
+    !nutrients.some((n) => n.id === newId);
+
+  return (
+    <>
+      <div className="header-nav">
+        <span>{t("Nutrients.title")}</span>
+      </div>
+      <div className="nutrient-settings">
+        {nutrients.map((n, i) => (
+          <div
+            key={`${n.id}-${n.color}-${nutrientLabel(n, language)}`}
+            className={`nutrient-settings-row ${n.active ? "" : "inactive"}`}
+          >
+            <input
+              type="color"
+              defaultValue={n.color}
+              aria-label={t("Nutrients.color")}
+              onBlur={(e) => {
+                if (e.target.value !== n.color) {
+                  mutation.mutate([{ ...n, color: e.target.value }]);
+                }
+              }}
+            />
+            <input
+              type="text"
+              className="nutrient-settings-label"
+              defaultValue={nutrientLabel(n, language)}
+              aria-label={t("Nutrients.label")}
+              onBlur={(e) => {
+                const label = e.target.value.trim();
+                if (label && label !== nutrientLabel(n, language)) {
+                  mutation.mutate([
+                    { ...n, labels: { ...n.labels, [language]: label } },
+                  ]);
+                }
+              }}
+            />
+            <label className="nutrient-settings-active">
+              <input
+                type="checkbox"
+                checked={n.active}
+                onChange={(e) =>
+                  mutation.mutate([{ ...n, active: e.target.checked }])
+                }
+              />
+              {t("Nutrients.active")}
+            </label>
+            <button
+              type="button"
+              className="action-btn"
+              onClick={() => move(i, i - 1)}
+              disabled={i === 0}
+              aria-label={t("Nutrients.moveUp")}
+            >
+              ↑
+            </button>
+            <button
+              type="button"
+              className="action-btn"
+              onClick={() => move(i, i + 1)}
+              disabled={i === nutrients.length - 1}
+              aria-label={t("Nutrients.moveDown")}
+            >
+              ↓
+            </button>
+          </div>
+        ))}
+        <form
+          className="nutrient-settings-row"
+          onSubmit={(e) => {
+            e.preventDefault();
+            mutation.mutate([candidate], {
+              onSuccess: () => {
+                setNewId("");
+                setNewLabel("");
+              },
+            });
+          }}
+        >
+          <input
+            type="color"
+            value={newColor}
+            onChange={(e) => setNewColor(e.target.value)}
+            aria-label={t("Nutrients.color")}
+          />
+          <input
+            type="text"
+            className="nutrient-settings-label"
+            value={newLabel}
+            onChange={(e) => setNewLabel(e.target.value)}
+            placeholder={t("Nutrients.label")}
+            aria-label={t("Nutrients.newLabel")}
+          />
+          <input
+            type="text"
+            className="nutrient-settings-id"
+            value={newId}
+            onChange={(e) => setNewId(e.target.value)}
+            placeholder={t("Nutrients.id")}
+            aria-label={t("Nutrients.id")}
+          />
+          <button type="submit" className="mode-toggle" disabled={!canAdd}>
+            {t("Nutrients.add")}
+          </button>
+        </form>
+      </div>
+    </>
+  );
+}
@@ -13,69 +13,254 @@
 // limitations under the License.
 
 import { useQuery } from "@tanstack/react-query";
-import { CalendarDays } from "lucide-react";
+import { CalendarDays, Copy } from "lucide-react";
 import { useContext, useRef, useState } from "react";
+import toast from "react-hot-toast";
 import { useTranslation } from "react-i18next";
-import { BackendBaseUrl } from "@/BackendUrlContext";
 import {
-  NUTRIENTS,
-  PortionsOfNutrients,
+  type Command,
+  MEALS,
+  type Meal,
+  type PortionsByMeal,
+  type PortionsOfNutrients,
+  useApi,
+} from "@/api";
+import {
+  dayAfter,
+  dayBefore,
+  defaultMeal,
+  fromIsoDate,
+  mealsToUnconsume,
+  mealToUnconsume,
+  nutrientLabel,
+  toIsoDate,
   useNutrientCounterMutation,
+  useNutrients,
+  usePendingCommands,
+  usePortionCommandsMutation,
+  useSavedMeals,
+  useToday,
+  withPendingMeals,
 } from "@/common";
+import { ActiveProfile } from "@/ProfileContext";
+import { useRoute } from "@/routes";
+import { UserSettings } from "@/settings";
+import { digitKey, useShortcuts } from "@/shortcuts";
+import CopyDay from "./CopyDay";
 import { DotCountInput } from "./DotCountInput";
-
-function dayBefore(date: Date) {
-  const d = new Date(date);
-  d.setDate(d.getDate() - 1);
-  return d;
-}
-
-function dayAfter(date: Date) {
-  const d = new Date(date);
-  d.setDate(d.getDate() + 1);
-  return d;
-}
+import EventLog from "./EventLog";
+import HalfPortions from "./HalfPortions";
 
 export default function Portions() {
   const { t, i18n } = useTranslation();
-  const [date, setDate] = useState(new Date());
-  const baseUrl = useContext(BackendBaseUrl);
+  const today = useToday();
+  const { timeZone } = useContext(UserSettings);
+  const [route, navigate] = useRoute();
+  const date = fromIsoDate(route.date ?? today);
+  const setDate = (date: Date) =>
+    navigate({ view: "portions", date: toIsoDate(date) });
+  const api = useApi();
+  const profile = useContext(ActiveProfile);
   const dateInputRef = useRef<HTMLInputElement>(null);
+  const [meal, setMeal] = useState<Meal>(() =>
+    defaultMeal(new Date(), timeZone),
+  );
+  const [step, setStep] = useState(1);
+  const [copying, setCopying] = useState(false);
 
-  const isoDate = date.toISOString().split("T")[0];
+  const isoDate = toIsoDate(date);
   const dateStrRaw = new Intl.DateTimeFormat(i18n.language, {
     dateStyle: "full",
+    timeZone: "UTC",
   }).format(date);
   // Capitalization for Ukrainian, as it's capitalized already in other languages.
   const dateStr = dateStrRaw.charAt(0).toUpperCase() + dateStrRaw.slice(1);
 
   const portionsQuery = useQuery({
-    queryKey: ["portions", isoDate],
-    queryFn: () =>
-      fetch(`${baseUrl}/days/${isoDate}/portions`)
-        .then((res) => res.json())
-        .then((data) => PortionsOfNutrients.parse(data)),
+    queryKey: ["portions", profile, isoDate],
+    queryFn: ({ signal }) => api.portions(isoDate, signal),
   });
 
   const goalsQuery = useQuery({
-    queryKey: ["goals"],
-    queryFn: () =>
-      fetch(`${baseUrl}/goals`)
-        .then((res) => res.json())
-        .then((data) => PortionsOfNutrients.parse(data)),
+    queryKey: ["goals", profile, isoDate],
+    queryFn: ({ signal }) => api.goals(isoDate, signal),
+  });
+
+  // Only used for the breakdown, so it doesn't hold up displaying the day.
+  const mealsQuery = useQuery({
+    queryKey: ["meals", profile, isoDate],
+    queryFn: ({ signal }) => api.meals(isoDate, signal),
   });
+  const meals: PortionsByMeal = mealsQuery.data ?? {};
+
+  const nutrientsQuery = useNutrients();
 
-  const [mutationsInProgress, mutation] = useNutrientCounterMutation(
-    `${baseUrl}/days/${isoDate}/portions`,
+  const [mutationsInProgress, mutation] = useNutrientCounterMutation<
+    "consume" | "unconsume"
+  >(
+    isoDate,
     "consume",
-    ["portions", isoDate],
+    ["portions", profile, isoDate],
+    [
+      ["events", profile, isoDate],
+      ["meals", profile, isoDate],
+    ],
   );
 
-  if (portionsQuery.isPending || goalsQuery.isPending) {
+  const pendingCommands = usePendingCommands();
+
+  // Only offered as shortcuts, so they don't hold up displaying the day either.
+  const savedMeals = useSavedMeals().data ?? [];
+  const commandsMutation = usePortionCommandsMutation();
+
+  /**
+   * Returns the non-empty meals, and the rest of the count as "Other" if any meal is recorded.
+   */
+  const breakdown = (nutrient: string, count: number) => {
+    const parts = MEALS.map((m) => ({
+      label: t(`Meals.${m}`),
+      count: meals[m]?.[nutrient] ?? 0,
+    })).filter((part) => part.count > 0);
+    const rest = parts.reduce((rest, part) => rest - part.count, count);
+    if (parts.length > 0 && rest > 0) {
+      parts.push({ label: t("Meals.other"), count: rest });
+    }
+    return parts;
+  };
+
+  const increase = (nutrient: string) =>
+    mutation.mutate({
+      name: nutrient,
+      command: "consume",
+      amount: step,
+      meal,
+    });
+
+  // Portions are removed after the pending commands, which may have removed some already.
+  const pendingMeals = withPendingMeals(
+    meals,
+    pendingCommands,
+    api.commandsUrl(),
+    isoDate,
+  );
+  const countWithPending = (nutrient: string) =>
+    (portionsQuery.data?.[nutrient] ?? 0) +
+    (mutationsInProgress[nutrient] ?? 0);
+
+  const decrease = (nutrient: string) => {
+    const count = countWithPending(nutrient);
+    if (count < step) {
+      return;
+    }
+    const from = mealToUnconsume(count, pendingMeals, nutrient, meal, step);
+    mutation.mutate({
+      name: nutrient,
+      command: "unconsume",
+      amount: step,
+      meal: from,
+    });
+  };
+
+  // The difference to the count entered is recorded as if tapped, and sent along with the taps.
+  const setCount = (nutrient: string, target: number) => {
+    const count = countWithPending(nutrient);
+    const delta = target - count;
+    if (delta > 0) {
+      mutation.mutate({
+        name: nutrient,
+        command: "consume",
+        amount: delta,
+        meal,
+      });
+      return;
+    }
+    for (const part of mealsToUnconsume(
+      count,
+      pendingMeals,
+      nutrient,
+      meal,
+      -delta,
+    )) {
+      mutation.mutate({ name: nutrient, command: "unconsume", ...part });
+    }
+  };
+
+  // The copy is undone as a whole, by removing the same portions again.
+  const copyDay = (source: string, portions: PortionsOfNutrients) => {
+    setCopying(false);
+    const commands = (type: Command["type"]) =>
+      Object.entries(portions).map(([nutrient, amount]) => ({
+        type,
+        date: isoDate,
+        nutrient,
+        amount,
+      }));
+    const sourceStr = new Intl.DateTimeFormat(i18n.language, {
+      dateStyle: "medium",
+      timeZone: "UTC",
+    }).format(fromIsoDate(source));
+    commandsMutation.mutate(
+      { isoDate, commands: commands("consume") },
+      {
+        onSuccess: () =>
+          toast((shown) => (
+            <span className="copy-day-done">
+              {t("CopyDay.copied", { date: sourceStr })}
+              <button
+                type="button"
+                className="mode-toggle"
+                onClick={() => {
+                  toast.dismiss(shown.id);
+                  commandsMutation.mutate({
+                    isoDate,
+                    commands: commands("unconsume"),
+                  });
+                }}
+              >
+                {t("CopyDay.undo")}
+              </button>
+            </span>
+          )),
+      },
+    );
+  };
+
+  useShortcuts((event) => {
+    const digit = digitKey(event);
+    const nutrient =
+      digit !== null && portionsQuery.data
+        ? nutrientsQuery.data?.filter((n) => n.active)[digit - 1]
+        : undefined;
+    if (nutrient) {
+      // Holding the key down would otherwise record a portion per repeat.
+      if (!event.repeat) {
+        if (event.shiftKey) {
+          decrease(nutrient.id);
+        } else {
+          increase(nutrient.id);
+        }
+      }
+    } else if (event.key === "ArrowLeft") {
+      setDate(dayBefore(date));
+    } else if (event.key === "ArrowRight") {
+      setDate(dayAfter(date));
+    } else if (event.key.toLowerCase() === "t") {
+      navigate({ view: "portions" });
+    } else {
+      return;
+    }
+    event.preventDefault();
+  });
+
+  if (
+    portionsQuery.isPending ||
+    goalsQuery.isPending ||
+    nutrientsQuery.isPending
+  ) {
     return <div className="loading">{t("common.loading")}</div>;
   }
 
-  if (portionsQuery.isError || goalsQuery.isError) {
+  if (portionsQuery.isError || goalsQuery.isError || nutrientsQuery.isError) {
     return <div className="error">{t("common.error")}</div>;
   }
 
@@ -85,8 +270,9 @@ export default function Portions() {
         <div className="header-nav">
           <button
             className="nav-button"
-            onClick={() => setDate((d) => dayBefore(d))}
+            onClick={() => setDate(dayBefore(date))}
             type="button"
+            aria-label={t("Portions.previousDay")}
           >
             {"<"}
           </button>
@@ -110,7 +296,7 @@ export default function Portions() {
                 type="date"
                 value={isoDate}
                 onChange={(e) => {
-                  const newDate = new Date(e.target.value);
+                  const newDate = fromIsoDate(e.target.value);
                   if (!Number.isNaN(newDate.getTime())) {
                     setDate(newDate);
                   }
@@ -118,32 +304,101 @@ export default function Portions() {
                 className="date-input-hidden"
               />
             </div>
+            <button
+              type="button"
+              className="calendar-button"
+              onClick={() => setCopying(true)}
+              aria-label={t("Portions.copyFrom")}
+            >
+              <Copy size={22} className="calendar-icon" aria-hidden="true" />
+            </button>
           </div>
           <button
             className="nav-button"
-            onClick={() => setDate((d) => dayAfter(d))}
+            onClick={() => setDate(dayAfter(date))}
             type="button"
+            aria-label={t("Portions.nextDay")}
           >
             {">"}
           </button>
         </div>
-        <div className="nutrients-list">
-          {NUTRIENTS.map((n) => (
-            <DotCountInput
-              key={n}
-              name={n}
-              count={portionsQuery.data[n] ?? 0}
-              inProgress={mutationsInProgress[n] ?? 0}
-              goal={goalsQuery.data[n] ?? 0}
-              onIncrease={() =>
-                mutation.mutate({ name: n, command: "consume" })
-              }
-              onDecrease={() =>
-                mutation.mutate({ name: n, command: "unconsume" })
-              }
-            />
+        {copying && (
+          <CopyDay
+            isoDate={isoDate}
+            onCopy={copyDay}
+            onClose={() => setCopying(false)}
+          />
+        )}
+        <fieldset className="meal-select" aria-label={t("Portions.meal")}>
+          {MEALS.map((m) => (
+            <button
+              key={m}
+              type="button"
+              className={`meal-button ${m === meal ? "selected" : ""}`}
+              onClick={() => setMeal(m)}
+              aria-pressed={m === meal}
+            >
+              {t(`Meals.${m}`)}
+            </button>
           ))}
+        </fieldset>
+        <HalfPortions step={step} onChange={setStep} />
+        {savedMeals.length > 0 && (
+          <fieldset
+            className="saved-meals"
+            aria-label={t("Portions.savedMeals")}
+          >
+            {savedMeals.map((m) => (
+              <button
+                key={m.id}
+                type="button"
+                className="saved-meal-button"
+                onClick={() =>
+                  commandsMutation.mutate({
+                    isoDate,
+                    commands: Object.entries(m.portions).map(
+                      ([nutrient, amount]) => ({
+                        type: "consume",
+                        date: isoDate,
+                        nutrient,
+                        meal,
+                        amount,
+                      }),
+                    ),
+                  })
+                }
+                disabled={Object.keys(m.portions).length === 0}
+                title={t("Portions.logSavedMeal", { name: m.name })}
+              >
+                {m.name}
+              </button>
+            ))}
+          </fieldset>
+        )}
+        <div className="nutrients-list">
+          {nutrientsQuery.data
+            .filter((n) => n.active)
+            .map((n, i) => {
+              const count = portionsQuery.data[n.id] ?? 0;
+              return (
+                <DotCountInput
+                  key={n.id}
+                  name={n.id}
+                  label={nutrientLabel(n, i18n.language)}
+                  count={count}
+                  inProgress={mutationsInProgress[n.id] ?? 0}
+                  goal={goalsQuery.data[n.id] ?? 0}
+                  step={step}
+                  breakdown={breakdown(n.id, count)}
+                  shortcut={i < 9 ? String(i + 1) : undefined}
+                  onIncrease={() => increase(n.id)}
+                  onDecrease={() => decrease(n.id)}
+                  onSet={(target) => setCount(n.id, target)}
+                />
+              );
+            })}
         </div>
+        <EventLog isoDate={isoDate} />
       </>
     );
   }
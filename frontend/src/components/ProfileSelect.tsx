@@ -0,0 +1,84 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import toast from "react-hot-toast";
+import { useTranslation } from "react-i18next";
+import { useApi } from "@/api";
+import { PROFILES_QUERY_KEY, requestErrorMessage } from "@/common";
+
+// Not a valid profile id, so it can't clash with an existing profile.
+const NEW_PROFILE = "new";
+
+/**
+ * A selection of the profile whose data is displayed, which also allows creating new ones.
+ *
+ * Nothing is displayed until the profiles are loaded.
+ */
+export default function ProfileSelect({
+  profile,
+  onChange,
+}: {
+  profile: number;
+  onChange: (profile: number) => void;
+}) {
+  const { t } = useTranslation();
+  const api = useApi();
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: PROFILES_QUERY_KEY,
+    queryFn: ({ signal }) => api.profiles(signal),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: (name: string) => api.createProfile(name),
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: PROFILES_QUERY_KEY });
+      onChange(created.id);
+    },
+    onError: (error) => toast.error(requestErrorMessage(t, error)),
+  });
+
+  if (!query.isSuccess) {
+    return null;
+  }
+
+  const select = (value: string) => {
+    if (value !== NEW_PROFILE) {
+      onChange(Number(value));
+      return;
+    }
+    const name = window.prompt(t("ProfileSelect.newName"))?.trim();
+    if (name) {
+      createMutation.mutate(name);
+    }
+  };
+
+  return (
+    <select
+      className="profile-select"
+      value={profile}
+      onChange={(e) => select(e.target.value)}
+      aria-label={t("ProfileSelect.label")}
+    >
+      {query.data.map((p) => (
+        <option key={p.id} value={p.id}>
+          {p.name}
+        </option>
+      ))}
+      <option value={NEW_PROFILE}>{t("ProfileSelect.new")}</option>
+    </select>
+  );
+}
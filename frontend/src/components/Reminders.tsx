@@ -0,0 +1,117 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { useQueryClient } from "@tanstack/react-query";
+import { useContext, useEffect } from "react";
+import { useTranslation } from "react-i18next";
+import { useApi } from "@/api";
+import { sessionToken } from "@/auth";
+import { BackendBaseUrl } from "@/BackendUrlContext";
+import { NUTRIENTS_QUERY_KEY } from "@/common";
+import { ActiveProfile } from "@/ProfileContext";
+import {
+  localSentRemindersStore,
+  notify,
+  type ReminderConfig,
+  type ReminderData,
+  showDueReminders,
+} from "@/reminders";
+import { syncRemindersInBackground } from "@/serviceWorker";
+import { UserSettings } from "@/settings";
+
+// Checking every minute rather than setting timers for the exact times keeps the
+// reminders on time across the device sleeping and the clock changing.
+export const REMINDER_CHECK_INTERVAL_MS = 60_000;
+
+/**
+ * Shows the reminders configured in the settings as notifications.
+ *
+ * Where a service worker controls the app, it's asked to do the checks, as it also does
+ * them in the background where the browser supports periodic background sync. Otherwise
+ * they're done here, while the app is open.
+ */
+export default function Reminders() {
+  const { i18n } = useTranslation();
+  const api = useApi();
+  const baseUrl = useContext(BackendBaseUrl);
+  const queryClient = useQueryClient();
+  const profile = useContext(ActiveProfile);
+  const settings = useContext(UserSettings);
+
+  useEffect(() => {
+    if (!("Notification" in window)) {
+      return;
+    }
+
+    syncRemindersInBackground(
+      settings.summaryTime !== null ||
+        Object.keys(settings.mealReminders).length > 0,
+    ).catch(() => {});
+
+    // The same queries as displaying the day, so that they share the cached data.
+    const data: ReminderData = {
+      meals: (isoDate) =>
+        queryClient.fetchQuery({
+          queryKey: ["meals", profile, isoDate],
+          queryFn: ({ signal }) => api.meals(isoDate, signal),
+        }),
+      portions: (isoDate) =>
+        queryClient.fetchQuery({
+          queryKey: ["portions", profile, isoDate],
+          queryFn: ({ signal }) => api.portions(isoDate, signal),
+        }),
+      goals: (isoDate) =>
+        queryClient.fetchQuery({
+          queryKey: ["goals", profile, isoDate],
+          queryFn: ({ signal }) => api.goals(isoDate, signal),
+        }),
+      nutrients: () =>
+        queryClient.ensureQueryData({
+          queryKey: NUTRIENTS_QUERY_KEY,
+          queryFn: ({ signal }) => api.nutrients(signal),
+        }),
+    };
+
+    const check = () => {
+      if (Notification.permission !== "granted") {
+        return;
+      }
+      const worker = navigator.serviceWorker?.controller;
+      if (worker) {
+        const config: ReminderConfig = {
+          settings,
+          baseUrl,
+          profile,
+          token: sessionToken(),
+          language: i18n.language,
+        };
+        worker.postMessage({ type: "checkReminders", config });
+      } else {
+        showDueReminders(new Date(), {
+          settings,
+          i18n,
+          data,
+          sent: localSentRemindersStore(),
+          notify,
+        }).catch(() => {});
+      }
+    };
+
+    check();
+    const interval = setInterval(check, REMINDER_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [api, baseUrl, i18n, i18n.language, profile, queryClient, settings]);
+
+  return null;
+}
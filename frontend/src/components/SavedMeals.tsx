@@ -0,0 +1,220 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useContext, useState } from "react";
+import toast from "react-hot-toast";
+import { useTranslation } from "react-i18next";
+import { type SavedMeal, useApi } from "@/api";
+import {
+  nutrientLabel,
+  requestErrorMessage,
+  useNutrients,
+  useSavedMeals,
+} from "@/common";
+import { ActiveProfile } from "@/ProfileContext";
+
+export default function SavedMeals() {
+  const { t, i18n } = useTranslation();
+  const api = useApi();
+  const profile = useContext(ActiveProfile);
+  const queryClient = useQueryClient();
+  const savedMealsQuery = useSavedMeals();
+  const nutrientsQuery = useNutrients();
+  const [newName, setNewName] = useState("");
+
+  const mutationOptions = {
+    onSettled: () =>
+      queryClient.invalidateQueries({ queryKey: ["savedMeals", profile] }),
+    onError: (error: Error) => toast.error(requestErrorMessage(t, error)),
+  };
+  const saveMutation = useMutation({
+    mutationFn: (savedMeals: SavedMeal[]) =>
+      Promise.all(savedMeals.map((m) => api.saveSavedMeal(m))),
+    ...mutationOptions,
+  });
+  const createMutation = useMutation({
+    mutationFn: (definition: Omit<SavedMeal, "id">) =>
+      api.createSavedMeal(definition),
+    ...mutationOptions,
+  });
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => api.deleteSavedMeal(id),
+    ...mutationOptions,
+  });
+
+  const header = (
+    <div className="header-nav">
+      <span>{t("SavedMeals.title")}</span>
+    </div>
+  );
+
+  if (savedMealsQuery.isPending || nutrientsQuery.isPending) {
+    return (
+      <>
+        {header}
+        <div className="loading">{t("common.loading")}</div>
+      </>
+    );
+  }
+
+  if (savedMealsQuery.isError || nutrientsQuery.isError) {
+    return (
+      <>
+        {header}
+        <div className="error">{t("common.error")}</div>
+      </>
+    );
+  }
+
+  const savedMeals = savedMealsQuery.data;
+  const nutrients = nutrientsQuery.data;
+
+  // Same as with nutrients, all positions are renumbered and only the changed ones saved.
+  const move = (from: number, to: number) => {
+    const reordered = [...savedMeals];
+    [reordered[from], reordered[to]] = [reordered[to], reordered[from]];
+    saveMutation.mutate(
+      reordered
+        .map((m, position) => ({ ...m, position }))
+        .filter(
+          (m) => m.position !== savedMeals.find((o) => o.id === m.id)?.position,
+        ),
+    );
+  };
+
+  const setAmount = (
+    savedMeal: SavedMeal,
+    nutrient: string,
+    input: HTMLInputElement,
+  ) => {
+    const stored = savedMeal.portions[nutrient] ?? 0;
+    const amount = Number(input.value);
+    // Only whole and half portions are recorded, the input shows what's kept otherwise.
+    if (!Number.isInteger(amount * 2) || amount < 0) {
+      input.value = String(stored);
+      return;
+    }
+    if (amount === stored) {
+      return;
+    }
+    const { [nutrient]: _, ...portions } = savedMeal.portions;
+    saveMutation.mutate([
+      {
+        ...savedMeal,
+        portions: amount > 0 ? { ...portions, [nutrient]: amount } : portions,
+      },
+    ]);
+  };
+
+  return (
+    <>
+      {header}
+      <div className="saved-meal-settings">
+        {savedMeals.map((m, i) => (
+          <div key={m.id} className="saved-meal-settings-item">
+            <div className="saved-meal-settings-row">
+              <input
+                key={m.name}
+                type="text"
+                className="saved-meal-settings-name"
+                defaultValue={m.name}
+                aria-label={t("SavedMeals.name")}
+                onBlur={(e) => {
+                  const name = e.target.value.trim();
+                  if (name && name !== m.name) {
+                    saveMutation.mutate([{ ...m, name }]);
+                  }
+                }}
+              />
+              <button
+                type="button"
+                className="action-btn"
+                onClick={() => move(i, i - 1)}
+                disabled={i === 0}
+                aria-label={t("SavedMeals.moveUp")}
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                className="action-btn"
+                onClick={() => move(i, i + 1)}
+                disabled={i === savedMeals.length - 1}
+                aria-label={t("SavedMeals.moveDown")}
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                className="action-btn"
+                onClick={() => deleteMutation.mutate(m.id)}
+                aria-label={t("SavedMeals.delete", { name: m.name })}
+              >
+                ✕
+              </button>
+            </div>
+            <div className="saved-meal-settings-portions">
+              {nutrients
+                .filter((n) => n.active || m.portions[n.id] !== undefined)
+                .map((n) => (
+                  <label key={`${n.id}-${m.portions[n.id] ?? 0}`}>
+                    {nutrientLabel(n, i18n.language)}
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      defaultValue={m.portions[n.id] ?? 0}
+                      onBlur={(e) => setAmount(m, n.id, e.target)}
+                    />
+                  </label>
+                ))}
+            </div>
+          </div>
+        ))}
+        <form
+          className="saved-meal-settings-row"
+          onSubmit={(e) => {
+            e.preventDefault();
+            createMutation.mutate(
+              {
+                name: newName.trim(),
+                position:
+                  Math.max(-1, ...savedMeals.map((m) => m.position)) + 1,
+                portions: {},
+              },
+              { onSuccess: () => setNewName("") },
+            );
+          }}
+        >
+          <input
+            type="text"
+            className="saved-meal-settings-name"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder={t("SavedMeals.name")}
+            aria-label={t("SavedMeals.newName")}
+          />
+          <button
+            type="submit"
+            className="mode-toggle"
+            disabled={newName.trim() === ""}
+          >
+            {t("SavedMeals.add")}
+          </button>
+        </form>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,139 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { MEALS, type Meal } from "@/api";
+import type { Settings as SettingsType } from "@/settings";
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+/**
+ * The settings of this device.
+ */
+export default function Settings({
+  settings,
+  onChange,
+}: {
+  settings: SettingsType;
+  onChange: (settings: SettingsType) => void;
+}) {
+  const { t, i18n } = useTranslation();
+  const deviceTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const hourFormat = new Intl.DateTimeFormat(i18n.language, {
+    timeStyle: "short",
+    timeZone: "UTC",
+  });
+  const [permission, setPermission] = useState(() =>
+    "Notification" in window ? Notification.permission : null,
+  );
+
+  // Notifications are only asked for once a reminder is set, which makes them opt-in.
+  const changeReminders = async (changed: SettingsType) => {
+    onChange(changed);
+    if (permission === "default") {
+      setPermission(await Notification.requestPermission());
+    }
+  };
+
+  const changeMealReminder = (meal: Meal, time: string) => {
+    const { [meal]: _, ...mealReminders } = settings.mealReminders;
+    changeReminders({
+      ...settings,
+      mealReminders: time ? { ...mealReminders, [meal]: time } : mealReminders,
+    });
+  };
+
+  return (
+    <>
+      <div className="header-nav">
+        <span>{t("Settings.title")}</span>
+      </div>
+      <div className="settings">
+        <label className="settings-field">
+          {t("Settings.timeZone")}
+          <select
+            value={settings.timeZone ?? ""}
+            onChange={(e) =>
+              onChange({ ...settings, timeZone: e.target.value || null })
+            }
+          >
+            <option value="">
+              {t("Settings.deviceTimeZone", { timeZone: deviceTimeZone })}
+            </option>
+            {Intl.supportedValuesOf("timeZone").map((timeZone) => (
+              <option key={timeZone} value={timeZone}>
+                {timeZone}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="settings-field">
+          {t("Settings.dayStart")}
+          <select
+            value={settings.dayStartHour}
+            onChange={(e) =>
+              onChange({ ...settings, dayStartHour: Number(e.target.value) })
+            }
+          >
+            {HOURS.map((hour) => (
+              <option key={hour} value={hour}>
+                {hourFormat.format(Date.UTC(2000, 0, 1, hour))}
+              </option>
+            ))}
+          </select>
+        </label>
+        <p className="settings-hint">{t("Settings.dayStartHint")}</p>
+        <h3 className="settings-section">{t("Settings.reminders")}</h3>
+        {permission === null ? (
+          <p className="settings-hint">
+            {t("Settings.notificationsUnsupported")}
+          </p>
+        ) : (
+          <>
+            {MEALS.map((meal) => (
+              <label key={meal} className="settings-field">
+                {t(`Meals.${meal}`)}
+                <input
+                  type="time"
+                  value={settings.mealReminders[meal] ?? ""}
+                  onChange={(e) => changeMealReminder(meal, e.target.value)}
+                />
+              </label>
+            ))}
+            <label className="settings-field">
+              {t("Settings.summary")}
+              <input
+                type="time"
+                value={settings.summaryTime ?? ""}
+                onChange={(e) =>
+                  changeReminders({
+                    ...settings,
+                    summaryTime: e.target.value || null,
+                  })
+                }
+              />
+            </label>
+            {permission === "denied" && (
+              <p className="settings-hint">
+                {t("Settings.notificationsBlocked")}
+              </p>
+            )}
+            <p className="settings-hint">{t("Settings.remindersHint")}</p>
+          </>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,57 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { useTranslation } from "react-i18next";
+
+type ShortcutHelpProps = {
+  onClose: () => void;
+};
+
+const SHORTCUTS = [
+  { keys: ["1", "…", "9"], action: "increase" },
+  { keys: ["Shift", "1", "…", "9"], action: "decrease" },
+  { keys: ["←"], action: "previousDay" },
+  { keys: ["→"], action: "nextDay" },
+  { keys: ["T"], action: "today" },
+  { keys: ["G"], action: "goals" },
+  { keys: ["?"], action: "help" },
+];
+
+/**
+ * Overlay listing the keyboard shortcuts.
+ */
+export default function ShortcutHelp({ onClose }: ShortcutHelpProps) {
+  const { t } = useTranslation();
+
+  return (
+    <dialog open className="shortcut-help" aria-label={t("ShortcutHelp.title")}>
+      <h2>{t("ShortcutHelp.title")}</h2>
+      <dl>
+        {SHORTCUTS.map(({ keys, action }) => (
+          <div key={action} className="shortcut-help-row">
+            <dt>
+              {keys.map((key) =>
+                key === "…" ? key : <kbd key={key}>{key}</kbd>,
+              )}
+            </dt>
+            <dd>{t(`ShortcutHelp.${action}`)}</dd>
+          </div>
+        ))}
+      </dl>
+      <button type="button" className="mode-toggle" onClick={onClose}>
+        {t("ShortcutHelp.close")}
+      </button>
+    </dialog>
+  );
+}
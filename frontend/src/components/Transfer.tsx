@@ -0,0 +1,178 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useContext, useState } from "react";
+import toast from "react-hot-toast";
+import { useTranslation } from "react-i18next";
+import { type ExportData, useApi } from "@/api";
+import { dayOf, fromIsoDate, requestErrorMessage } from "@/common";
+import { UserSettings } from "@/settings";
+import { parseExport, toCsv } from "@/transfer";
+
+type Format = "json" | "csv";
+
+function download(fileName: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking it right away may cancel the download in some browsers.
+  setTimeout(() => URL.revokeObjectURL(url));
+}
+
+export default function Transfer() {
+  const { t, i18n } = useTranslation();
+  const api = useApi();
+  const settings = useContext(UserSettings);
+  const queryClient = useQueryClient();
+  const [data, setData] = useState<ExportData | null>(null);
+  const [invalidFile, setInvalidFile] = useState(false);
+
+  const exportMutation = useMutation({
+    mutationFn: async (format: Format) => {
+      const data = await api.exportData();
+      download(
+        `ssnt-${dayOf(new Date(), settings)}.${format}`,
+        format === "json" ? JSON.stringify(data, null, 2) : toCsv(data),
+        format === "json" ? "application/json" : "text/csv",
+      );
+    },
+    onError: (error) => toast.error(requestErrorMessage(t, error)),
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: (data: ExportData) => api.importData(data, true),
+  });
+
+  const importMutation = useMutation({
+    mutationFn: (data: ExportData) => api.importData(data, false),
+    onSuccess: () => {
+      toast.success(t("Transfer.imported"));
+      // Anything displayed may have changed.
+      queryClient.invalidateQueries();
+      setData(null);
+      previewMutation.reset();
+    },
+    onError: (error) => toast.error(requestErrorMessage(t, error)),
+  });
+
+  const selectFile = async (file: File | undefined) => {
+    setData(null);
+    setInvalidFile(false);
+    previewMutation.reset();
+    if (!file) {
+      return;
+    }
+    let parsed: ExportData;
+    try {
+      parsed = parseExport(await file.text());
+    } catch {
+      setInvalidFile(true);
+      return;
+    }
+    setData(parsed);
+    previewMutation.mutate(parsed);
+  };
+
+  const dateFormat = new Intl.DateTimeFormat(i18n.language, {
+    dateStyle: "medium",
+    timeZone: "UTC",
+  });
+  const summary = previewMutation.data;
+
+  return (
+    <>
+      <div className="header-nav">
+        <span>{t("Transfer.title")}</span>
+      </div>
+      <div className="transfer">
+        <div className="transfer-section">
+          <div className="transfer-title">{t("Transfer.export")}</div>
+          <div className="transfer-actions">
+            <button
+              type="button"
+              className="mode-toggle"
+              onClick={() => exportMutation.mutate("json")}
+              disabled={exportMutation.isPending}
+            >
+              {t("Transfer.exportJson")}
+            </button>
+            <button
+              type="button"
+              className="mode-toggle"
+              onClick={() => exportMutation.mutate("csv")}
+              disabled={exportMutation.isPending}
+            >
+              {t("Transfer.exportCsv")}
+            </button>
+          </div>
+          <div className="transfer-note">{t("Transfer.csvNote")}</div>
+        </div>
+        <div className="transfer-section">
+          <label className="transfer-title" htmlFor="import-file">
+            {t("Transfer.import")}
+          </label>
+          <input
+            id="import-file"
+            type="file"
+            accept=".json,.csv,application/json,text/csv"
+            onChange={(e) => selectFile(e.target.files?.[0])}
+          />
+          {invalidFile && (
+            <div className="error">{t("Transfer.invalidFile")}</div>
+          )}
+          {previewMutation.isPending && (
+            <div className="loading">{t("common.loading")}</div>
+          )}
+          {previewMutation.isError && (
+            <div className="error">
+              {requestErrorMessage(t, previewMutation.error)}
+            </div>
+          )}
+          {summary && data && (
+            <div className="import-preview">
+              <p>{t("Transfer.preview", summary)}</p>
+              {summary.duplicates > 0 && (
+                <p>{t("Transfer.duplicates", { count: summary.duplicates })}</p>
+              )}
+              {summary.conflicts.length > 0 && (
+                <>
+                  <p>{t("Transfer.conflicts")}</p>
+                  <ul>
+                    {summary.conflicts.map((date) => (
+                      <li key={date}>{dateFormat.format(fromIsoDate(date))}</li>
+                    ))}
+                  </ul>
+                </>
+              )}
+              <button
+                type="button"
+                className="mode-toggle"
+                onClick={() => importMutation.mutate(data)}
+                disabled={
+                  importMutation.isPending ||
+                  summary.portions + summary.goals + summary.nutrients === 0
+                }
+              >
+                {t("Transfer.confirmImport")}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,237 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { useQuery } from "@tanstack/react-query";
+import { useContext, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useApi } from "@/api";
+import {
+  dayBefore,
+  fromIsoDate,
+  isoDatesBetween,
+  nutrientClass,
+  nutrientLabel,
+  toIsoDate,
+  useNutrients,
+  usePortionsRange,
+  useToday,
+} from "@/common";
+import { goalsOn, rollingAverages } from "@/history";
+import { ActiveProfile } from "@/ProfileContext";
+
+const RANGES = [7, 30, 90];
+
+// The rolling average covers a week, which evens out the days of the week.
+const AVERAGE_DAYS = 7;
+
+type TrendChartProps = {
+  label: string;
+  nutrient: string;
+  counts: number[];
+  goals: number[];
+  averages: number[];
+};
+
+/**
+ * Chart of a nutrient over the days: a bar per day, the goal as a line, and the rolling
+ * average as another one.
+ *
+ * Each day is one unit wide, and each portion one unit high. The chart is stretched to
+ * the available space, so that the lines are drawn without scaling their width.
+ */
+function TrendChart({
+  label,
+  nutrient,
+  counts,
+  goals,
+  averages,
+}: TrendChartProps) {
+  const top = Math.max(1, ...counts, ...goals, ...averages);
+  const y = (value: number) => top - value;
+  const goalLine = goals.flatMap((goal, i) => [
+    `${i},${y(goal)}`,
+    `${i + 1},${y(goal)}`,
+  ]);
+  const averageLine = averages.map((average, i) => `${i + 0.5},${y(average)}`);
+
+  return (
+    <svg
+      className={`trend-chart ${nutrientClass(nutrient)}`}
+      viewBox={`0 0 ${counts.length} ${top}`}
+      preserveAspectRatio="none"
+      role="img"
+      aria-label={label}
+    >
+      {counts.map((count, i) => (
+        <rect
+          // biome-ignore lint/suspicious/noArrayIndexKey: the days are in a fixed order
+          key={i}
+          className="trend-bar"
+          x={i + 0.15}
+          y={y(count)}
+          width={0.7}
+          height={count}
+        />
+      ))}
+      <polyline
+        className="trend-goal"
+        points={goalLine.join(" ")}
+        vectorEffect="non-scaling-stroke"
+      />
+      <polyline
+        className="trend-average"
+        points={averageLine.join(" ")}
+        vectorEffect="non-scaling-stroke"
+      />
+    </svg>
+  );
+}
+
+export default function Trends() {
+  const { t, i18n } = useTranslation();
+  const api = useApi();
+  const profile = useContext(ActiveProfile);
+  const [days, setDays] = useState(RANGES[0]);
+  const today = fromIsoDate(useToday());
+
+  // The days before the range are only fetched for the rolling average.
+  let first = today;
+  for (let i = 1; i < days + AVERAGE_DAYS - 1; i++) {
+    first = dayBefore(first);
+  }
+  const fetchedDates = isoDatesBetween(toIsoDate(first), toIsoDate(today));
+  const isoDates = fetchedDates.slice(AVERAGE_DAYS - 1);
+
+  const portionsQuery = usePortionsRange(fetchedDates[0], toIsoDate(today));
+
+  const nutrientsQuery = useNutrients();
+
+  const goalHistoryQuery = useQuery({
+    queryKey: ["goalHistory", profile],
+    queryFn: ({ signal }) => api.goalHistory(signal),
+  });
+
+  const header = (
+    <div className="header-nav">
+      <span>{t("Trends.title")}</span>
+      <select
+        className="range-select"
+        value={days}
+        onChange={(e) => setDays(Number(e.target.value))}
+        aria-label={t("Trends.range")}
+      >
+        {RANGES.map((d) => (
+          <option key={d} value={d}>
+            {t("Trends.days", { count: d })}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+
+  if (
+    portionsQuery.isPending ||
+    goalHistoryQuery.isPending ||
+    nutrientsQuery.isPending
+  ) {
+    return (
+      <>
+        {header}
+        <div className="loading">{t("common.loading")}</div>
+      </>
+    );
+  }
+
+  if (
+    portionsQuery.isError ||
+    goalHistoryQuery.isError ||
+    nutrientsQuery.isError
+  ) {
+    return (
+      <>
+        {header}
+        <div className="error">{t("common.error")}</div>
+      </>
+    );
+  }
+
+  const dateFormat = new Intl.DateTimeFormat(i18n.language, {
+    day: "numeric",
+    month: "short",
+    timeZone: "UTC",
+  });
+  const numberFormat = new Intl.NumberFormat(i18n.language, {
+    maximumFractionDigits: 1,
+  });
+  // The first, the middle, and the last day of the range.
+  const axisDates = [...new Set([0, Math.floor((days - 1) / 2), days - 1])].map(
+    (i) => isoDates[i],
+  );
+
+  return (
+    <>
+      {header}
+      <div className="trends">
+        {nutrientsQuery.data
+          .filter((n) => n.active)
+          .map((n) => {
+            const counts = fetchedDates.map(
+              (isoDate) => portionsQuery.data[isoDate]?.[n.id] ?? 0,
+            );
+            const averages = rollingAverages(counts, AVERAGE_DAYS).slice(
+              AVERAGE_DAYS - 1,
+            );
+            const goals = isoDates.map(
+              (isoDate) => goalsOn(goalHistoryQuery.data, isoDate)[n.id] ?? 0,
+            );
+            const label = nutrientLabel(n, i18n.language);
+            const average = averages[averages.length - 1];
+            return (
+              <section key={n.id} className="trend">
+                <div className="trend-header">
+                  <span className="nutrient-label">{label}</span>
+                  <span className="trend-summary">
+                    {t("Trends.average", {
+                      average: numberFormat.format(average),
+                      goal: numberFormat.format(goals[goals.length - 1]),
+                    })}
+                  </span>
+                </div>
+                <TrendChart
+                  label={t("Trends.chart", { nutrient: label })}
+                  nutrient={n.id}
+                  counts={counts.slice(AVERAGE_DAYS - 1)}
+                  goals={goals}
+                  averages={averages}
+                />
+                <div className="trend-axis">
+                  {axisDates.map((isoDate) => (
+                    <span key={isoDate}>
+                      {dateFormat.format(fromIsoDate(isoDate))}
+                    </span>
+                  ))}
+                </div>
+              </section>
+            );
+          })}
+      </div>
+      <div className="trend-legend">
+        <span className="trend-legend-average">
+          {t("Trends.rollingAverage")}
+        </span>
+        <span className="trend-legend-goal">{t("Trends.goal")}</span>
+      </div>
+    </>
+  );
+}
@@ -21,21 +21,29 @@
 
 import { StrictMode } from "react";
 import { createRoot } from "react-dom/client";
+import toast from "react-hot-toast";
 import App from "./App";
 import "./index.css";
 import { BackendBaseUrl } from "./BackendUrlContext";
+import { UpdatePrompt } from "./components/UpdatePrompt";
 import { setupI18n } from "./i18n";
+import { OutboxContext } from "./OutboxContext";
+import { indexedDbOutboxStore, Outbox } from "./outbox";
+import { registerServiceWorker } from "./serviceWorker";
 
 setupI18n();
 
 const baseUrl = process.env.BUN_PUBLIC_BASE_URL ?? "/api";
+const outbox = new Outbox(indexedDbOutboxStore());
 
 // biome-ignore lint/style/noNonNullAssertion: I know it's there
 const elem = document.getElementById("root")!;
 const app = (
   <StrictMode>
     <BackendBaseUrl.Provider value={baseUrl}>
-      <App />
+      <OutboxContext.Provider value={outbox}>
+        <App />
+      </OutboxContext.Provider>
     </BackendBaseUrl.Provider>
   </StrictMode>
 );
@@ -49,3 +57,13 @@ if (import.meta.hot) {
   // The hot module reloading API is not available in production.
   createRoot(elem).render(app);
 }
+
+// The service worker is only built for production, see the `build` script.
+if (process.env.NODE_ENV === "production" && "serviceWorker" in navigator) {
+  registerServiceWorker((applyUpdate) =>
+    toast(<UpdatePrompt onReload={applyUpdate} />, {
+      id: "update",
+      duration: Infinity,
+    }),
+  );
+}
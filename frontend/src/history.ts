@@ -0,0 +1,113 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import type { GoalHistory, PortionsOfNutrients } from "./api";
+
+/**
+ * How a day's count of a nutrient compares to the goal:
+ * - `none`: there's no goal for the nutrient.
+ * - `below`, `met`, `over`: the count is below, equal to, or over the goal.
+ */
+export type GoalStatus = "none" | "below" | "met" | "over";
+
+export type NutrientSummary = {
+  average: number;
+  daysMet: number;
+  currentStreak: number;
+  longestStreak: number;
+};
+
+export function goalStatus(count: number, goal: number): GoalStatus {
+  if (goal === 0) {
+    return "none";
+  }
+  if (count < goal) {
+    return "below";
+  }
+  return count === goal ? "met" : "over";
+}
+
+/**
+ * How close the count came to the goal, from 0 (nothing) to 1 (the goal is met or exceeded).
+ */
+export function goalProgress(count: number, goal: number) {
+  return goal === 0 ? 0 : Math.min(count / goal, 1);
+}
+
+/**
+ * Returns the goals in force on the given day.
+ */
+export function goalsOn(
+  history: GoalHistory,
+  isoDate: string,
+): PortionsOfNutrients {
+  return history.findLast((change) => change.from <= isoDate)?.goals ?? {};
+}
+
+/**
+ * Summarizes a nutrient over a range of days.
+ *
+ * @param days - Portions per day, from the oldest to the most recent one, which is today.
+ * @param goals - The goals in force on each of the days.
+ * @param nutrient - The nutrient to summarize.
+ */
+export function summarize(
+  days: PortionsOfNutrients[],
+  goals: PortionsOfNutrients[],
+  nutrient: string,
+): NutrientSummary {
+  const met = days.map(
+    (portions, i) =>
+      goalStatus(portions[nutrient] ?? 0, goals[i][nutrient] ?? 0) === "met",
+  );
+
+  let longestStreak = 0;
+  let streak = 0;
+  for (const m of met) {
+    streak = m ? streak + 1 : 0;
+    longestStreak = Math.max(longestStreak, streak);
+  }
+
+  // Today isn't over yet, so not having met the goal today doesn't break the streak.
+  let currentStreak = 0;
+  const last =
+    met.length > 0 && !met[met.length - 1] ? met.length - 2 : met.length - 1;
+  for (let i = last; i >= 0 && met[i]; i--) {
+    currentStreak++;
+  }
+
+  const total = days.reduce(
+    (sum, portions) => sum + (portions[nutrient] ?? 0),
+    0,
+  );
+
+  return {
+    average: days.length === 0 ? 0 : total / days.length,
+    daysMet: met.filter((m) => m).length,
+    currentStreak,
+    longestStreak,
+  };
+}
+
+/**
+ * Returns the average of each value with the ones before it, up to `window` values in total.
+ * The first values are averaged over fewer ones, as there are no values before them.
+ */
+export function rollingAverages(values: number[], window: number) {
+  let sum = 0;
+  return values.map((value, i) => {
+    sum += value - (i >= window ? values[i - window] : 0);
+    return sum / Math.min(i + 1, window);
+  });
+}
@@ -21,64 +21,565 @@ export const TRANSLATIONS = {
     translation: {
       "AppContent.backToRecording": "← Zurück zur Aufnahme",
       "AppContent.editGoals": "Ziele bearbeiten ⚙",
-      "DotCountInput.protein": "Eiweiß",
-      "DotCountInput.carbs": "Kohlenhydrate",
-      "DotCountInput.vegetables": "Gemüse",
-      "DotCountInput.fats": "Fett",
+      "AppContent.history": "Verlauf 📅",
+      "AppContent.trends": "Trends 📈",
+      "AppContent.pending": "{{count}} ausstehend",
+      "AppContent.nutrients": "Nährstoffe 🎨",
+      "AppContent.savedMeals": "Gespeicherte Mahlzeiten 🍱",
+      "SavedMeals.title": "Gespeicherte Mahlzeiten",
+      "SavedMeals.name": "Name",
+      "SavedMeals.newName": "Name der neuen Mahlzeit",
+      "SavedMeals.moveUp": "Nach oben",
+      "SavedMeals.moveDown": "Nach unten",
+      "SavedMeals.delete": "{{name}} löschen",
+      "SavedMeals.add": "Hinzufügen",
+      "Nutrients.title": "Nährstoffe",
+      "Nutrients.color": "Farbe",
+      "Nutrients.label": "Name",
+      "Nutrients.newLabel": "Name des neuen Nährstoffs",
+      "Nutrients.id": "Kennung, z. B. water",
+      "Nutrients.active": "Angezeigt",
+      "Nutrients.moveUp": "Nach oben",
+      "Nutrients.moveDown": "Nach unten",
+      "Nutrients.add": "Hinzufügen",
+      "EventLog.title": "Einträge",
+      "EventLog.empty": "Noch keine Einträge an diesem Tag.",
+      "EventLog.retract": "Eintrag zurücknehmen",
+      "Portions.savedMeals": "Gespeicherte Mahlzeiten",
+      "Portions.logSavedMeal": "{{name}} erfassen",
+      "Portions.previousDay": "Vorheriger Tag",
+      "Portions.nextDay": "Nächster Tag",
+      "Portions.copyFrom": "Von einem anderen Tag kopieren…",
+      "CopyDay.title": "Portionen kopieren",
+      "CopyDay.source": "Kopieren von",
+      "CopyDay.empty": "An diesem Tag ist nichts erfasst.",
+      "CopyDay.copy": "Kopieren",
+      "CopyDay.cancel": "Abbrechen",
+      "CopyDay.copied": "Portionen vom {{date}} kopiert",
+      "CopyDay.undo": "Rückgängig",
+      "DotCountInput.value": "{{label}}-Portionen: {{count}}",
+      "DotCountInput.valueOfGoal": "{{count}} von {{goal}} Portionen {{label}}",
+      "DotCountInput.valueOverGoal":
+        "{{count}} von {{goal}} Portionen {{label}}, {{over}} über dem Ziel",
+      "DotCountInput.increase": "{{label}} hinzufügen",
+      "DotCountInput.decrease": "{{label}} entfernen",
+      "DotCountInput.count": "Anzahl {{label}}",
+      "DotCountInput.set": "Übernehmen",
+      "DotCountInput.cancel": "Abbrechen",
+      "Portions.meal": "Mahlzeit",
+      "HalfPortions.label": "½ Portionen",
+      "ProfileSelect.label": "Profil",
+      "ProfileSelect.new": "Neues Profil…",
+      "ProfileSelect.newName": "Name des neuen Profils",
+      "AppContent.logout": "Abmelden",
+      "Login.title": "Anmelden",
+      "Login.password": "Passwort",
+      "Login.submit": "Anmelden",
+      "Login.wrongPassword": "Falsches Passwort.",
+      "Meals.breakfast": "Frühstück",
+      "Meals.lunch": "Mittagessen",
+      "Meals.dinner": "Abendessen",
+      "Meals.snack": "Snack",
+      "Meals.other": "Sonstige",
+      "AppContent.transfer": "Daten 💾",
+      "AppContent.settings": "Einstellungen 🕓",
+      "Settings.title": "Einstellungen",
+      "Settings.timeZone": "Zeitzone",
+      "Settings.deviceTimeZone": "Wie das Gerät ({{timeZone}})",
+      "Settings.dayStart": "Der Tag beginnt um",
+      "Settings.dayStartHint":
+        "Portionen, die vor dieser Uhrzeit erfasst werden, zählen zum Vortag.",
+      "Settings.reminders": "Erinnerungen",
+      "Settings.summary": "Tageszusammenfassung",
+      "Settings.remindersHint":
+        "An Mahlzeiten wird nur erinnert, wenn sie noch nicht erfasst sind. Ist die App geschlossen, kommen Erinnerungen nur, wo der Browser sie im Hintergrund prüft, z. B. Chrome bei der installierten App, und manche können ausbleiben.",
+      "Settings.notificationsBlocked":
+        "Benachrichtigungen sind im Browser blockiert. Erlaube sie in den Website-Einstellungen, um Erinnerungen zu erhalten.",
+      "Settings.notificationsUnsupported":
+        "Dieser Browser unterstützt keine Benachrichtigungen.",
+      "Reminders.mealNotRecorded": "Noch nichts erfasst.",
+      "Reminders.summary": "Tageszusammenfassung",
+      "Reminders.short": "{{nutrient}}: {{count}} zu wenig",
+      "Reminders.goalsMet": "Alle Ziele erreicht!",
+      "ShortcutHelp.title": "Tastenkürzel",
+      "ShortcutHelp.increase":
+        "Portion des Nährstoffs in dieser Zeile hinzufügen",
+      "ShortcutHelp.decrease":
+        "Portion des Nährstoffs in dieser Zeile entfernen",
+      "ShortcutHelp.previousDay": "Vorheriger Tag",
+      "ShortcutHelp.nextDay": "Nächster Tag",
+      "ShortcutHelp.today": "Heute",
+      "ShortcutHelp.goals": "Ziele öffnen oder schließen",
+      "ShortcutHelp.help": "Diese Übersicht ein- oder ausblenden",
+      "ShortcutHelp.close": "Schließen",
+      "Transfer.title": "Export und Import",
+      "Transfer.export": "Export",
+      "Transfer.exportJson": "JSON herunterladen",
+      "Transfer.exportCsv": "CSV herunterladen",
+      "Transfer.csvNote":
+        "CSV enthält nur die Einträge, nicht die Nährstoffe selbst.",
+      "Transfer.import": "Import",
+      "Transfer.invalidFile": "Die Datei ist kein Export dieser App.",
+      "Transfer.preview":
+        "Hinzugefügt werden {{portions}} Portionen an {{days}} Tagen, {{goals}} Zieländerungen und {{nutrients}} Nährstoffe.",
+      "Transfer.duplicates":
+        "{{count}} Einträge sind bereits vorhanden und werden übersprungen.",
+      "Transfer.conflicts":
+        "Für diese Tage gibt es bereits Daten, die importierten Einträge kommen hinzu:",
+      "Transfer.confirmImport": "Importieren",
+      "Transfer.imported": "Daten importiert",
       "common.loading": "Laden...",
       "common.error": "Fehler beim Laden der Daten",
       "common.backendError":
         "Fehler bei der Kommunikation mit dem Backend. Bitte überprüfen Sie Ihre Internetverbindung.",
+      "common.outboxError":
+        "Fehler beim Zugriff auf die auf diesem Gerät gespeicherten Änderungen. Sie werden später erneut gesendet.",
+      "common.rejected": "Vom Backend abgelehnt: {{reason}}",
       "common.selectDate": "Datum auswählen",
       "Goals.title": "Tagesziele",
+      "Goals.effectiveFrom": "Gültig ab",
+      "Goals.history": "Änderungen",
+      "Trends.title": "Trends",
+      "Trends.range": "Zeitraum",
+      "Trends.days": "{{count}} Tage",
+      "Trends.average": "Ø {{average}} / Ziel {{goal}}",
+      "Trends.chart":
+        "{{nutrient}} pro Tag, mit Ziel und gleitendem Durchschnitt",
+      "Trends.rollingAverage": "Durchschnitt über 7 Tage",
+      "Trends.goal": "Ziel",
+      "History.title": "Verlauf",
+      "History.range": "Zeitraum",
+      "History.week": "Woche",
+      "History.month": "4 Wochen",
+      "History.quarter": "3 Monate",
+      "History.average": "Durchschnitt",
+      "History.daysMet": "Ziel erreicht",
+      "History.currentStreak": "Aktuelle Serie",
+      "History.longestStreak": "Längste Serie",
+      "UpdatePrompt.message": "Eine neue Version ist verfügbar.",
+      "UpdatePrompt.reload": "Neu laden",
     },
   },
   "en-GB": {
     translation: {
       "AppContent.backToRecording": "← Back to Recording",
       "AppContent.editGoals": "Edit Goals ⚙",
-      "DotCountInput.protein": "Protein",
-      "DotCountInput.carbs": "Carbs",
-      "DotCountInput.vegetables": "Vegetables",
-      "DotCountInput.fats": "Fats",
+      "AppContent.history": "History 📅",
+      "AppContent.trends": "Trends 📈",
+      "AppContent.pending": "{{count}} pending",
+      "AppContent.nutrients": "Nutrients 🎨",
+      "AppContent.savedMeals": "Saved Meals 🍱",
+      "SavedMeals.title": "Saved Meals",
+      "SavedMeals.name": "Name",
+      "SavedMeals.newName": "Name of the new meal",
+      "SavedMeals.moveUp": "Move up",
+      "SavedMeals.moveDown": "Move down",
+      "SavedMeals.delete": "Delete {{name}}",
+      "SavedMeals.add": "Add",
+      "Nutrients.title": "Nutrients",
+      "Nutrients.color": "Color",
+      "Nutrients.label": "Name",
+      "Nutrients.newLabel": "Name of the new nutrient",
+      "Nutrients.id": "Identifier, e.g. water",
+      "Nutrients.active": "Shown",
+      "Nutrients.moveUp": "Move up",
+      "Nutrients.moveDown": "Move down",
+      "Nutrients.add": "Add",
+      "EventLog.title": "Entries",
+      "EventLog.empty": "No entries on this day yet.",
+      "EventLog.retract": "Retract entry",
+      "Portions.savedMeals": "Saved meals",
+      "Portions.logSavedMeal": "Record {{name}}",
+      "Portions.previousDay": "Previous day",
+      "Portions.nextDay": "Next day",
+      "Portions.copyFrom": "Copy from another day…",
+      "CopyDay.title": "Copy portions",
+      "CopyDay.source": "Copy from",
+      "CopyDay.empty": "Nothing is recorded on that day.",
+      "CopyDay.copy": "Copy",
+      "CopyDay.cancel": "Cancel",
+      "CopyDay.copied": "Copied the portions of {{date}}",
+      "CopyDay.undo": "Undo",
+      "DotCountInput.value": "Portions of {{label}}: {{count}}",
+      "DotCountInput.valueOfGoal":
+        "{{count}} of {{goal}} portions of {{label}}",
+      "DotCountInput.valueOverGoal":
+        "{{count}} of {{goal}} portions of {{label}}, {{over}} over goal",
+      "DotCountInput.increase": "Add {{label}}",
+      "DotCountInput.decrease": "Remove {{label}}",
+      "DotCountInput.count": "Number of {{label}}",
+      "DotCountInput.set": "Set",
+      "DotCountInput.cancel": "Cancel",
+      "Portions.meal": "Meal",
+      "HalfPortions.label": "½ portions",
+      "ProfileSelect.label": "Profile",
+      "ProfileSelect.new": "New profile…",
+      "ProfileSelect.newName": "Name of the new profile",
+      "AppContent.logout": "Log out",
+      "Login.title": "Log in",
+      "Login.password": "Password",
+      "Login.submit": "Log in",
+      "Login.wrongPassword": "Wrong password.",
+      "Meals.breakfast": "Breakfast",
+      "Meals.lunch": "Lunch",
+      "Meals.dinner": "Dinner",
+      "Meals.snack": "Snack",
+      "Meals.other": "Other",
+      "AppContent.transfer": "Data 💾",
+      "AppContent.settings": "Settings 🕓",
+      "Settings.title": "Settings",
+      "Settings.timeZone": "Time zone",
+      "Settings.deviceTimeZone": "Same as the device ({{timeZone}})",
+      "Settings.dayStart": "The day starts at",
+      "Settings.dayStartHint":
+        "Portions recorded before this time count to the previous day.",
+      "Settings.reminders": "Reminders",
+      "Settings.summary": "Summary of the day",
+      "Settings.remindersHint":
+        "Meals are only reminded of if they are not recorded yet. While the app is closed, reminders only come where the browser checks them in the background, e.g. Chrome for the installed app, and some may be missed.",
+      "Settings.notificationsBlocked":
+        "Notifications are blocked in the browser. Allow them in the site settings to get reminders.",
+      "Settings.notificationsUnsupported":
+        "This browser doesn't support notifications.",
+      "Reminders.mealNotRecorded": "Nothing recorded yet.",
+      "Reminders.summary": "Summary of the day",
+      "Reminders.short": "{{count}} {{nutrient}} short",
+      "Reminders.goalsMet": "All goals met!",
+      "ShortcutHelp.title": "Keyboard shortcuts",
+      "ShortcutHelp.increase": "Add a portion of the nutrient in that row",
+      "ShortcutHelp.decrease": "Remove a portion of the nutrient in that row",
+      "ShortcutHelp.previousDay": "Previous day",
+      "ShortcutHelp.nextDay": "Next day",
+      "ShortcutHelp.today": "Today",
+      "ShortcutHelp.goals": "Open or close the goals",
+      "ShortcutHelp.help": "Show or hide this overview",
+      "ShortcutHelp.close": "Close",
+      "Transfer.title": "Export and import",
+      "Transfer.export": "Export",
+      "Transfer.exportJson": "Download JSON",
+      "Transfer.exportCsv": "Download CSV",
+      "Transfer.csvNote":
+        "CSV contains only the entries, not the nutrients themselves.",
+      "Transfer.import": "Import",
+      "Transfer.invalidFile": "The file is not an export of this app.",
+      "Transfer.preview":
+        "{{portions}} portions on {{days}} days, {{goals}} goal changes and {{nutrients}} nutrients will be added.",
+      "Transfer.duplicates":
+        "{{count}} entries are already present and will be skipped.",
+      "Transfer.conflicts":
+        "These days already have data, the imported entries will be added to it:",
+      "Transfer.confirmImport": "Import",
+      "Transfer.imported": "Data imported",
       "common.loading": "Loading...",
       "common.error": "Error loading data",
       "common.backendError":
         "Error communicating with the backend. Please check your Internet connection.",
+      "common.outboxError":
+        "Error accessing the changes stored on this device. They will be sent again later.",
+      "common.rejected": "Rejected by the backend: {{reason}}",
       "common.selectDate": "Select date",
       "Goals.title": "Daily Goals",
+      "Goals.effectiveFrom": "Effective from",
+      "Goals.history": "Changes",
+      "Trends.title": "Trends",
+      "Trends.range": "Period",
+      "Trends.days": "{{count}} days",
+      "Trends.average": "Avg. {{average}} / goal {{goal}}",
+      "Trends.chart":
+        "{{nutrient}} per day, with the goal and the rolling average",
+      "Trends.rollingAverage": "7-day average",
+      "Trends.goal": "Goal",
+      "History.title": "History",
+      "History.range": "Period",
+      "History.week": "Week",
+      "History.month": "4 weeks",
+      "History.quarter": "3 months",
+      "History.average": "Average",
+      "History.daysMet": "Days on target",
+      "History.currentStreak": "Current streak",
+      "History.longestStreak": "Longest streak",
+      "UpdatePrompt.message": "A new version is available.",
+      "UpdatePrompt.reload": "Reload",
     },
   },
   ja: {
     translation: {
       "AppContent.backToRecording": "← 記録に戻る",
       "AppContent.editGoals": "目標を編集 ⚙",
-      "DotCountInput.protein": "タンパク",
-      "DotCountInput.carbs": "炭水化物",
-      "DotCountInput.vegetables": "野菜",
-      "DotCountInput.fats": "脂肪",
+      "AppContent.history": "履歴 📅",
+      "AppContent.trends": "推移 📈",
+      "AppContent.pending": "保留中: {{count}}",
+      "AppContent.nutrients": "栄養素 🎨",
+      "AppContent.savedMeals": "保存した食事 🍱",
+      "SavedMeals.title": "保存した食事",
+      "SavedMeals.name": "名前",
+      "SavedMeals.newName": "新しい食事の名前",
+      "SavedMeals.moveUp": "上へ",
+      "SavedMeals.moveDown": "下へ",
+      "SavedMeals.delete": "{{name}}を削除",
+      "SavedMeals.add": "追加",
+      "Nutrients.title": "栄養素",
+      "Nutrients.color": "色",
+      "Nutrients.label": "名前",
+      "Nutrients.newLabel": "新しい栄養素の名前",
+      "Nutrients.id": "識別子（例: water）",
+      "Nutrients.active": "表示",
+      "Nutrients.moveUp": "上へ",
+      "Nutrients.moveDown": "下へ",
+      "Nutrients.add": "追加",
+      "EventLog.title": "記録",
+      "EventLog.empty": "この日の記録はまだありません。",
+      "EventLog.retract": "記録を取り消す",
+      "Portions.savedMeals": "保存した食事",
+      "Portions.logSavedMeal": "{{name}}を記録",
+      "Portions.previousDay": "前の日",
+      "Portions.nextDay": "次の日",
+      "Portions.copyFrom": "別の日からコピー…",
+      "CopyDay.title": "ポーションをコピー",
+      "CopyDay.source": "コピー元",
+      "CopyDay.empty": "その日は何も記録されていません。",
+      "CopyDay.copy": "コピー",
+      "CopyDay.cancel": "キャンセル",
+      "CopyDay.copied": "{{date}}のポーションをコピーしました",
+      "CopyDay.undo": "元に戻す",
+      "DotCountInput.value": "{{label}}のポーション: {{count}}",
+      "DotCountInput.valueOfGoal": "{{label}} {{goal}}ポーション中{{count}}",
+      "DotCountInput.valueOverGoal":
+        "{{label}} {{goal}}ポーション中{{count}}、目標を{{over}}超過",
+      "DotCountInput.increase": "{{label}}を追加",
+      "DotCountInput.decrease": "{{label}}を減らす",
+      "DotCountInput.count": "{{label}}の数",
+      "DotCountInput.set": "設定",
+      "DotCountInput.cancel": "キャンセル",
+      "Portions.meal": "食事",
+      "HalfPortions.label": "½ ポーション",
+      "ProfileSelect.label": "プロフィール",
+      "ProfileSelect.new": "新しいプロフィール…",
+      "ProfileSelect.newName": "新しいプロフィールの名前",
+      "AppContent.logout": "ログアウト",
+      "Login.title": "ログイン",
+      "Login.password": "パスワード",
+      "Login.submit": "ログイン",
+      "Login.wrongPassword": "パスワードが違います。",
+      "Meals.breakfast": "朝食",
+      "Meals.lunch": "昼食",
+      "Meals.dinner": "夕食",
+      "Meals.snack": "間食",
+      "Meals.other": "その他",
+      "AppContent.transfer": "データ 💾",
+      "AppContent.settings": "設定 🕓",
+      "Settings.title": "設定",
+      "Settings.timeZone": "タイムゾーン",
+      "Settings.deviceTimeZone": "端末と同じ ({{timeZone}})",
+      "Settings.dayStart": "一日の始まり",
+      "Settings.dayStartHint":
+        "この時刻より前に記録したポーションは前日に含まれます。",
+      "Settings.reminders": "リマインダー",
+      "Settings.summary": "一日のまとめ",
+      "Settings.remindersHint":
+        "食事のリマインダーは、まだ記録されていない場合のみ表示されます。アプリを閉じている間は、ブラウザがバックグラウンドで確認する場合（例: インストールしたアプリの Chrome）のみリマインダーが届き、届かないこともあります。",
+      "Settings.notificationsBlocked":
+        "ブラウザで通知がブロックされています。リマインダーを受け取るには、サイトの設定で許可してください。",
+      "Settings.notificationsUnsupported":
+        "このブラウザは通知に対応していません。",
+      "Reminders.mealNotRecorded": "まだ記録されていません。",
+      "Reminders.summary": "一日のまとめ",
+      "Reminders.short": "{{nutrient}}があと{{count}}",
+      "Reminders.goalsMet": "すべての目標を達成しました！",
+      "ShortcutHelp.title": "キーボードショートカット",
+      "ShortcutHelp.increase": "その行の栄養素を1ポーション追加",
+      "ShortcutHelp.decrease": "その行の栄養素を1ポーション削除",
+      "ShortcutHelp.previousDay": "前の日",
+      "ShortcutHelp.nextDay": "次の日",
+      "ShortcutHelp.today": "今日",
+      "ShortcutHelp.goals": "目標を開く・閉じる",
+      "ShortcutHelp.help": "この一覧を表示・非表示",
+      "ShortcutHelp.close": "閉じる",
+      "Transfer.title": "エクスポートとインポート",
+      "Transfer.export": "エクスポート",
+      "Transfer.exportJson": "JSONをダウンロード",
+      "Transfer.exportCsv": "CSVをダウンロード",
+      "Transfer.csvNote":
+        "CSVには記録のみが含まれ、栄養素の定義は含まれません。",
+      "Transfer.import": "インポート",
+      "Transfer.invalidFile":
+        "このファイルはこのアプリのエクスポートではありません。",
+      "Transfer.preview":
+        "{{days}}日分の{{portions}}ポーション、{{goals}}件の目標変更、{{nutrients}}個の栄養素が追加されます。",
+      "Transfer.duplicates":
+        "{{count}}件はすでに存在するため、スキップされます。",
+      "Transfer.conflicts":
+        "次の日にはすでにデータがあり、インポートした記録が追加されます:",
+      "Transfer.confirmImport": "インポート",
+      "Transfer.imported": "データをインポートしました",
       "common.loading": "読み込み中...",
       "common.error": "データの読み込み中にエラーが発生しました",
       "common.backendError":
         "バックエンドとの通信中にエラーが発生しました。インターネット接続を確認してください。",
+      "common.outboxError":
+        "この端末に保存された変更へのアクセス中にエラーが発生しました。後で再送信されます。",
+      "common.rejected": "バックエンドに拒否されました: {{reason}}",
       "common.selectDate": "日付を選択",
       "Goals.title": "毎日の目標",
+      "Goals.effectiveFrom": "適用開始日",
+      "Goals.history": "変更履歴",
+      "Trends.title": "推移",
+      "Trends.range": "期間",
+      "Trends.days": "{{count}}日間",
+      "Trends.average": "平均 {{average}} / 目標 {{goal}}",
+      "Trends.chart": "1日ごとの{{nutrient}}（目標と移動平均付き）",
+      "Trends.rollingAverage": "7日間の平均",
+      "Trends.goal": "目標",
+      "History.title": "履歴",
+      "History.range": "期間",
+      "History.week": "1週間",
+      "History.month": "4週間",
+      "History.quarter": "3か月",
+      "History.average": "平均",
+      "History.daysMet": "目標達成日",
+      "History.currentStreak": "現在の連続",
+      "History.longestStreak": "最長の連続",
+      "UpdatePrompt.message": "新しいバージョンが利用可能です。",
+      "UpdatePrompt.reload": "再読み込み",
     },
   },
   uk: {
     translation: {
       "AppContent.backToRecording": "← Назад до запису",
       "AppContent.editGoals": "Редагувати цілі ⚙",
-      "DotCountInput.protein": "Білки",
-      "DotCountInput.carbs": "Вуглеводи",
-      "DotCountInput.vegetables": "Овочі",
-      "DotCountInput.fats": "Жири",
+      "AppContent.history": "Історія 📅",
+      "AppContent.trends": "Тенденції 📈",
+      "AppContent.pending": "Очікують: {{count}}",
+      "AppContent.nutrients": "Поживні речовини 🎨",
+      "AppContent.savedMeals": "Збережені страви 🍱",
+      "SavedMeals.title": "Збережені страви",
+      "SavedMeals.name": "Назва",
+      "SavedMeals.newName": "Назва нової страви",
+      "SavedMeals.moveUp": "Вгору",
+      "SavedMeals.moveDown": "Вниз",
+      "SavedMeals.delete": "Видалити {{name}}",
+      "SavedMeals.add": "Додати",
+      "Nutrients.title": "Поживні речовини",
+      "Nutrients.color": "Колір",
+      "Nutrients.label": "Назва",
+      "Nutrients.newLabel": "Назва нової поживної речовини",
+      "Nutrients.id": "Ідентифікатор, напр. water",
+      "Nutrients.active": "Показувати",
+      "Nutrients.moveUp": "Вгору",
+      "Nutrients.moveDown": "Вниз",
+      "Nutrients.add": "Додати",
+      "EventLog.title": "Записи",
+      "EventLog.empty": "Цього дня ще немає записів.",
+      "EventLog.retract": "Скасувати запис",
+      "Portions.savedMeals": "Збережені страви",
+      "Portions.logSavedMeal": "Записати {{name}}",
+      "Portions.previousDay": "Попередній день",
+      "Portions.nextDay": "Наступний день",
+      "Portions.copyFrom": "Копіювати з іншого дня…",
+      "CopyDay.title": "Копіювати порції",
+      "CopyDay.source": "Копіювати з",
+      "CopyDay.empty": "Цього дня нічого не записано.",
+      "CopyDay.copy": "Копіювати",
+      "CopyDay.cancel": "Скасувати",
+      "CopyDay.copied": "Скопійовано порції за {{date}}",
+      "CopyDay.undo": "Відмінити",
+      "DotCountInput.value": "Порції ({{label}}): {{count}}",
+      "DotCountInput.valueOfGoal": "{{count}} з {{goal}} порцій ({{label}})",
+      "DotCountInput.valueOverGoal":
+        "{{count}} з {{goal}} порцій ({{label}}), на {{over}} більше за ціль",
+      "DotCountInput.increase": "Додати: {{label}}",
+      "DotCountInput.decrease": "Прибрати: {{label}}",
+      "DotCountInput.count": "Кількість: {{label}}",
+      "DotCountInput.set": "Встановити",
+      "DotCountInput.cancel": "Скасувати",
+      "Portions.meal": "Прийом їжі",
+      "HalfPortions.label": "½ порції",
+      "ProfileSelect.label": "Профіль",
+      "ProfileSelect.new": "Новий профіль…",
+      "ProfileSelect.newName": "Назва нового профілю",
+      "AppContent.logout": "Вийти",
+      "Login.title": "Увійти",
+      "Login.password": "Пароль",
+      "Login.submit": "Увійти",
+      "Login.wrongPassword": "Неправильний пароль.",
+      "Meals.breakfast": "Сніданок",
+      "Meals.lunch": "Обід",
+      "Meals.dinner": "Вечеря",
+      "Meals.snack": "Перекус",
+      "Meals.other": "Інше",
+      "AppContent.transfer": "Дані 💾",
+      "AppContent.settings": "Налаштування 🕓",
+      "Settings.title": "Налаштування",
+      "Settings.timeZone": "Часовий пояс",
+      "Settings.deviceTimeZone": "Як на пристрої ({{timeZone}})",
+      "Settings.dayStart": "День починається о",
+      "Settings.dayStartHint":
+        "Порції, записані до цього часу, зараховуються до попереднього дня.",
+      "Settings.reminders": "Нагадування",
+      "Settings.summary": "Підсумок дня",
+      "Settings.remindersHint":
+        "Про прийоми їжі нагадується, лише якщо їх ще не записано. Коли застосунок закрито, нагадування надходять лише там, де браузер перевіряє їх у фоні, наприклад Chrome для встановленого застосунку, і деякі можуть не надійти.",
+      "Settings.notificationsBlocked":
+        "Сповіщення заблоковані в браузері. Дозвольте їх у налаштуваннях сайту, щоб отримувати нагадування.",
+      "Settings.notificationsUnsupported":
+        "Цей браузер не підтримує сповіщення.",
+      "Reminders.mealNotRecorded": "Ще нічого не записано.",
+      "Reminders.summary": "Підсумок дня",
+      "Reminders.short": "{{nutrient}}: бракує {{count}}",
+      "Reminders.goalsMet": "Усі цілі досягнуто!",
+      "ShortcutHelp.title": "Клавіатурні скорочення",
+      "ShortcutHelp.increase": "Додати порцію нутрієнта в цьому рядку",
+      "ShortcutHelp.decrease": "Прибрати порцію нутрієнта в цьому рядку",
+      "ShortcutHelp.previousDay": "Попередній день",
+      "ShortcutHelp.nextDay": "Наступний день",
+      "ShortcutHelp.today": "Сьогодні",
+      "ShortcutHelp.goals": "Відкрити або закрити цілі",
+      "ShortcutHelp.help": "Показати або сховати цей перелік",
+      "ShortcutHelp.close": "Закрити",
+      "Transfer.title": "Експорт та імпорт",
+      "Transfer.export": "Експорт",
+      "Transfer.exportJson": "Завантажити JSON",
+      "Transfer.exportCsv": "Завантажити CSV",
+      "Transfer.csvNote":
+        "CSV містить лише записи, без самих поживних речовин.",
+      "Transfer.import": "Імпорт",
+      "Transfer.invalidFile": "Файл не є експортом цього застосунку.",
+      "Transfer.preview":
+        "Буде додано {{portions}} порцій за {{days}} днів, {{goals}} змін цілей та {{nutrients}} поживних речовин.",
+      "Transfer.duplicates": "{{count}} записів уже є, їх буде пропущено.",
+      "Transfer.conflicts":
+        "Для цих днів уже є дані, імпортовані записи буде додано до них:",
+      "Transfer.confirmImport": "Імпортувати",
+      "Transfer.imported": "Дані імпортовано",
       "common.loading": "Завантаження...",
       "common.error": "Помилка завантаження даних",
       "common.backendError":
         "Помилка зв'язку з сервером. Будь ласка, перевірте підключення до Інтернету.",
+      "common.outboxError":
+        "Помилка доступу до змін, збережених на цьому пристрої. Їх буде надіслано пізніше.",
+      "common.rejected": "Сервер відхилив запит: {{reason}}",
       "common.selectDate": "Вибрати дату",
       "Goals.title": "Щоденні цілі",
+      "Goals.effectiveFrom": "Діє з",
+      "Goals.history": "Зміни",
+      "Trends.title": "Тенденції",
+      "Trends.range": "Період",
+      "Trends.days": "{{count}} днів",
+      "Trends.average": "Сер. {{average}} / ціль {{goal}}",
+      "Trends.chart": "{{nutrient}} за день, з ціллю та ковзним середнім",
+      "Trends.rollingAverage": "Середнє за 7 днів",
+      "Trends.goal": "Ціль",
+      "History.title": "Історія",
+      "History.range": "Період",
+      "History.week": "Тиждень",
+      "History.month": "4 тижні",
+      "History.quarter": "3 місяці",
+      "History.average": "Середнє",
+      "History.daysMet": "Днів у цілі",
+      "History.currentStreak": "Поточна серія",
+      "History.longestStreak": "Найдовша серія",
+      "UpdatePrompt.message": "Доступна нова версія.",
+      "UpdatePrompt.reload": "Оновити",
     },
   },
 };
@@ -17,7 +17,13 @@ import index from "./index.html";
 
 const server = serve({
   routes: {
-    // Serve index.html for all unmatched routes.
+    // Files referenced by name from the web app manifest, copied as is to `dist/` on build.
+    "/icons/*": (req) =>
+      new Response(
+        Bun.file(`${import.meta.dir}/../public${new URL(req.url).pathname}`),
+      ),
+    // Serve index.html for all unmatched routes, as the app handles paths like
+    // `/day/2026-10-01` on the client.
     "/*": index,
   },
 
@@ -0,0 +1,346 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import type { QueryClient, QueryKey } from "@tanstack/react-query";
+import { ApiError, type PortionsOfNutrients, sendCommand } from "./api";
+
+/**
+ * A command waiting to be sent to the backend.
+ *
+ * `queryKey` and `deltas` describe how the command changes the cached data, so that
+ * the change can be displayed before the backend confirms it, and applied once it does.
+ * A command changing several nutrients is applied or rejected as a whole. Data under
+ * `invalidateKeys` is affected in other ways, and is refetched instead.
+ */
+export type OutboxCommand = {
+  url: string;
+  // Sent as JSON.
+  body?: unknown;
+  queryKey: QueryKey;
+  invalidateKeys?: QueryKey[];
+  deltas: PortionsOfNutrients;
+};
+
+export type OutboxEntry = OutboxCommand & {
+  id: number;
+  // Sent along with the command, for the backend to apply it only once however many
+  // times it's sent. Absent in commands queued by earlier versions.
+  commandId?: string;
+};
+
+// Commands queued by earlier versions changed a single nutrient.
+type LegacyOutboxEntry = Omit<OutboxEntry, "deltas"> & {
+  deltas?: PortionsOfNutrients;
+  name?: string;
+  delta?: number;
+};
+
+function fromStored({ name, delta, ...entry }: LegacyOutboxEntry): OutboxEntry {
+  return {
+    ...entry,
+    deltas: entry.deltas ?? (name ? { [name]: delta ?? 0 } : {}),
+  };
+}
+
+export interface OutboxStore {
+  list(): Promise<OutboxEntry[]>;
+  add(command: Omit<OutboxEntry, "id">): Promise<OutboxEntry>;
+  replace(entry: OutboxEntry): Promise<void>;
+  remove(id: number): Promise<void>;
+}
+
+export const OUTBOX_QUERY_KEY = ["outbox"];
+
+/**
+ * Returns the sum of the portions of each nutrient.
+ */
+export function addPortions(
+  portions: PortionsOfNutrients,
+  deltas: PortionsOfNutrients,
+) {
+  const sum = { ...portions };
+  for (const [nutrient, delta] of Object.entries(deltas)) {
+    sum[nutrient] = (sum[nutrient] ?? 0) + delta;
+  }
+  return sum;
+}
+
+/**
+ * Returns a random UUID. Unlike `crypto.randomUUID`, it's also available outside of secure
+ * contexts, e.g. when the app is served over plain HTTP in a home network.
+ */
+export function randomUuid() {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  // Marks it as a version 4 UUID, in the RFC 9562 variant.
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = [...bytes].map((b) => b.toString(16).padStart(2, "0")).join("");
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20),
+  ].join("-");
+}
+
+export function memoryOutboxStore(): OutboxStore {
+  let entries: OutboxEntry[] = [];
+  let nextId = 1;
+  return {
+    list: async () => [...entries],
+    add: async (command) => {
+      const entry = { ...command, id: nextId++ };
+      entries.push(entry);
+      return entry;
+    },
+    replace: async (entry) => {
+      entries = entries.map((e) => (e.id === entry.id ? entry : e));
+    },
+    remove: async (id) => {
+      entries = entries.filter((e) => e.id !== id);
+    },
+  };
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function indexedDbOutboxStore(dbName = "ssnt"): OutboxStore {
+  const open = indexedDB.open(dbName, 1);
+  open.onupgradeneeded = () => {
+    open.result.createObjectStore("outbox", {
+      keyPath: "id",
+      autoIncrement: true,
+    });
+  };
+  const db = promisify(open);
+
+  const objectStore = async (mode: IDBTransactionMode) =>
+    (await db).transaction("outbox", mode).objectStore("outbox");
+
+  return {
+    // Keys are auto-incremented, so the entries come out in insertion order.
+    list: async () => {
+      const entries = (await promisify(
+        (await objectStore("readonly")).getAll(),
+      )) as LegacyOutboxEntry[];
+      return entries.map(fromStored);
+    },
+    add: async (command) => {
+      const id = await promisify((await objectStore("readwrite")).add(command));
+      return { ...command, id: id as number };
+    },
+    replace: async (entry) => {
+      await promisify((await objectStore("readwrite")).put(entry));
+    },
+    remove: async (id) => {
+      await promisify((await objectStore("readwrite")).delete(id));
+    },
+  };
+}
+
+/**
+ * A persistent queue of commands that are replayed in order against the backend.
+ *
+ * Commands that fail because the backend could not be reached stay in the queue until
+ * the next flush. Commands that the backend rejects are dropped, as retrying them would
+ * not help.
+ */
+export class Outbox {
+  private flushing: Promise<void> | null = null;
+  private flushAgain = false;
+  // Commands are queued one at a time, so that merging never loses any of them.
+  private queueing: Promise<void> = Promise.resolve();
+  // Entries not to be sent yet, so that the commands following shortly can be merged into
+  // them. They're only held back in memory: after a reload, they're sent right away.
+  private held = new Set<number>();
+  // The entry being sent, which must not change anymore.
+  private sending: number | null = null;
+
+  constructor(private store: OutboxStore) {}
+
+  list() {
+    return this.store.list();
+  }
+
+  enqueue(queryClient: QueryClient, command: OutboxCommand) {
+    return this.queue(queryClient, async () => {
+      await this.store.add({ ...command, commandId: randomUuid() });
+    });
+  }
+
+  /**
+   * Queues a command held back for `holdMs`, or merges it into the last queued command if
+   * that one is still held back. `merge` returns the merged command, or `null` if the
+   * commands can't be merged.
+   *
+   * The flush after `holdMs` is up to the caller.
+   */
+  enqueueHeld(
+    queryClient: QueryClient,
+    command: OutboxCommand,
+    holdMs: number,
+    merge: (
+      queued: OutboxCommand,
+      command: OutboxCommand,
+    ) => OutboxCommand | null,
+  ) {
+    return this.queue(queryClient, async () => {
+      const last = (await this.store.list()).at(-1);
+      const merged =
+        last && this.held.has(last.id) && last.id !== this.sending
+          ? merge(last, command)
+          : null;
+      if (last && merged) {
+        await this.store.replace({
+          ...merged,
+          id: last.id,
+          commandId: last.commandId,
+        });
+      } else {
+        const { id } = await this.store.add({
+          ...command,
+          commandId: randomUuid(),
+        });
+        this.held.add(id);
+        setTimeout(() => this.held.delete(id), holdMs);
+      }
+    });
+  }
+
+  private queue(queryClient: QueryClient, change: () => Promise<void>) {
+    const queued = this.queueing.then(async () => {
+      await change();
+      await this.publish(queryClient);
+    });
+    // A failure is reported to this caller only, the following commands are still queued.
+    this.queueing = queued.catch(() => {});
+    return queued;
+  }
+
+  /**
+   * Sends the queued commands one by one, stopping at the first one that can't reach the backend.
+   *
+   * Only one flush runs at a time. Calling it during a flush schedules another pass after
+   * the current one, so that commands enqueued in the meantime are not left behind.
+   */
+  flush(
+    queryClient: QueryClient,
+    onRejected: (error: ApiError) => void,
+  ): Promise<void> {
+    if (this.flushing) {
+      this.flushAgain = true;
+      return this.flushing;
+    }
+    this.flushing = (async () => {
+      try {
+        do {
+          this.flushAgain = false;
+          await this.flushOnce(queryClient, onRejected);
+        } while (this.flushAgain);
+      } finally {
+        // A failing flush must not keep the following ones from running.
+        this.flushing = null;
+      }
+    })();
+    return this.flushing;
+  }
+
+  /**
+   * Resolves once no flush is running.
+   */
+  async settled() {
+    await this.flushing;
+  }
+
+  private async flushOnce(
+    queryClient: QueryClient,
+    onRejected: (error: ApiError) => void,
+  ) {
+    // Held back commands may still change, so whether they're held back is decided before
+    // reading them. Commands are only merged into those held back by then, or since, as
+    // an entry may be read before it's marked as held back.
+    const held = new Set(this.held);
+    for (const entry of await this.store.list()) {
+      // The following commands wait too, as they're sent in order.
+      if (held.has(entry.id) || this.held.has(entry.id)) {
+        return;
+      }
+      try {
+        this.sending = entry.id;
+        if (!(await this.sendOne(queryClient, onRejected, entry))) {
+          return;
+        }
+      } finally {
+        this.sending = null;
+      }
+    }
+  }
+
+  /**
+   * Sends a command, and returns whether it's done with, i.e. confirmed or rejected.
+   */
+  private async sendOne(
+    queryClient: QueryClient,
+    onRejected: (error: ApiError) => void,
+    entry: OutboxEntry,
+  ) {
+    let rejection: ApiError | null = null;
+    let applied = false;
+    try {
+      applied = await sendCommand(entry.url, entry.commandId, entry.body);
+    } catch (e) {
+      // If the backend is unreachable or the session is over, this and all following
+      // commands are kept for later.
+      if (!(e instanceof ApiError) || e.status === 401) {
+        return false;
+      }
+      rejection = e;
+    }
+
+    await this.store.remove(entry.id);
+    const pending = await this.store.list();
+    // The cached data and the outbox are updated together, so that the command is
+    // never counted twice or not at all.
+    if (rejection === null) {
+      if (applied) {
+        queryClient.setQueryData(
+          entry.queryKey,
+          (data: PortionsOfNutrients | undefined) =>
+            data && addPortions(data, entry.deltas),
+        );
+      } else {
+        // The command was applied when sent before, but its confirmation got lost. The
+        // cached data may or may not include it by now.
+        queryClient.invalidateQueries({ queryKey: entry.queryKey });
+      }
+      for (const queryKey of entry.invalidateKeys ?? []) {
+        queryClient.invalidateQueries({ queryKey });
+      }
+    } else {
+      onRejected(rejection);
+    }
+    queryClient.setQueryData(OUTBOX_QUERY_KEY, pending);
+    return true;
+  }
+
+  private async publish(queryClient: QueryClient) {
+    queryClient.setQueryData(OUTBOX_QUERY_KEY, await this.store.list());
+  }
+}
@@ -0,0 +1,253 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import type { i18n } from "i18next";
+import {
+  MEALS,
+  type Meal,
+  type Nutrient,
+  type PortionsByMeal,
+  type PortionsOfNutrients,
+} from "./api";
+import { dayOf, nutrientLabel, wallClock } from "./common";
+import { routePath } from "./routes";
+import type { Settings } from "./settings";
+
+export type Reminder = Meal | "summary";
+
+// Reminders are skipped rather than shown late, e.g. when the app is opened hours after.
+export const REMINDER_GRACE_MINUTES = 60;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// The tag of the periodic background sync the service worker checks the reminders on.
+export const REMINDERS_SYNC_TAG = "reminders";
+
+/**
+ * The day each reminder was last shown for, by reminder.
+ */
+export type SentReminders = Partial<Record<Reminder, string>>;
+
+/**
+ * Keeps the days the reminders were last shown for. The app and the service worker keep
+ * them in different places, as service workers have no `localStorage`.
+ */
+export interface SentRemindersStore {
+  get(): Promise<SentReminders>;
+  set(sent: SentReminders): Promise<void>;
+}
+
+// Kept per device, like the settings the reminders are configured in.
+const SENT_REMINDERS_STORAGE_KEY = "sentReminders";
+
+export function localSentRemindersStore(): SentRemindersStore {
+  return {
+    get: async () => {
+      try {
+        return JSON.parse(
+          localStorage.getItem(SENT_REMINDERS_STORAGE_KEY) ?? "{}",
+        );
+      } catch {
+        return {};
+      }
+    },
+    set: async (sent) => {
+      localStorage.setItem(SENT_REMINDERS_STORAGE_KEY, JSON.stringify(sent));
+    },
+  };
+}
+
+/**
+ * What the service worker needs for checking the reminders, passed by the app on each check
+ * and kept for checking them in the background.
+ */
+export type ReminderConfig = {
+  settings: Settings;
+  baseUrl: string;
+  profile: number;
+  token: string | null;
+  language: string;
+};
+
+/**
+ * Where the reminders get the data of a day from.
+ */
+export type ReminderData = {
+  meals: (isoDate: string) => Promise<PortionsByMeal>;
+  portions: (isoDate: string) => Promise<PortionsOfNutrients>;
+  goals: (isoDate: string) => Promise<PortionsOfNutrients>;
+  nutrients: () => Promise<Nutrient[]>;
+};
+
+/**
+ * What showing the reminders depends on, which differs between the app and the service worker.
+ */
+export type ReminderEnvironment = {
+  settings: Settings;
+  i18n: Pick<i18n, "t" | "language">;
+  data: ReminderData;
+  sent: SentRemindersStore;
+  notify: (title: string, options: NotificationOptions) => Promise<void>;
+};
+
+/**
+ * Returns the reminders whose time has come on the day `now` counts to, and which were not
+ * shown for that day yet. Times are on the clock of the user's time zone, and count from
+ * the start of the day, so that a reminder at 01:00 with the day starting at 04:00 is the
+ * last one of the day.
+ */
+export function dueReminders(
+  now: Date,
+  settings: Settings,
+  sent: SentReminders,
+): { day: string; reminders: Reminder[] } {
+  const day = dayOf(now, settings);
+  const { hour, minute } = wallClock(now, settings.timeZone);
+  const sinceDayStart = (hours: number, minutes: number) =>
+    (hours * 60 + minutes - settings.dayStartHour * 60 + MINUTES_PER_DAY) %
+    MINUTES_PER_DAY;
+  const current = sinceDayStart(hour, minute);
+
+  const times: [Reminder, string | null | undefined][] = [
+    ...MEALS.map((meal): [Reminder, string | undefined] => [
+      meal,
+      settings.mealReminders[meal],
+    ]),
+    ["summary", settings.summaryTime],
+  ];
+  const reminders = times
+    .filter(([reminder, time]) => {
+      if (!time || sent[reminder] === day) {
+        return false;
+      }
+      const [hours, minutes] = time.split(":").map(Number);
+      const late = current - sinceDayStart(hours, minutes);
+      return late >= 0 && late < REMINDER_GRACE_MINUTES;
+    })
+    .map(([reminder]) => reminder);
+  return { day, reminders };
+}
+
+/**
+ * Returns how many portions are missing to reach each goal, for the nutrients not reaching it.
+ */
+export function shortfalls(
+  portions: PortionsOfNutrients,
+  goals: PortionsOfNutrients,
+  nutrients: string[],
+) {
+  return nutrients
+    .map((nutrient) => ({
+      nutrient,
+      missing: (goals[nutrient] ?? 0) - (portions[nutrient] ?? 0),
+    }))
+    .filter(({ missing }) => missing > 0);
+}
+
+/**
+ * Returns the notification of a reminder for the day, or `null` if there's nothing to
+ * remind of. Meal reminders are only shown if the meal is not recorded yet, the summary
+ * compares the day against the goals.
+ */
+export async function reminderNotification(
+  reminder: Reminder,
+  isoDate: string,
+  { i18n: { t, language }, data }: ReminderEnvironment,
+): Promise<{ title: string; options: NotificationOptions } | null> {
+  let title: string;
+  let body: string;
+  if (reminder === "summary") {
+    const [portions, goals, nutrients] = await Promise.all([
+      data.portions(isoDate),
+      data.goals(isoDate),
+      data.nutrients(),
+    ]);
+    const active = nutrients.filter((n) => n.active);
+    const missing = shortfalls(
+      portions,
+      goals,
+      active.map((n) => n.id),
+    ).map(({ nutrient, missing }) => {
+      const definition = active.find((n) => n.id === nutrient);
+      return t("Reminders.short", {
+        count: missing,
+        nutrient: definition && nutrientLabel(definition, language),
+      });
+    });
+    title = t("Reminders.summary");
+    body =
+      missing.length > 0
+        ? new Intl.ListFormat(language).format(missing)
+        : t("Reminders.goalsMet");
+  } else {
+    const meals = await data
+      .meals(isoDate)
+      // Better to remind of a recorded meal than to miss reminding of one.
+      .catch((): PortionsByMeal => ({}));
+    if (Object.values(meals[reminder] ?? {}).some((n) => n > 0)) {
+      return null;
+    }
+    title = t(`Meals.${reminder}`);
+    body = t("Reminders.mealNotRecorded");
+  }
+  return {
+    title,
+    options: {
+      body,
+      tag: reminder,
+      icon: "/icons/icon-192.png",
+      // Opened on click by the service worker.
+      data: { url: routePath({ view: "portions", date: isoDate }) },
+    },
+  };
+}
+
+/**
+ * Shows the reminders due at `now` that were not shown for the day yet.
+ */
+export async function showDueReminders(now: Date, env: ReminderEnvironment) {
+  const sent = await env.sent.get();
+  const { day, reminders } = dueReminders(now, env.settings, sent);
+  if (reminders.length === 0) {
+    return;
+  }
+  // Marked before showing them, so that a check running meanwhile doesn't repeat them.
+  await env.sent.set({
+    ...sent,
+    ...Object.fromEntries(reminders.map((reminder) => [reminder, day])),
+  });
+  for (const reminder of reminders) {
+    try {
+      const notification = await reminderNotification(reminder, day, env);
+      if (notification) {
+        await env.notify(notification.title, notification.options);
+      }
+    } catch {
+      // Without the data, e.g. when offline, the summary is skipped for the day.
+    }
+  }
+}
+
+/**
+ * Shows a notification, through the service worker where there is one. Some browsers,
+ * e.g. on Android, only support notifications shown by a service worker.
+ */
+export async function notify(title: string, options: NotificationOptions) {
+  const registration = await navigator.serviceWorker?.getRegistration();
+  if (registration) {
+    await registration.showNotification(title, options);
+  } else {
+    new Notification(title, options);
+  }
+}
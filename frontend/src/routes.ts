@@ -0,0 +1,95 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { useCallback, useSyncExternalStore } from "react";
+import { fromIsoDate, toIsoDate } from "./common";
+
+export const VIEWS = [
+  "portions",
+  "goals",
+  "history",
+  "trends",
+  "nutrients",
+  "saved-meals",
+  "transfer",
+  "settings",
+] as const;
+export type View = (typeof VIEWS)[number];
+
+/**
+ * What the app displays, as given by the URL. Without a date, the portions are those of
+ * today, whichever day that is by now.
+ */
+export type Route = { view: View; date?: string };
+
+function isIsoDate(value: string) {
+  const date = fromIsoDate(value);
+  return !Number.isNaN(date.getTime()) && toIsoDate(date) === value;
+}
+
+/**
+ * Returns the route for a path. Unknown paths lead to the portions of today.
+ */
+export function parseRoute(path: string): Route {
+  const [, first, second, ...rest] = path.split("/");
+  if (first === "day" && second && rest.length === 0 && isIsoDate(second)) {
+    return { view: "portions", date: second };
+  }
+  const view = VIEWS.find((v) => v === first && v !== "portions");
+  if (view && !second) {
+    return { view };
+  }
+  return { view: "portions" };
+}
+
+export function routePath({ view, date }: Route) {
+  if (view === "portions") {
+    return date ? `/day/${date}` : "/";
+  }
+  return `/${view}`;
+}
+
+// `pushState` doesn't emit any event, so the components are notified directly.
+const listeners = new Set<() => void>();
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  window.addEventListener("popstate", listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("popstate", listener);
+  };
+}
+
+function currentPath() {
+  return window.location.pathname;
+}
+
+/**
+ * Returns the current route, and a function to navigate to another one. Each navigation
+ * adds an entry to the browser history, so that back and forward buttons walk through them.
+ */
+export function useRoute() {
+  const path = useSyncExternalStore(subscribe, currentPath);
+  const navigate = useCallback((route: Route) => {
+    const path = routePath(route);
+    if (path !== currentPath()) {
+      window.history.pushState(null, "", path);
+      for (const listener of listeners) {
+        listener();
+      }
+    }
+  }, []);
+  return [parseRoute(path), navigate] as const;
+}
@@ -0,0 +1,97 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { REMINDERS_SYNC_TAG } from "./reminders";
+
+// Updates are checked for periodically, as an installed app may stay open for days.
+const UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+// Periodic background sync is not in the DOM types, as only some browsers support it.
+type PeriodicSyncManager = {
+  register(tag: string, options?: { minInterval?: number }): Promise<void>;
+  unregister(tag: string): Promise<void>;
+};
+
+// How often the reminders are asked to be checked in the background. Browsers check less
+// often, depending on how much the app is used.
+const BACKGROUND_REMINDER_INTERVAL_MS = 15 * 60 * 1000;
+
+/**
+ * Has the service worker delete what it keeps of the session: the responses kept for
+ * displaying offline, and what it checks the reminders with.
+ */
+export function clearSessionCaches() {
+  navigator.serviceWorker?.controller?.postMessage("clearSessionCaches");
+}
+
+/**
+ * Has the service worker check the reminders in the background, or stop doing so, where the
+ * browser supports periodic background sync, e.g. Chrome for the installed app.
+ */
+export async function syncRemindersInBackground(enabled: boolean) {
+  const registration = await navigator.serviceWorker?.getRegistration();
+  const periodicSync = (
+    registration as { periodicSync?: PeriodicSyncManager } | undefined
+  )?.periodicSync;
+  if (!periodicSync) {
+    return;
+  }
+  if (enabled) {
+    await periodicSync.register(REMINDERS_SYNC_TAG, {
+      minInterval: BACKGROUND_REMINDER_INTERVAL_MS,
+    });
+  } else {
+    await periodicSync.unregister(REMINDERS_SYNC_TAG);
+  }
+}
+
+/**
+ * Registers the service worker built from `sw.ts`.
+ *
+ * @param onUpdateAvailable - Called when a new version of the app has been downloaded.
+ *                            The function it receives switches to the new version and reloads the page.
+ */
+export async function registerServiceWorker(
+  onUpdateAvailable: (applyUpdate: () => void) => void,
+) {
+  const registration = await navigator.serviceWorker.register("./sw.js");
+  let updating = false;
+
+  const offerUpdate = (worker: ServiceWorker) =>
+    onUpdateAvailable(() => {
+      updating = true;
+      worker.postMessage("skipWaiting");
+    });
+
+  // Without a controller, the worker is the first one installed rather than an update.
+  if (registration.waiting && navigator.serviceWorker.controller) {
+    offerUpdate(registration.waiting);
+  }
+  registration.addEventListener("updatefound", () => {
+    const worker = registration.installing;
+    worker?.addEventListener("statechange", () => {
+      if (worker.state === "installed" && navigator.serviceWorker.controller) {
+        offerUpdate(worker);
+      }
+    });
+  });
+
+  navigator.serviceWorker.addEventListener("controllerchange", () => {
+    if (updating) {
+      window.location.reload();
+    }
+  });
+
+  setInterval(() => registration.update(), UPDATE_CHECK_INTERVAL_MS);
+}
@@ -0,0 +1,74 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { createContext } from "react";
+import * as z from "zod/mini";
+import { Meal } from "./api";
+
+function isTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat(undefined, { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// A time of day like "20:30", as given by time inputs.
+export const TimeOfDay = z.string().check(z.regex(/^([01]\d|2[0-3]):[0-5]\d$/));
+
+export const Settings = z.object({
+  // An IANA time zone like "Asia/Tokyo", or null for the one of the device.
+  timeZone: z.nullable(z.string().check(z.refine(isTimeZone))),
+  // Times before this hour count to the previous day, e.g. for working night shifts.
+  dayStartHour: z.int().check(z.gte(0), z.lte(23)),
+  // When to remind of recording each meal, if it's not recorded by then.
+  mealReminders: z.partialRecord(Meal, TimeOfDay),
+  // When to sum up the day against the goals, or null for not doing it.
+  summaryTime: z.nullable(TimeOfDay),
+});
+export type Settings = z.infer<typeof Settings>;
+
+export const DEFAULT_SETTINGS: Settings = {
+  timeZone: null,
+  dayStartHour: 0,
+  mealReminders: {},
+  summaryTime: null,
+};
+
+// The settings are kept per device, like the language.
+const SETTINGS_STORAGE_KEY = "settings";
+
+/**
+ * Returns the stored settings. Missing or invalid ones are replaced by the defaults.
+ */
+export function storedSettings(): Settings {
+  let json: unknown;
+  try {
+    json = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) ?? "{}");
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+  const stored = z.partial(Settings).safeParse(json);
+  return { ...DEFAULT_SETTINGS, ...stored.data };
+}
+
+export function storeSettings(settings: Settings) {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
+
+/**
+ * The settings of this device.
+ */
+export const UserSettings = createContext(DEFAULT_SETTINGS);
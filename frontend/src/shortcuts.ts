@@ -0,0 +1,66 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { useEffect, useRef } from "react";
+
+/**
+ * Whether a key press is meant for the app, rather than for a form field or the browser.
+ */
+function isShortcut(event: KeyboardEvent) {
+  if (
+    event.ctrlKey ||
+    event.metaKey ||
+    event.altKey ||
+    event.defaultPrevented
+  ) {
+    return false;
+  }
+  const target = event.target;
+  return !(
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLSelectElement ||
+    target instanceof HTMLTextAreaElement ||
+    (target instanceof HTMLElement && target.isContentEditable)
+  );
+}
+
+/**
+ * Calls `onKey` for the key presses meant for the app, as long as the component is mounted.
+ */
+export function useShortcuts(onKey: (event: KeyboardEvent) => void) {
+  // Kept in a ref, so that the listener doesn't need to be replaced on every render.
+  const onKeyRef = useRef(onKey);
+  onKeyRef.current = onKey;
+
+  useEffect(() => {
+    const listener = (event: KeyboardEvent) => {
+      if (isShortcut(event)) {
+        onKeyRef.current(event);
+      }
+    };
+    window.addEventListener("keydown", listener);
+    return () => window.removeEventListener("keydown", listener);
+  }, []);
+}
+
+/**
+ * Returns the digit from 1 to 9 of a number key, or null for other keys.
+ *
+ * It's taken from the physical key, as with shift held `key` is a symbol depending on the
+ * keyboard layout.
+ */
+export function digitKey(event: KeyboardEvent) {
+  const match = /^(?:Digit|Numpad)([1-9])$/.exec(event.code);
+  return match ? Number(match[1]) : null;
+}
@@ -0,0 +1,230 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/// <reference lib="webworker" />
+
+/**
+ * Service worker making the app usable without a connection to the server.
+ *
+ * It's built separately from the app, as it must be served under a fixed URL. `BUILD_ID`
+ * changes with each build, which makes the browser pick up the new worker and the app
+ * offer to reload into the new version.
+ *
+ * It also checks the reminders, on behalf of the open app and in the background.
+ */
+
+import i18next from "i18next";
+import * as z from "zod/mini";
+import { Nutrient, PortionsByMeal, PortionsOfNutrients } from "./api";
+import { TRANSLATIONS } from "./i18n";
+import {
+  REMINDERS_SYNC_TAG,
+  type ReminderConfig,
+  type ReminderData,
+  type SentReminders,
+  showDueReminders,
+} from "./reminders";
+
+// Periodic background sync is not in the worker types, as only some browsers support it.
+type PeriodicSyncEvent = ExtendableEvent & { tag: string };
+
+const worker = self as unknown as ServiceWorkerGlobalScope;
+
+const SHELL_CACHE = `shell-${process.env.BUILD_ID}`;
+const API_CACHE = "api";
+// What the reminders are checked with, and the days they were shown for.
+const REMINDERS_CACHE = "reminders";
+// Queries whose last response is kept for displaying offline.
+const CACHED_QUERY =
+  /\/(nutrients|profiles|goals\/history|days\/[^/]+\/(goals|portions|meals))$/;
+
+async function precacheShell() {
+  const cache = await caches.open(SHELL_CACHE);
+  const index = await fetch("./", { cache: "no-cache" });
+  // The bundler gives the assets hashed names, the only list of them is index.html.
+  const html = await index.clone().text();
+  const assets = [...html.matchAll(/(?:src|href)="(\.\/[^"]+)"/g)].map(
+    (m) => m[1],
+  );
+  await cache.addAll(assets);
+  await cache.put("./", index);
+}
+
+async function deleteOldShells() {
+  for (const key of await caches.keys()) {
+    if (key.startsWith("shell-") && key !== SHELL_CACHE) {
+      await caches.delete(key);
+    }
+  }
+}
+
+async function fromNetworkOrCache(request: Request) {
+  const cache = await caches.open(API_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      await cache.put(request, response.clone());
+    }
+    return response;
+  } catch (e) {
+    const cached = await cache.match(request);
+    if (cached) {
+      return cached;
+    }
+    throw e;
+  }
+}
+
+async function storedReminderValue<T>(key: string): Promise<T | undefined> {
+  const cache = await caches.open(REMINDERS_CACHE);
+  return (await cache.match(key))?.json();
+}
+
+async function storeReminderValue(key: string, value: unknown) {
+  const cache = await caches.open(REMINDERS_CACHE);
+  await cache.put(key, Response.json(value));
+}
+
+/**
+ * Gets the data of the reminders from the backend with the session of the app, or from the
+ * responses kept for displaying offline.
+ */
+function reminderData({
+  baseUrl,
+  profile,
+  token,
+}: ReminderConfig): ReminderData {
+  const profileUrl = `${baseUrl}/profiles/${profile}`;
+  const receive = async <T>(schema: z.ZodMiniType<T>, url: string) => {
+    const response = await fromNetworkOrCache(
+      new Request(url, {
+        headers: token === null ? {} : { Authorization: `Bearer ${token}` },
+      }),
+    );
+    if (!response.ok) {
+      throw new Error(`${url}: ${response.status}`);
+    }
+    return schema.parse(await response.json());
+  };
+  return {
+    meals: (isoDate) =>
+      receive(PortionsByMeal, `${profileUrl}/days/${isoDate}/meals`),
+    portions: (isoDate) =>
+      receive(PortionsOfNutrients, `${profileUrl}/days/${isoDate}/portions`),
+    goals: (isoDate) =>
+      receive(PortionsOfNutrients, `${profileUrl}/days/${isoDate}/goals`),
+    nutrients: () => receive(z.array(Nutrient), `${baseUrl}/nutrients`),
+  };
+}
+
+async function checkReminders(config: ReminderConfig) {
+  if (Notification.permission !== "granted") {
+    return;
+  }
+  const i18n = i18next.createInstance();
+  await i18n.init({
+    lng: config.language,
+    fallbackLng: "en-GB",
+    resources: TRANSLATIONS,
+  });
+  await showDueReminders(new Date(), {
+    settings: config.settings,
+    i18n,
+    data: reminderData(config),
+    sent: {
+      get: async () => (await storedReminderValue<SentReminders>("sent")) ?? {},
+      set: (sent) => storeReminderValue("sent", sent),
+    },
+    notify: (title, options) =>
+      worker.registration.showNotification(title, options),
+  });
+}
+
+async function fromShellOrNetwork(request: Request) {
+  const cache = await caches.open(SHELL_CACHE);
+  // The app does routing on the client, so every page is index.html.
+  const cached = await cache.match(
+    request.mode === "navigate" ? "./" : request,
+  );
+  return cached ?? fetch(request);
+}
+
+worker.addEventListener("install", (event) => {
+  event.waitUntil(precacheShell());
+});
+
+worker.addEventListener("activate", (event) => {
+  event.waitUntil(deleteOldShells().then(() => worker.clients.claim()));
+});
+
+worker.addEventListener("message", (event) => {
+  if (event.data === "skipWaiting") {
+    worker.skipWaiting();
+  } else if (event.data === "clearSessionCaches") {
+    event.waitUntil(
+      Promise.all([caches.delete(API_CACHE), caches.delete(REMINDERS_CACHE)]),
+    );
+  } else if (event.data?.type === "checkReminders") {
+    const config: ReminderConfig = event.data.config;
+    // Kept for checking them in the background, when the app is not there to pass it.
+    event.waitUntil(
+      storeReminderValue("config", config).then(() => checkReminders(config)),
+    );
+  }
+});
+
+worker.addEventListener("periodicsync", (event) => {
+  const sync = event as PeriodicSyncEvent;
+  if (sync.tag === REMINDERS_SYNC_TAG) {
+    sync.waitUntil(
+      storedReminderValue<ReminderConfig>("config").then(
+        (config) => config && checkReminders(config),
+      ),
+    );
+  }
+});
+
+worker.addEventListener("fetch", (event) => {
+  if (event.request.method !== "GET") {
+    return;
+  }
+  const url = new URL(event.request.url);
+  // Pages of the app may have the same path as queries, e.g. /nutrients.
+  if (event.request.mode === "navigate") {
+    if (url.origin === worker.location.origin) {
+      event.respondWith(fromShellOrNetwork(event.request));
+    }
+  } else if (CACHED_QUERY.test(url.pathname)) {
+    event.respondWith(fromNetworkOrCache(event.request));
+  } else if (url.origin === worker.location.origin) {
+    event.respondWith(fromShellOrNetwork(event.request));
+  }
+});
+
+// Opens the app on the day the notification is about, in the open window if there is one.
+worker.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = event.notification.data?.url ?? "./";
+  event.waitUntil(
+    (async () => {
+      const [client] = await worker.clients.matchAll({ type: "window" });
+      if (client) {
+        await client.focus();
+        await client.navigate(url);
+      } else {
+        await worker.clients.openWindow(url);
+      }
+    })(),
+  );
+});
@@ -25,6 +25,7 @@ import { screen, waitFor } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
 import AppContent from "../components/AppContent";
 import { setupI18n } from "../i18n";
+import { memoryOutboxStore, Outbox } from "../outbox";
 import { formatDate, renderWithClient } from "./utils";
 
 describe("AppContent", () => {
@@ -41,6 +42,7 @@ describe("AppContent", () => {
 
     const mockFetch = mock(() =>
       Promise.resolve({
+        ok: true,
         json: () => Promise.resolve(mockData),
       } as Response),
     );
@@ -72,6 +74,33 @@ describe("AppContent", () => {
     ).toBeInTheDocument();
   });
 
+  it("starts with the default settings when the stored ones are corrupt", () => {
+    localStorage.setItem("settings", "{corrupt");
+    renderWithClient(<AppContent />);
+    localStorage.removeItem("settings");
+
+    expect(
+      screen.getByRole("button", { name: "Edit Goals ⚙" }),
+    ).toBeInTheDocument();
+  });
+
+  it("switches to History view and back", async () => {
+    const user = userEvent.setup();
+    renderWithClient(<AppContent />);
+
+    await user.click(screen.getByRole("button", { name: "History 📅" }));
+    expect(
+      screen.getByRole("combobox", { name: "Period" }),
+    ).toBeInTheDocument();
+
+    await user.click(
+      screen.getByRole("button", { name: "← Back to Recording" }),
+    );
+    expect(
+      screen.getByRole("button", { name: "History 📅" }),
+    ).toBeInTheDocument();
+  });
+
   it("resets date to current date when switching between Portions and Goals views", async () => {
     const user = userEvent.setup();
     renderWithClient(<AppContent />);
@@ -80,7 +109,7 @@ describe("AppContent", () => {
       expect(screen.getByText(formatDate("2024-01-15"))).toBeInTheDocument();
     });
 
-    await user.click(screen.getByRole("button", { name: ">" }));
+    await user.click(screen.getByRole("button", { name: "Next day" }));
 
     await waitFor(() => {
       expect(screen.getByText(formatDate("2024-01-16"))).toBeInTheDocument();
@@ -111,7 +140,7 @@ describe("AppContent", () => {
     });
 
     const proteinSection = screen
-      .getByText(/protein/i)
+      .getByRole("spinbutton", { name: "Protein" })
       .closest(".nutrient-row");
     const filledDots = proteinSection?.querySelectorAll(
       ".dot.filled:not(.excess)",
@@ -149,6 +178,40 @@ describe("AppContent", () => {
     ).toBeInTheDocument();
   });
 
+  it("switches the profile and remembers it", async () => {
+    globalThis.fetch = mock((url: string) =>
+      Promise.resolve({
+        ok: true,
+        json: () =>
+          Promise.resolve(
+            url.endsWith("/profiles")
+              ? [
+                  { id: 1, name: "Alice" },
+                  { id: 2, name: "Bob" },
+                ]
+              : mockData,
+          ),
+      } as Response),
+    ) as unknown as typeof fetch;
+    const user = userEvent.setup();
+    renderWithClient(<AppContent />);
+
+    const profileSelect = await screen.findByRole("combobox", {
+      name: "Profile",
+    });
+    expect(profileSelect).toHaveValue("1");
+    await user.selectOptions(profileSelect, "2");
+
+    await waitFor(() => {
+      expect(globalThis.fetch).toHaveBeenCalledWith(
+        "http://test-api/profiles/2/days/2024-01-15/portions",
+        expect.anything(),
+      );
+    });
+    expect(localStorage.getItem("profile")).toBe("2");
+    localStorage.removeItem("profile");
+  });
+
   it("persists language selection", async () => {
     const user = userEvent.setup();
     renderWithClient(<AppContent />);
@@ -182,4 +245,117 @@ describe("AppContent", () => {
     const languageSelect = screen.getByRole("combobox", { name: "Language" });
     expect(languageSelect).toHaveValue("de");
   });
+
+  it("shows the number of pending commands and replays them on startup", async () => {
+    const store = memoryOutboxStore();
+    await store.add({
+      url: "http://test-api/profiles/1/days/2024-01-15/portions/protein/consume",
+      queryKey: ["portions", 1, "2024-01-15"],
+      deltas: { protein: 1 },
+    });
+
+    globalThis.fetch = mock((_url, options?: RequestInit) =>
+      options?.method === "POST"
+        ? Promise.reject(new Error("Network error"))
+        : Promise.resolve({
+            ok: true,
+            json: () => Promise.resolve(mockData),
+          } as Response),
+    ) as unknown as typeof fetch;
+
+    renderWithClient(<AppContent />, new Outbox(store));
+
+    await waitFor(() => {
+      expect(screen.getByText("1 pending")).toBeInTheDocument();
+    });
+    expect(globalThis.fetch).toHaveBeenCalledWith(
+      "http://test-api/profiles/1/days/2024-01-15/portions/protein/consume",
+      expect.objectContaining({ method: "POST" }),
+    );
+  });
+
+  it("reports when the commands stored on the device can't be accessed", async () => {
+    const store = memoryOutboxStore();
+    store.list = () => Promise.reject(new Error("Storage error"));
+
+    renderWithClient(<AppContent />, new Outbox(store));
+
+    expect(
+      await screen.findByText(
+        "Error accessing the changes stored on this device. They will be sent again later.",
+      ),
+    ).toBeInTheDocument();
+  });
+
+  it("opens the day in the URL", async () => {
+    window.history.replaceState(null, "", "/day/2024-01-10");
+    renderWithClient(<AppContent />);
+
+    expect(
+      await screen.findByText(formatDate("2024-01-10")),
+    ).toBeInTheDocument();
+    expect(globalThis.fetch).toHaveBeenCalledWith(
+      "http://test-api/profiles/1/days/2024-01-10/portions",
+      expect.anything(),
+    );
+  });
+
+  it("keeps the view and the day in the URL", async () => {
+    const user = userEvent.setup();
+    renderWithClient(<AppContent />);
+
+    await user.click(await screen.findByRole("button", { name: "Next day" }));
+    expect(window.location.pathname).toBe("/day/2024-01-16");
+
+    await user.click(screen.getByRole("button", { name: "History 📅" }));
+    expect(window.location.pathname).toBe("/history");
+
+    await user.click(
+      screen.getByRole("button", { name: "← Back to Recording" }),
+    );
+    expect(window.location.pathname).toBe("/");
+  });
+
+  it("follows the browser history", async () => {
+    const user = userEvent.setup();
+    renderWithClient(<AppContent />);
+
+    await user.click(
+      await screen.findByRole("button", { name: "Previous day" }),
+    );
+    expect(
+      await screen.findByText(formatDate("2024-01-14")),
+    ).toBeInTheDocument();
+    await user.click(screen.getByRole("button", { name: "Edit Goals ⚙" }));
+
+    window.history.back();
+    expect(
+      await screen.findByText(formatDate("2024-01-14")),
+    ).toBeInTheDocument();
+
+    window.history.back();
+    expect(
+      await screen.findByText(formatDate("2024-01-15")),
+    ).toBeInTheDocument();
+  });
+
+  it("toggles the goals and the list of shortcuts by keyboard", async () => {
+    const user = userEvent.setup();
+    renderWithClient(<AppContent />);
+    await screen.findByText(formatDate("2024-01-15"));
+
+    await user.keyboard("g");
+    expect(window.location.pathname).toBe("/goals");
+    await user.keyboard("g");
+    expect(window.location.pathname).toBe("/");
+
+    await user.keyboard("?");
+    expect(
+      screen.getByRole("dialog", { name: "Keyboard shortcuts" }),
+    ).toBeInTheDocument();
+    expect(screen.getByText("Previous day")).toBeInTheDocument();
+
+    await user.keyboard("{Escape}");
+    expect(screen.queryByRole("dialog")).not.toBeInTheDocument();
+  });
 });
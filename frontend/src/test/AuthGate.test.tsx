@@ -0,0 +1,231 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
+import { act, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { sessionToken, setSessionToken, UNAUTHORIZED_EVENT } from "@/auth";
+import { NUTRIENTS_QUERY_KEY } from "@/common";
+import AppContent from "../components/AppContent";
+import AuthGate from "../components/AuthGate";
+import { renderWithClient } from "./utils";
+
+describe("AuthGate component", () => {
+  const mockFetch = mock();
+  const postToWorker = mock();
+
+  const respond = (required: boolean) =>
+    mockFetch.mockImplementation((url: string, options?: RequestInit) => {
+      if (url.endsWith("/auth")) {
+        return Promise.resolve({
+          ok: true,
+          status: 200,
+          json: () => Promise.resolve({ required }),
+        } as Response);
+      }
+      if (url.endsWith("/login")) {
+        const { password } = JSON.parse(options?.body as string);
+        return Promise.resolve(
+          password === "secret"
+            ? ({
+                ok: true,
+                status: 200,
+                json: () => Promise.resolve({ token: "abc" }),
+              } as Response)
+            : ({
+                ok: false,
+                status: 401,
+                text: () => Promise.resolve("Wrong password"),
+              } as Response),
+        );
+      }
+      return Promise.resolve({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve({}),
+      } as Response);
+    });
+
+  beforeEach(() => {
+    mock.clearAllMocks();
+    globalThis.fetch = mockFetch as unknown as typeof fetch;
+    Object.defineProperty(navigator, "serviceWorker", {
+      value: { controller: { postMessage: postToWorker } },
+      configurable: true,
+    });
+  });
+
+  afterEach(() => {
+    setSessionToken(null);
+    Reflect.deleteProperty(navigator, "serviceWorker");
+    mock.restore();
+  });
+
+  it("displays the app when authentication is disabled", async () => {
+    respond(false);
+    renderWithClient(
+      <AuthGate>
+        <div>App</div>
+      </AuthGate>,
+    );
+
+    expect(await screen.findByText("App")).toBeInTheDocument();
+  });
+
+  it("displays the app when the backend can't be reached", async () => {
+    mockFetch.mockImplementation(() =>
+      Promise.reject(new Error("Network error")),
+    );
+    renderWithClient(
+      <AuthGate>
+        <div>App</div>
+      </AuthGate>,
+    );
+
+    expect(await screen.findByText("App")).toBeInTheDocument();
+  });
+
+  it("logs in before displaying the app", async () => {
+    respond(true);
+    const user = userEvent.setup();
+    renderWithClient(
+      <AuthGate>
+        <div>App</div>
+      </AuthGate>,
+    );
+
+    const password = await screen.findByLabelText("Password");
+    await user.type(password, "guess");
+    await user.click(screen.getByRole("button", { name: "Log in" }));
+    expect(await screen.findByText("Wrong password.")).toBeInTheDocument();
+
+    await user.clear(password);
+    await user.type(password, "secret");
+    await user.click(screen.getByRole("button", { name: "Log in" }));
+
+    expect(await screen.findByText("App")).toBeInTheDocument();
+    expect(sessionToken()).toBe("abc");
+  });
+
+  it("returns to the login screen when the session is rejected", async () => {
+    respond(true);
+    setSessionToken("abc");
+    renderWithClient(
+      <AuthGate>
+        <div>App</div>
+      </AuthGate>,
+    );
+    expect(await screen.findByText("App")).toBeInTheDocument();
+
+    act(() => {
+      window.dispatchEvent(new Event(UNAUTHORIZED_EVENT));
+    });
+
+    expect(await screen.findByLabelText("Password")).toBeInTheDocument();
+  });
+
+  it("forgets the data of the session when it is rejected", async () => {
+    respond(true);
+    setSessionToken("abc");
+    const { queryClient } = renderWithClient(
+      <AuthGate>
+        <div>App</div>
+      </AuthGate>,
+    );
+    expect(await screen.findByText("App")).toBeInTheDocument();
+
+    act(() => {
+      window.dispatchEvent(new Event(UNAUTHORIZED_EVENT));
+    });
+
+    expect(await screen.findByLabelText("Password")).toBeInTheDocument();
+    expect(queryClient.getQueryData(NUTRIENTS_QUERY_KEY)).toBeUndefined();
+    expect(postToWorker).toHaveBeenCalledWith("clearSessionCaches");
+  });
+
+  it("logs out from the header row", async () => {
+    respond(true);
+    setSessionToken("abc");
+    const user = userEvent.setup();
+    renderWithClient(
+      <AuthGate>
+        <AppContent />
+      </AuthGate>,
+    );
+
+    await user.click(await screen.findByRole("button", { name: "Log out" }));
+
+    expect(await screen.findByLabelText("Password")).toBeInTheDocument();
+    expect(sessionToken()).toBeNull();
+    await waitFor(() => {
+      expect(mockFetch).toHaveBeenCalledWith(
+        "http://test-api/logout",
+        expect.objectContaining({ method: "POST" }),
+      );
+    });
+  });
+
+  it("logs out when the backend can't be reached", async () => {
+    respond(true);
+    setSessionToken("abc");
+    const user = userEvent.setup();
+    renderWithClient(
+      <AuthGate>
+        <AppContent />
+      </AuthGate>,
+    );
+    const logOut = await screen.findByRole("button", { name: "Log out" });
+    mockFetch.mockImplementation(() =>
+      Promise.reject(new Error("Network error")),
+    );
+
+    await user.click(logOut);
+
+    expect(await screen.findByLabelText("Password")).toBeInTheDocument();
+    expect(sessionToken()).toBeNull();
+  });
+
+  it("forgets the data of the session when logging out", async () => {
+    respond(true);
+    setSessionToken("abc");
+    const user = userEvent.setup();
+    const { queryClient } = renderWithClient(
+      <AuthGate>
+        <AppContent />
+      </AuthGate>,
+    );
+
+    await user.click(await screen.findByRole("button", { name: "Log out" }));
+
+    expect(await screen.findByLabelText("Password")).toBeInTheDocument();
+    expect(queryClient.getQueryData(NUTRIENTS_QUERY_KEY)).toBeUndefined();
+    expect(postToWorker).toHaveBeenCalledWith("clearSessionCaches");
+  });
+
+  it("doesn't offer logging out when authentication is disabled", async () => {
+    respond(false);
+    renderWithClient(
+      <AuthGate>
+        <AppContent />
+      </AuthGate>,
+    );
+
+    expect(
+      await screen.findByRole("button", { name: "Edit Goals ⚙" }),
+    ).toBeInTheDocument();
+    expect(
+      screen.queryByRole("button", { name: "Log out" }),
+    ).not.toBeInTheDocument();
+  });
+});
@@ -13,7 +13,7 @@
 // limitations under the License.
 
 import { describe, expect, it, mock } from "bun:test";
-import { render, screen } from "@testing-library/react";
+import { fireEvent, render, screen } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
 import { DotCountInput } from "../components/DotCountInput";
 
@@ -23,6 +23,7 @@ describe("DotCountInput", () => {
       render(
         <DotCountInput
           name="protein"
+          label="Protein"
           count={3}
           onIncrease={() => {}}
           onDecrease={() => {}}
@@ -30,14 +31,19 @@ describe("DotCountInput", () => {
       );
 
       expect(screen.getByText(/Protein/)).toBeInTheDocument();
-      expect(screen.getByRole("button", { name: "+" })).toBeInTheDocument();
-      expect(screen.getByRole("button", { name: "−" })).toBeInTheDocument();
+      expect(
+        screen.getByRole("button", { name: "Add Protein" }),
+      ).toBeInTheDocument();
+      expect(
+        screen.getByRole("button", { name: "Remove Protein" }),
+      ).toBeInTheDocument();
     });
 
     it("renders correct number of filled dots", () => {
       const { container } = render(
         <DotCountInput
           name="protein"
+          label="Protein"
           count={5}
           onIncrease={() => {}}
           onDecrease={() => {}}
@@ -52,13 +58,16 @@ describe("DotCountInput", () => {
       const { container } = render(
         <DotCountInput
           name="carbs"
+          label="Carbs"
           count={2}
           onIncrease={() => {}}
           onDecrease={() => {}}
         />,
       );
 
-      const filledDots = container.querySelectorAll(".dot.filled.carbs");
+      const filledDots = container.querySelectorAll(
+        ".dot.filled.nutrient-color-carbs",
+      );
       expect(filledDots).toHaveLength(2);
     });
   });
@@ -71,13 +80,14 @@ describe("DotCountInput", () => {
       render(
         <DotCountInput
           name="protein"
+          label="Protein"
           count={3}
           onIncrease={mockIncrease}
           onDecrease={() => {}}
         />,
       );
 
-      await user.click(screen.getByRole("button", { name: "+" }));
+      await user.click(screen.getByRole("button", { name: "Add Protein" }));
       expect(mockIncrease).toHaveBeenCalledTimes(1);
     });
 
@@ -88,13 +98,14 @@ describe("DotCountInput", () => {
       render(
         <DotCountInput
           name="protein"
+          label="Protein"
           count={3}
           onIncrease={() => {}}
           onDecrease={mockDecrease}
         />,
       );
 
-      await user.click(screen.getByRole("button", { name: "−" }));
+      await user.click(screen.getByRole("button", { name: "Remove Protein" }));
       expect(mockDecrease).toHaveBeenCalledTimes(1);
     });
 
@@ -105,13 +116,16 @@ describe("DotCountInput", () => {
       render(
         <DotCountInput
           name="protein"
+          label="Protein"
           count={3}
           onIncrease={mockIncrease}
           onDecrease={() => {}}
         />,
       );
 
-      const increaseButton = screen.getByRole("button", { name: "+" });
+      const increaseButton = screen.getByRole("button", {
+        name: "Add Protein",
+      });
       await user.click(increaseButton);
       await user.click(increaseButton);
       await user.click(increaseButton);
@@ -125,6 +139,7 @@ describe("DotCountInput", () => {
       const { container } = render(
         <DotCountInput
           name="protein"
+          label="Protein"
           count={2}
           goal={5}
           onIncrease={() => {}}
@@ -143,6 +158,7 @@ describe("DotCountInput", () => {
       const { container } = render(
         <DotCountInput
           name="protein"
+          label="Protein"
           count={5}
           goal={5}
           onIncrease={() => {}}
@@ -158,6 +174,7 @@ describe("DotCountInput", () => {
       const { container } = render(
         <DotCountInput
           name="protein"
+          label="Protein"
           count={7}
           goal={5}
           onIncrease={() => {}}
@@ -174,10 +191,40 @@ describe("DotCountInput", () => {
       expect(nonExcessDots).toHaveLength(5);
     });
 
+    it("marks the dot partly over a half goal as excess", () => {
+      const { container, rerender } = render(
+        <DotCountInput
+          name="protein"
+          label="Protein"
+          count={2.5}
+          goal={2.5}
+          onIncrease={() => {}}
+          onDecrease={() => {}}
+        />,
+      );
+      expect(container.querySelectorAll(".dot.excess")).toHaveLength(0);
+
+      rerender(
+        <DotCountInput
+          name="protein"
+          label="Protein"
+          count={3}
+          goal={2.5}
+          onIncrease={() => {}}
+          onDecrease={() => {}}
+        />,
+      );
+      const dots = container.querySelectorAll(".dot");
+      expect(dots).toHaveLength(3);
+      expect(dots[2]).toHaveClass("filled", "excess");
+      expect(container.querySelectorAll(".dot.excess")).toHaveLength(1);
+    });
+
     it("does not show empty dots when no goal is set", () => {
       const { container } = render(
         <DotCountInput
           name="protein"
+          label="Protein"
           count={3}
           onIncrease={() => {}}
           onDecrease={() => {}}
@@ -194,6 +241,7 @@ describe("DotCountInput", () => {
       const { container } = render(
         <DotCountInput
           name="protein"
+          label="Protein"
           count={3}
           inProgress={2}
           onIncrease={() => {}}
@@ -212,6 +260,7 @@ describe("DotCountInput", () => {
       const { container } = render(
         <DotCountInput
           name="protein"
+          label="Protein"
           count={3}
           inProgress={-1}
           onIncrease={() => {}}
@@ -230,6 +279,7 @@ describe("DotCountInput", () => {
       const { container } = render(
         <DotCountInput
           name="protein"
+          label="Protein"
           count={4}
           goal={5}
           inProgress={2}
@@ -250,6 +300,7 @@ describe("DotCountInput", () => {
       const { container } = render(
         <DotCountInput
           name="protein"
+          label="Protein"
           count={0}
           onIncrease={() => {}}
           onDecrease={() => {}}
@@ -258,13 +309,16 @@ describe("DotCountInput", () => {
 
       const filledDots = container.querySelectorAll(".dot.filled");
       expect(filledDots).toHaveLength(0);
-      expect(screen.getByRole("button", { name: "−" })).toBeDisabled();
+      expect(
+        screen.getByRole("button", { name: "Remove Protein" }),
+      ).toBeDisabled();
     });
 
     it("does not mark dots as excess when goal is 0", () => {
       const { container } = render(
         <DotCountInput
           name="protein"
+          label="Protein"
           count={3}
           goal={0}
           onIncrease={() => {}}
@@ -280,6 +334,7 @@ describe("DotCountInput", () => {
       const { container } = render(
         <DotCountInput
           name="protein"
+          label="Protein"
           count={50}
           onIncrease={() => {}}
           onDecrease={() => {}}
@@ -290,4 +345,422 @@ describe("DotCountInput", () => {
       expect(filledDots).toHaveLength(50);
     });
   });
+
+  describe("Half portions", () => {
+    it("renders half a dot for half a portion", () => {
+      const { container } = render(
+        <DotCountInput
+          name="protein"
+          label="Protein"
+          count={2.5}
+          goal={4}
+          onIncrease={() => {}}
+          onDecrease={() => {}}
+        />,
+      );
+
+      expect(container.querySelectorAll(".dot.filled")).toHaveLength(3);
+      expect(container.querySelectorAll(".dot.filled.half-empty")).toHaveLength(
+        1,
+      );
+      expect(container.querySelectorAll(".dot:not(.filled)")).toHaveLength(1);
+    });
+
+    it("renders half a dot in progress", () => {
+      const { container } = render(
+        <DotCountInput
+          name="protein"
+          label="Protein"
+          count={1.5}
+          inProgress={0.5}
+          onIncrease={() => {}}
+          onDecrease={() => {}}
+        />,
+      );
+
+      const dots = container.querySelectorAll(".dot");
+      expect(dots).toHaveLength(2);
+      expect(dots[1]).toHaveClass("filled", "half-in-progress");
+    });
+
+    it("allows decreasing by the step only", () => {
+      const { rerender } = render(
+        <DotCountInput
+          name="protein"
+          label="Protein"
+          count={0.5}
+          onIncrease={() => {}}
+          onDecrease={() => {}}
+        />,
+      );
+      expect(
+        screen.getByRole("button", { name: "Remove Protein" }),
+      ).toBeDisabled();
+
+      rerender(
+        <DotCountInput
+          name="protein"
+          label="Protein"
+          count={0.5}
+          step={0.5}
+          onIncrease={() => {}}
+          onDecrease={() => {}}
+        />,
+      );
+      expect(
+        screen.getByRole("button", { name: "Remove Protein" }),
+      ).toBeEnabled();
+    });
+  });
+
+  describe("Direct entry", () => {
+    it("sets the count entered, rounded to half a portion", async () => {
+      const user = userEvent.setup();
+      const mockSet = mock();
+
+      render(
+        <DotCountInput
+          name="vegetables"
+          label="Vegetables"
+          count={1}
+          inProgress={1}
+          onIncrease={() => {}}
+          onDecrease={() => {}}
+          onSet={mockSet}
+        />,
+      );
+
+      await user.click(screen.getByRole("spinbutton", { name: "Vegetables" }));
+      const input = screen.getByRole("spinbutton", {
+        name: "Number of Vegetables",
+      });
+      expect(input).toHaveValue(2);
+
+      await user.clear(input);
+      await user.type(input, "6.3{Enter}");
+
+      expect(mockSet).toHaveBeenCalledTimes(1);
+      expect(mockSet).toHaveBeenCalledWith(6.5);
+      expect(
+        screen.queryByRole("spinbutton", { name: "Number of Vegetables" }),
+      ).not.toBeInTheDocument();
+    });
+
+    it("does nothing when cancelled, or when the count is unchanged", async () => {
+      const user = userEvent.setup();
+      const mockSet = mock();
+
+      render(
+        <DotCountInput
+          name="vegetables"
+          label="Vegetables"
+          count={2}
+          onIncrease={() => {}}
+          onDecrease={() => {}}
+          onSet={mockSet}
+        />,
+      );
+
+      await user.click(screen.getByRole("spinbutton", { name: "Vegetables" }));
+      await user.type(screen.getByRole("spinbutton"), "1");
+      await user.click(screen.getByRole("button", { name: "Cancel" }));
+
+      await user.click(screen.getByRole("spinbutton", { name: "Vegetables" }));
+      await user.click(screen.getByRole("button", { name: "Set" }));
+
+      expect(mockSet).not.toHaveBeenCalled();
+    });
+
+    it("opens no input without onSet", async () => {
+      const user = userEvent.setup();
+
+      render(
+        <DotCountInput
+          name="vegetables"
+          label="Vegetables"
+          count={2}
+          onIncrease={() => {}}
+          onDecrease={() => {}}
+        />,
+      );
+
+      await user.click(screen.getByRole("spinbutton", { name: "Vegetables" }));
+      await user.keyboard("{Enter}");
+
+      expect(
+        screen.queryByRole("spinbutton", { name: "Number of Vegetables" }),
+      ).not.toBeInTheDocument();
+    });
+
+    it("returns the focus to the dots once closed", async () => {
+      const user = userEvent.setup();
+
+      render(
+        <DotCountInput
+          name="vegetables"
+          label="Vegetables"
+          count={2}
+          onIncrease={() => {}}
+          onDecrease={() => {}}
+          onSet={() => {}}
+        />,
+      );
+
+      screen.getByRole("spinbutton", { name: "Vegetables" }).focus();
+      await user.keyboard("{Enter}");
+      expect(
+        screen.getByRole("spinbutton", { name: "Number of Vegetables" }),
+      ).toHaveFocus();
+      await user.keyboard("{Escape}");
+
+      expect(
+        screen.getByRole("spinbutton", { name: "Vegetables" }),
+      ).toHaveFocus();
+    });
+  });
+
+  describe("Accessibility", () => {
+    it("names the buttons after the nutrient", () => {
+      render(
+        <DotCountInput
+          name="protein"
+          label="Protein"
+          count={3}
+          onIncrease={() => {}}
+          onDecrease={() => {}}
+        />,
+      );
+
+      expect(
+        screen.getByRole("button", { name: "Add Protein" }),
+      ).toBeInTheDocument();
+      expect(
+        screen.getByRole("button", { name: "Remove Protein" }),
+      ).toBeInTheDocument();
+    });
+
+    it("exposes the count against the goal as a spinbutton", () => {
+      const { rerender } = render(
+        <DotCountInput
+          name="protein"
+          label="Protein"
+          count={3}
+          goal={4}
+          onIncrease={() => {}}
+          onDecrease={() => {}}
+        />,
+      );
+
+      const spinbutton = screen.getByRole("spinbutton", { name: "Protein" });
+      expect(spinbutton).toHaveAttribute("aria-valuenow", "3");
+      expect(spinbutton).toHaveAttribute("aria-valuemin", "0");
+      expect(spinbutton).toHaveAttribute(
+        "aria-valuetext",
+        "3 of 4 portions of Protein",
+      );
+
+      rerender(
+        <DotCountInput
+          name="protein"
+          label="Protein"
+          count={3}
+          inProgress={2}
+          goal={4}
+          onIncrease={() => {}}
+          onDecrease={() => {}}
+        />,
+      );
+      expect(spinbutton).toHaveAttribute(
+        "aria-valuetext",
+        "5 of 4 portions of Protein, 1 over goal",
+      );
+
+      rerender(
+        <DotCountInput
+          name="protein"
+          label="Protein"
+          count={3}
+          onIncrease={() => {}}
+          onDecrease={() => {}}
+        />,
+      );
+      expect(spinbutton).toHaveAttribute(
+        "aria-valuetext",
+        "Portions of Protein: 3",
+      );
+    });
+
+    it("changes the count by the arrow keys", async () => {
+      const user = userEvent.setup();
+      const mockIncrease = mock();
+      const mockDecrease = mock();
+
+      render(
+        <DotCountInput
+          name="protein"
+          label="Protein"
+          count={1}
+          onIncrease={mockIncrease}
+          onDecrease={mockDecrease}
+        />,
+      );
+
+      screen.getByRole("spinbutton", { name: "Protein" }).focus();
+      await user.keyboard("{ArrowUp}{ArrowDown}");
+
+      expect(mockIncrease).toHaveBeenCalledTimes(1);
+      expect(mockDecrease).toHaveBeenCalledTimes(1);
+    });
+
+    it("announces the count once the changes in progress are done", () => {
+      const { rerender } = render(
+        <DotCountInput
+          name="protein"
+          label="Protein"
+          count={3}
+          goal={4}
+          onIncrease={() => {}}
+          onDecrease={() => {}}
+        />,
+      );
+      expect(screen.getByRole("status")).toBeEmptyDOMElement();
+
+      rerender(
+        <DotCountInput
+          name="protein"
+          label="Protein"
+          count={3}
+          inProgress={1}
+          goal={4}
+          onIncrease={() => {}}
+          onDecrease={() => {}}
+        />,
+      );
+      expect(screen.getByRole("status")).toBeEmptyDOMElement();
+
+      rerender(
+        <DotCountInput
+          name="protein"
+          label="Protein"
+          count={4}
+          goal={4}
+          onIncrease={() => {}}
+          onDecrease={() => {}}
+        />,
+      );
+      expect(screen.getByRole("status")).toHaveTextContent(
+        "4 of 4 portions of Protein",
+      );
+    });
+  });
+
+  describe("Holding a button", () => {
+    const wait = (ms: number) =>
+      new Promise((resolve) => setTimeout(resolve, ms));
+
+    it("repeats the action while held, without the click ending it", async () => {
+      const mockIncrease = mock();
+
+      render(
+        <DotCountInput
+          name="protein"
+          label="Protein"
+          count={0}
+          onIncrease={mockIncrease}
+          onDecrease={() => {}}
+        />,
+      );
+
+      const button = screen.getByRole("button", { name: "Add Protein" });
+      fireEvent.pointerDown(button);
+      await wait(900);
+      fireEvent.pointerUp(button);
+      fireEvent.click(button);
+
+      const calls = mockIncrease.mock.calls.length;
+      expect(calls).toBeGreaterThan(1);
+      await wait(300);
+      expect(mockIncrease).toHaveBeenCalledTimes(calls);
+    });
+
+    it("ignores the click ending a hold on touch, after leaving", async () => {
+      const mockIncrease = mock();
+
+      render(
+        <DotCountInput
+          name="protein"
+          label="Protein"
+          count={0}
+          onIncrease={mockIncrease}
+          onDecrease={() => {}}
+        />,
+      );
+
+      const button = screen.getByRole("button", { name: "Add Protein" });
+      fireEvent.pointerDown(button);
+      await wait(600);
+      fireEvent.pointerUp(button);
+      fireEvent.pointerLeave(button);
+      fireEvent.click(button);
+
+      expect(mockIncrease).toHaveBeenCalledTimes(1);
+    });
+
+    it("acts on the next key press after a hold released elsewhere", async () => {
+      const user = userEvent.setup();
+      const mockIncrease = mock();
+
+      render(
+        <DotCountInput
+          name="protein"
+          label="Protein"
+          count={0}
+          onIncrease={mockIncrease}
+          onDecrease={() => {}}
+        />,
+      );
+
+      const button = screen.getByRole("button", { name: "Add Protein" });
+      fireEvent.pointerDown(button);
+      await wait(600);
+      fireEvent.pointerLeave(button);
+      expect(mockIncrease).toHaveBeenCalledTimes(1);
+
+      button.focus();
+      await user.keyboard("{Enter}");
+
+      expect(mockIncrease).toHaveBeenCalledTimes(2);
+    });
+
+    it("stops decreasing at 0", async () => {
+      const mockDecrease = mock();
+
+      const { rerender } = render(
+        <DotCountInput
+          name="protein"
+          label="Protein"
+          count={1}
+          onIncrease={() => {}}
+          onDecrease={mockDecrease}
+        />,
+      );
+
+      fireEvent.pointerDown(
+        screen.getByRole("button", { name: "Remove Protein" }),
+      );
+      await wait(600);
+      rerender(
+        <DotCountInput
+          name="protein"
+          label="Protein"
+          count={0}
+          onIncrease={() => {}}
+          onDecrease={mockDecrease}
+        />,
+      );
+      await wait(400);
+
+      expect(mockDecrease).toHaveBeenCalledTimes(1);
+    });
+  });
 });
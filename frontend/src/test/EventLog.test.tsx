@@ -0,0 +1,168 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
+import { screen, waitFor, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import EventLog from "@/components/EventLog";
+import { renderWithClient } from "./utils";
+
+describe("EventLog component", () => {
+  const lunch = Date.parse("2024-01-15T12:30:00Z");
+
+  const mockEvents = [
+    {
+      id: 1,
+      timestamp: lunch,
+      nutrient: "protein",
+      type: "consume",
+      meal: "lunch",
+      amount: 1,
+      retracted: false,
+    },
+    {
+      id: 2,
+      timestamp: lunch + 1000,
+      nutrient: "protein",
+      type: "consume",
+      meal: null,
+      amount: 0.5,
+      retracted: false,
+    },
+    {
+      id: 3,
+      timestamp: lunch + 2000,
+      nutrient: "carbs",
+      type: "unconsume",
+      meal: null,
+      amount: 1,
+      retracted: true,
+    },
+  ];
+
+  const mockFetch = mock();
+
+  beforeEach(() => {
+    mock.clearAllMocks();
+    globalThis.fetch = mockFetch as unknown as typeof fetch;
+    mockFetch.mockImplementation(() =>
+      Promise.resolve({
+        ok: true,
+        json: () => Promise.resolve(mockEvents),
+      } as Response),
+    );
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it("fetches the entries only once expanded", async () => {
+    const user = userEvent.setup();
+    renderWithClient(<EventLog isoDate="2024-01-15" />);
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    await user.click(screen.getByRole("button", { name: /Entries/ }));
+
+    await waitFor(() => {
+      expect(screen.getAllByRole("listitem")).toHaveLength(3);
+    });
+    expect(mockFetch).toHaveBeenCalledWith(
+      "http://test-api/profiles/1/days/2024-01-15/events",
+      expect.anything(),
+    );
+  });
+
+  it("lists the entries with their time of day", async () => {
+    const user = userEvent.setup();
+    renderWithClient(<EventLog isoDate="2024-01-15" />);
+
+    await user.click(screen.getByRole("button", { name: /Entries/ }));
+
+    const items = await screen.findAllByRole("listitem");
+    const time = new Intl.DateTimeFormat("en-GB", {
+      timeStyle: "short",
+    }).format(lunch);
+    expect(items[0]).toHaveTextContent(`${time}ProteinLunch+1`);
+    expect(items[1]).toHaveTextContent(`${time}Protein+0.5`);
+    expect(items[2]).toHaveTextContent(`${time}Carbs−1`);
+    expect(items[2]).toHaveClass("retracted");
+    expect(
+      within(items[2]).queryByRole("button", { name: "Retract entry" }),
+    ).not.toBeInTheDocument();
+  });
+
+  it("retracts an entry", async () => {
+    const user = userEvent.setup();
+    let resolveRetraction: (value: Response) => void;
+    mockFetch.mockImplementation((_url: string, options?: RequestInit) => {
+      if (options?.method === "POST") {
+        return new Promise((resolve) => {
+          resolveRetraction = resolve;
+        });
+      }
+      return Promise.resolve({
+        ok: true,
+        json: () => Promise.resolve(mockEvents),
+      } as Response);
+    });
+    renderWithClient(<EventLog isoDate="2024-01-15" />);
+
+    await user.click(screen.getByRole("button", { name: /Entries/ }));
+    const items = await screen.findAllByRole("listitem");
+    await user.click(
+      within(items[1]).getByRole("button", { name: "Retract entry" }),
+    );
+
+    await waitFor(() => {
+      expect(mockFetch).toHaveBeenCalledWith(
+        "http://test-api/profiles/1/days/2024-01-15/events/2/retract",
+        expect.objectContaining({ method: "POST" }),
+      );
+    });
+    expect(items[1]).toHaveClass("retracted");
+    expect(
+      within(items[1]).getByRole("button", { name: "Retract entry" }),
+    ).toBeDisabled();
+
+    resolveRetraction!({
+      ok: true,
+      json: () => Promise.resolve("success"),
+    } as Response);
+
+    // The entries are fetched again.
+    await waitFor(() => {
+      expect(
+        mockFetch.mock.calls.filter(([url]) => url.endsWith("/events")),
+      ).toHaveLength(2);
+    });
+  });
+
+  it("tells when there are no entries", async () => {
+    const user = userEvent.setup();
+    mockFetch.mockImplementation(() =>
+      Promise.resolve({
+        ok: true,
+        json: () => Promise.resolve([]),
+      } as Response),
+    );
+    renderWithClient(<EventLog isoDate="2024-01-15" />);
+
+    await user.click(screen.getByRole("button", { name: /Entries/ }));
+
+    expect(
+      await screen.findByText("No entries on this day yet."),
+    ).toBeInTheDocument();
+  });
+});
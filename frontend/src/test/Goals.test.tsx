@@ -13,7 +13,7 @@
 // limitations under the License.
 
 import { afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
-import { screen, waitFor } from "@testing-library/react";
+import { fireEvent, screen, waitFor } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
 import Goals from "@/components/Goals";
 import { renderWithClient } from "./utils";
@@ -46,6 +46,7 @@ describe("Goals component", () => {
   it("renders DotCountInput components with correct goal counts", async () => {
     mockFetch.mockImplementation(() =>
       Promise.resolve({
+        ok: true,
         json: () => Promise.resolve(mockGoalsData),
       } as Response),
     );
@@ -56,7 +57,7 @@ describe("Goals component", () => {
     });
 
     const proteinSection = screen
-      .getByText(/protein/i)
+      .getByRole("spinbutton", { name: "Protein" })
       .closest(".nutrient-row");
     const proteinFilledDots = proteinSection?.querySelectorAll(".dot.filled");
     expect(proteinFilledDots).toHaveLength(5);
@@ -70,13 +71,17 @@ describe("Goals component", () => {
       if (
         options?.method === "POST" &&
         typeof url === "string" &&
-        url.includes("/inc")
+        url.endsWith("/commands")
       ) {
         proteinGoal++;
-        return Promise.resolve({ ok: true } as Response);
+        return Promise.resolve({
+          ok: true,
+          json: () => Promise.resolve("success"),
+        } as Response);
       }
 
       return Promise.resolve({
+        ok: true,
         json: () => Promise.resolve({ ...mockGoalsData, protein: proteinGoal }),
       } as Response);
     });
@@ -86,12 +91,11 @@ describe("Goals component", () => {
       expect(screen.getByText(/protein/i)).toBeInTheDocument();
     });
 
-    const increaseButtons = screen.getAllByRole("button", { name: "+" });
-    await user.click(increaseButtons[0]);
+    await user.click(screen.getByRole("button", { name: "Add Protein" }));
 
     await waitFor(() => {
       const proteinSection = screen
-        .getByText(/protein/i)
+        .getByRole("spinbutton", { name: "Protein" })
         .closest(".nutrient-row");
       const filledDots = proteinSection?.querySelectorAll(".dot.filled");
       expect(filledDots).toHaveLength(6);
@@ -110,12 +114,13 @@ describe("Goals component", () => {
       if (
         options?.method === "POST" &&
         typeof url === "string" &&
-        url.includes("/inc")
+        url.endsWith("/commands")
       ) {
         return mutationPromise;
       }
 
       return Promise.resolve({
+        ok: true,
         json: () => Promise.resolve(mockGoalsData),
       } as Response);
     });
@@ -125,12 +130,11 @@ describe("Goals component", () => {
       expect(screen.getByText(/protein/i)).toBeInTheDocument();
     });
 
-    const increaseButtons = screen.getAllByRole("button", { name: "+" });
-    await user.click(increaseButtons[0]);
+    await user.click(screen.getByRole("button", { name: "Add Protein" }));
 
     // During the mutation, we should see an in-progress dot
     const proteinSection = screen
-      .getByText(/protein/i)
+      .getByRole("spinbutton", { name: "Protein" })
       .closest(".nutrient-row");
 
     expect(proteinSection?.querySelectorAll(".dot.in-progress")).toHaveLength(
@@ -138,7 +142,10 @@ describe("Goals component", () => {
     );
 
     // Resolve the mutation to finish the test cleanly
-    resolveMutation!({ ok: true } as Response);
+    resolveMutation!({
+      ok: true,
+      json: () => Promise.resolve("success"),
+    } as Response);
 
     // After resolution, in-progress dot should disappear
     await waitFor(() => {
@@ -147,4 +154,130 @@ describe("Goals component", () => {
       );
     });
   });
+
+  it("schedules a change from the chosen date", async () => {
+    const user = userEvent.setup();
+    mockFetch.mockImplementation(() =>
+      Promise.resolve({
+        ok: true,
+        json: () => Promise.resolve(mockGoalsData),
+      } as Response),
+    );
+
+    renderWithClient(<Goals />);
+    await waitFor(() => {
+      expect(screen.getByText(/protein/i)).toBeInTheDocument();
+    });
+
+    fireEvent.change(screen.getByLabelText("Effective from"), {
+      target: { value: "2030-01-01" },
+    });
+    await waitFor(() => {
+      expect(mockFetch).toHaveBeenCalledWith(
+        "http://test-api/profiles/1/days/2030-01-01/goals",
+        expect.anything(),
+      );
+    });
+
+    await user.click(
+      await screen.findByRole("button", { name: "Add Protein" }),
+    );
+
+    await waitFor(() => {
+      expect(mockFetch).toHaveBeenCalledWith(
+        "http://test-api/profiles/1/commands",
+        expect.objectContaining({
+          method: "POST",
+          body: JSON.stringify([
+            { type: "inc", date: "2030-01-01", nutrient: "protein" },
+          ]),
+        }),
+      );
+    });
+  });
+
+  it("changes goals by half portions", async () => {
+    const user = userEvent.setup();
+    mockFetch.mockImplementation(() =>
+      Promise.resolve({
+        ok: true,
+        json: () => Promise.resolve(mockGoalsData),
+      } as Response),
+    );
+
+    renderWithClient(<Goals />);
+    const toggle = await screen.findByRole("button", { name: "½ portions" });
+    await user.click(toggle);
+    expect(toggle).toHaveAttribute("aria-pressed", "true");
+    await user.click(screen.getByRole("button", { name: "Add Protein" }));
+
+    await waitFor(() => {
+      expect(mockFetch).toHaveBeenCalledWith(
+        "http://test-api/profiles/1/commands",
+        expect.objectContaining({
+          body: expect.stringContaining('"amount":0.5'),
+        }),
+      );
+    });
+  });
+
+  it("changes a goal to the count entered", async () => {
+    const user = userEvent.setup();
+    mockFetch.mockImplementation(() =>
+      Promise.resolve({
+        ok: true,
+        json: () => Promise.resolve(mockGoalsData),
+      } as Response),
+    );
+
+    renderWithClient(<Goals />);
+    await user.click(
+      await screen.findByRole("spinbutton", { name: "Protein" }),
+    );
+    await user.clear(
+      screen.getByRole("spinbutton", { name: "Number of Protein" }),
+    );
+    await user.type(
+      screen.getByRole("spinbutton", { name: "Number of Protein" }),
+      "2{Enter}",
+    );
+
+    await waitFor(() => {
+      expect(mockFetch).toHaveBeenCalledWith(
+        "http://test-api/profiles/1/commands",
+        expect.objectContaining({
+          body: expect.stringMatching(
+            /^\[\{"type":"dec","date":"[\d-]+","nutrient":"protein","amount":3\}\]$/,
+          ),
+        }),
+      );
+    });
+  });
+
+  it("lists the history of goal changes", async () => {
+    mockFetch.mockImplementation((url: string) =>
+      Promise.resolve({
+        ok: true,
+        json: () =>
+          Promise.resolve(
+            url.endsWith("/goals/history")
+              ? [
+                  { from: "2024-01-01", goals: { protein: 2 } },
+                  { from: "2030-01-01", goals: mockGoalsData },
+                ]
+              : mockGoalsData,
+          ),
+      } as Response),
+    );
+
+    const { container } = renderWithClient(<Goals />);
+    await waitFor(() => {
+      expect(container.querySelectorAll(".goal-history-entry")).toHaveLength(2);
+    });
+
+    fireEvent.click(container.querySelectorAll(".goal-history-entry")[1]);
+    expect(await screen.findByLabelText("Effective from")).toHaveValue(
+      "2030-01-01",
+    );
+  });
 });
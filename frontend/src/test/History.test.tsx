@@ -0,0 +1,172 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  mock,
+  setSystemTime,
+} from "bun:test";
+import { screen, waitFor, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import History from "@/components/History";
+import { renderWithClient } from "./utils";
+
+describe("History component", () => {
+  const mockGoalHistory = [
+    {
+      from: "2024-01-01",
+      goals: { protein: 2, carbs: 3, vegetables: 4, fats: 1 },
+    },
+  ];
+
+  const mockDataByDate: Record<string, any> = {
+    "2024-01-15": { protein: 1, carbs: 3 },
+    "2024-01-14": { protein: 2, carbs: 4 },
+    "2024-01-13": { protein: 2 },
+  };
+
+  const mockFetch = mock();
+
+  beforeEach(() => {
+    mock.clearAllMocks();
+    // A Monday.
+    setSystemTime(new Date("2024-01-15T12:00:00Z"));
+    globalThis.fetch = mockFetch as unknown as typeof fetch;
+
+    mockFetch.mockImplementation((url: string) => {
+      return Promise.resolve({
+        ok: true,
+        json: () =>
+          Promise.resolve(
+            url.includes("/days?") ? mockDataByDate : mockGoalHistory,
+          ),
+      } as Response);
+    });
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it("fetches the portions of the last week in one request", async () => {
+    renderWithClient(<History />);
+
+    await waitFor(() => {
+      expect(screen.getByRole("table")).toBeInTheDocument();
+    });
+
+    expect(globalThis.fetch).toHaveBeenCalledWith(
+      "http://test-api/profiles/1/days?from=2024-01-09&to=2024-01-15",
+      expect.anything(),
+    );
+    expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("lays out whole weeks with days outside the range hidden", async () => {
+    const { container } = renderWithClient(<History />);
+
+    await waitFor(() => {
+      expect(screen.getByRole("table")).toBeInTheDocument();
+    });
+
+    // From Monday 2024-01-08 to Sunday 2024-01-21.
+    expect(container.querySelectorAll(".history-day")).toHaveLength(14);
+    expect(
+      container.querySelectorAll(".history-day:not(.outside)"),
+    ).toHaveLength(7);
+  });
+
+  it("marks nutrients over the goal", async () => {
+    const { container } = renderWithClient(<History />);
+
+    await waitFor(() => {
+      expect(screen.getByRole("table")).toBeInTheDocument();
+    });
+
+    const excess = container.querySelectorAll(".history-nutrient.excess");
+    expect(excess).toHaveLength(1);
+    expect(excess[0]).toHaveClass("nutrient-color-carbs");
+  });
+
+  it("shows averages and streaks per nutrient", async () => {
+    renderWithClient(<History />);
+
+    await waitFor(() => {
+      expect(screen.getByRole("table")).toBeInTheDocument();
+    });
+
+    const proteinRow = screen.getByText("Protein").closest("tr")!;
+    const cells = within(proteinRow).getAllByRole("cell");
+    expect(cells.map((c) => c.textContent)).toEqual([
+      "0.7 / 2",
+      "2 / 7",
+      "2",
+      "2",
+    ]);
+  });
+
+  it("compares each day against the goals in force on it", async () => {
+    const goalHistory = [
+      ...mockGoalHistory,
+      { from: "2024-01-14", goals: { protein: 1 } },
+    ];
+    mockFetch.mockImplementation((url: string) => {
+      return Promise.resolve({
+        ok: true,
+        json: () =>
+          Promise.resolve(
+            url.includes("/days?") ? mockDataByDate : goalHistory,
+          ),
+      } as Response);
+    });
+    const { container } = renderWithClient(<History />);
+
+    await waitFor(() => {
+      expect(screen.getByRole("table")).toBeInTheDocument();
+    });
+
+    const excess = container.querySelectorAll(".history-nutrient.excess");
+    expect(excess).toHaveLength(1);
+    expect(excess[0]).toHaveClass("nutrient-color-protein");
+    const proteinRow = screen.getByText("Protein").closest("tr")!;
+    expect(within(proteinRow).getAllByRole("cell")[0]).toHaveTextContent(
+      "0.7 / 1",
+    );
+  });
+
+  it("fetches more days when a longer range is selected", async () => {
+    const user = userEvent.setup();
+    renderWithClient(<History />);
+
+    await waitFor(() => {
+      expect(screen.getByRole("table")).toBeInTheDocument();
+    });
+
+    await user.selectOptions(
+      screen.getByRole("combobox", { name: "Period" }),
+      "month",
+    );
+
+    await waitFor(() => {
+      expect(globalThis.fetch).toHaveBeenCalledWith(
+        "http://test-api/profiles/1/days?from=2023-12-19&to=2024-01-15",
+        expect.anything(),
+      );
+    });
+  });
+});
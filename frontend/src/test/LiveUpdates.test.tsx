@@ -0,0 +1,115 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
+import { useQuery } from "@tanstack/react-query";
+import { screen, waitFor } from "@testing-library/react";
+import { useApi } from "@/api";
+import LiveUpdates from "@/components/LiveUpdates";
+import { renderWithClient } from "./utils";
+
+function Protein({ isoDate }: { isoDate: string }) {
+  const api = useApi();
+  const query = useQuery({
+    queryKey: ["portions", 1, isoDate],
+    queryFn: ({ signal }) => api.portions(isoDate, signal),
+  });
+  return <output title={isoDate}>{query.data?.protein}</output>;
+}
+
+describe("LiveUpdates component", () => {
+  let protein = 1;
+  let sendChange: (change: object) => void;
+  const mockFetch = mock((url: string) => {
+    if (url.endsWith("/changes")) {
+      const encoder = new TextEncoder();
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          sendChange = (change) =>
+            controller.enqueue(
+              encoder.encode(`data: ${JSON.stringify(change)}\n\n`),
+            );
+        },
+      });
+      return Promise.resolve({ ok: true, status: 200, body } as Response);
+    }
+    return Promise.resolve({
+      ok: true,
+      status: 200,
+      json: () => Promise.resolve({ protein }),
+    } as Response);
+  });
+
+  beforeEach(() => {
+    protein = 1;
+    mock.clearAllMocks();
+    globalThis.fetch = mockFetch as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it("refetches the portions changed on another device", async () => {
+    renderWithClient(
+      <>
+        <LiveUpdates />
+        <Protein isoDate="2024-01-15" />
+        <Protein isoDate="2024-01-16" />
+      </>,
+    );
+
+    await waitFor(() => {
+      expect(screen.getByTitle("2024-01-15")).toHaveTextContent("1");
+      expect(mockFetch).toHaveBeenCalledWith(
+        "http://test-api/profiles/1/changes",
+        expect.anything(),
+      );
+    });
+
+    protein = 2;
+    sendChange({ kind: "portions", profile: 1, date: "2024-01-15" });
+
+    await waitFor(() => {
+      expect(screen.getByTitle("2024-01-15")).toHaveTextContent("2");
+    });
+    expect(screen.getByTitle("2024-01-16")).toHaveTextContent("1");
+  });
+
+  it("refetches all the data of the profile if needed", async () => {
+    renderWithClient(
+      <>
+        <LiveUpdates />
+        <Protein isoDate="2024-01-15" />
+        <Protein isoDate="2024-01-16" />
+      </>,
+    );
+
+    await waitFor(() => {
+      expect(screen.getByTitle("2024-01-16")).toHaveTextContent("1");
+      expect(mockFetch).toHaveBeenCalledWith(
+        "http://test-api/profiles/1/changes",
+        expect.anything(),
+      );
+    });
+
+    protein = 2;
+    sendChange({ kind: "all", profile: 1 });
+
+    await waitFor(() => {
+      expect(screen.getByTitle("2024-01-15")).toHaveTextContent("2");
+      expect(screen.getByTitle("2024-01-16")).toHaveTextContent("2");
+    });
+  });
+});
@@ -0,0 +1,172 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
+import { screen, waitFor, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import Nutrients from "@/components/Nutrients";
+import { renderWithClient, TEST_NUTRIENTS } from "./utils";
+
+describe("Nutrients component", () => {
+  const mockFetch = mock();
+
+  beforeEach(() => {
+    mock.clearAllMocks();
+    globalThis.fetch = mockFetch as unknown as typeof fetch;
+    mockFetch.mockImplementation(() =>
+      Promise.resolve({
+        ok: true,
+        json: () => Promise.resolve(TEST_NUTRIENTS),
+      } as Response),
+    );
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  const saved = () =>
+    mockFetch.mock.calls
+      .filter(([, options]) => options?.method === "PUT")
+      .map(([url, options]) => [url, JSON.parse(options.body)]);
+
+  it("lists the nutrients with their labels", () => {
+    renderWithClient(<Nutrients />);
+
+    expect(
+      screen
+        .getAllByRole("textbox", { name: "Name" })
+        .map((input) => (input as HTMLInputElement).value),
+    ).toEqual(["Protein", "Carbs", "Vegetables", "Fats"]);
+  });
+
+  it("adds a nutrient after the existing ones", async () => {
+    const user = userEvent.setup();
+    renderWithClient(<Nutrients />);
+
+    const add = screen.getByRole("button", { name: "Add" });
+    expect(add).toBeDisabled();
+    await user.type(
+      screen.getByRole("textbox", { name: "Name of the new nutrient" }),
+      "Water",
+    );
+    await user.type(
+      screen.getByRole("textbox", { name: "Identifier, e.g. water" }),
+      "water",
+    );
+    await user.click(add);
+
+    await waitFor(() => {
+      expect(saved()).toEqual([
+        [
+          "http://test-api/nutrients/water",
+          {
+            labels: { en: "Water" },
+            color: "#888888",
+            position: 4,
+            active: true,
+          },
+        ],
+      ]);
+    });
+  });
+
+  it("does not add a nutrient with an invalid or existing identifier", async () => {
+    const user = userEvent.setup();
+    renderWithClient(<Nutrients />);
+
+    await user.type(
+      screen.getByRole("textbox", { name: "Name of the new nutrient" }),
+      "Water",
+    );
+    const id = screen.getByRole("textbox", { name: "Identifier, e.g. water" });
+    await user.type(id, "Water glasses");
+    expect(screen.getByRole("button", { name: "Add" })).toBeDisabled();
+    await user.clear(id);
+    await user.type(id, "carbs");
+    expect(screen.getByRole("button", { name: "Add" })).toBeDisabled();
+    await user.clear(id);
+    await user.type(id, "w".repeat(33));
+    expect(screen.getByRole("button", { name: "Add" })).toBeDisabled();
+    await user.type(id, "{Backspace}");
+    expect(screen.getByRole("button", { name: "Add" })).toBeEnabled();
+  });
+
+  it("hides a nutrient", async () => {
+    const user = userEvent.setup();
+    renderWithClient(<Nutrients />);
+
+    await user.click(screen.getAllByRole("checkbox", { name: "Shown" })[1]);
+
+    await waitFor(() => {
+      expect(saved()).toEqual([
+        [
+          "http://test-api/nutrients/carbs",
+          {
+            labels: { en: "Carbs" },
+            color: "#f47216",
+            position: 1,
+            active: false,
+          },
+        ],
+      ]);
+    });
+  });
+
+  it("moves a nutrient by swapping the positions", async () => {
+    const user = userEvent.setup();
+    const { container } = renderWithClient(<Nutrients />);
+
+    const rows = container.querySelectorAll(".nutrient-settings-row");
+    expect(
+      within(rows[0] as HTMLElement).getByRole("button", { name: "Move up" }),
+    ).toBeDisabled();
+    await user.click(
+      within(rows[0] as HTMLElement).getByRole("button", {
+        name: "Move down",
+      }),
+    );
+
+    await waitFor(() => {
+      expect(saved().map(([url, { position }]) => [url, position])).toEqual([
+        ["http://test-api/nutrients/carbs", 0],
+        ["http://test-api/nutrients/protein", 1],
+      ]);
+    });
+  });
+
+  it("renames a nutrient in the current language", async () => {
+    const user = userEvent.setup();
+    renderWithClient(<Nutrients />);
+
+    const label = screen.getAllByRole("textbox", { name: "Name" })[0];
+    await user.clear(label);
+    await user.type(label, "Meat");
+    await user.tab();
+
+    await waitFor(() => {
+      expect(saved()).toEqual([
+        [
+          "http://test-api/nutrients/protein",
+          {
+            labels: { en: "Meat" },
+            color: "#40c1e6",
+            position: 0,
+            active: true,
+          },
+        ],
+      ]);
+    });
+  });
+});
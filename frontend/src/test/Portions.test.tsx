@@ -13,7 +13,9 @@
 // limitations under the License.
 
 import {
+  afterAll,
   afterEach,
+  beforeAll,
   beforeEach,
   describe,
   expect,
@@ -22,11 +24,13 @@ import {
   setSystemTime,
   spyOn,
 } from "bun:test";
-import { fireEvent, screen, waitFor } from "@testing-library/react";
+import { fireEvent, screen, waitFor, within } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
-import toast from "react-hot-toast";
+import toast, { Toaster } from "react-hot-toast";
+import { memoryOutboxStore, Outbox } from "@/outbox";
+import { DEFAULT_SETTINGS, UserSettings } from "@/settings";
 import Portions from "../components/Portions";
-import { formatDate, renderWithClient } from "./utils";
+import { formatDate, renderWithClient, TEST_NUTRIENTS } from "./utils";
 
 describe("Portions component", () => {
   const mockPortionsData = {
@@ -73,10 +77,12 @@ describe("Portions component", () => {
         const dateMatch = url.match(/days\/([^/]+)\/portions/);
         const date = dateMatch ? dateMatch[1] : "2024-01-15";
         return Promise.resolve({
+          ok: true,
           json: () => Promise.resolve(mockDataByDate[date] || {}),
         } as Response);
       }
       return Promise.resolve({
+        ok: true,
         json: () => Promise.resolve(mockGoalsData),
       } as Response);
     });
@@ -86,6 +92,28 @@ describe("Portions component", () => {
     mock.restore();
   });
 
+  // The commands sent in batches, in order.
+  const sentCommands = () =>
+    mockFetch.mock.calls
+      .filter(([url]) => url.endsWith("/commands"))
+      .flatMap(([, options]) => JSON.parse(options.body));
+
+  it("labels the buttons navigating between days", async () => {
+    renderWithClient(<Portions />);
+    await screen.findByText("Protein");
+
+    expect(
+      screen.getByRole("button", { name: "Previous day" }),
+    ).toBeInTheDocument();
+    expect(
+      screen.getByRole("button", { name: "Next day" }),
+    ).toBeInTheDocument();
+    expect(screen.getByRole("spinbutton", { name: "Protein" })).toHaveAttribute(
+      "aria-valuetext",
+      "3 of 5 portions of Protein",
+    );
+  });
+
   it("shows loading state while fetching data", () => {
     mockFetch.mockImplementation(() => new Promise(() => {}));
     renderWithClient(<Portions />);
@@ -98,6 +126,7 @@ describe("Portions component", () => {
         return Promise.reject(new Error("Network error"));
       }
       return Promise.resolve({
+        ok: true,
         json: () => Promise.resolve(mockGoalsData),
       } as Response);
     });
@@ -115,6 +144,7 @@ describe("Portions component", () => {
         return Promise.reject(new Error("Network error"));
       }
       return Promise.resolve({
+        ok: true,
         json: () => Promise.resolve(mockPortionsData),
       } as Response);
     });
@@ -132,6 +162,7 @@ describe("Portions component", () => {
     await waitFor(() => {
       expect(globalThis.fetch).toHaveBeenCalledWith(
         expect.stringContaining("/days/2024-01-15/portions"),
+        expect.anything(),
       );
     });
   });
@@ -144,7 +175,7 @@ describe("Portions component", () => {
     });
 
     const proteinSection = screen
-      .getByText(/protein/i)
+      .getByRole("spinbutton", { name: "Protein" })
       .closest(".nutrient-row");
     const proteinFilledDots = proteinSection?.querySelectorAll(
       ".dot.filled:not(.excess)",
@@ -154,7 +185,9 @@ describe("Portions component", () => {
     expect(proteinFilledDots).toHaveLength(3);
     expect(proteinEmptyDots).toHaveLength(2);
 
-    const carbsSection = screen.getByText(/carbs/i).closest(".nutrient-row");
+    const carbsSection = screen
+      .getByRole("spinbutton", { name: "Carbs" })
+      .closest(".nutrient-row");
     const carbsFilledDots = carbsSection?.querySelectorAll(
       ".dot.filled:not(.excess)",
     );
@@ -163,11 +196,35 @@ describe("Portions component", () => {
     expect(carbsEmptyDots).toHaveLength(4);
   });
 
+  it("renders the active nutrients in their order", async () => {
+    renderWithClient(<Portions />, new Outbox(memoryOutboxStore()), [
+      {
+        id: "water",
+        labels: { en: "Water", de: "Wasser" },
+        color: "#3366ff",
+        position: -1,
+        active: true,
+      },
+      ...TEST_NUTRIENTS.map((n) => ({ ...n, active: n.id !== "fats" })),
+    ]);
+
+    await waitFor(() => {
+      expect(screen.getByText("Water")).toBeInTheDocument();
+    });
+
+    expect(
+      [...document.querySelectorAll(".nutrient-row .nutrient-label")].map(
+        (label) => label.textContent,
+      ),
+    ).toEqual(["Water", "Protein", "Carbs", "Vegetables"]);
+  });
+
   it("handles missing portion data with default values", async () => {
     const partialPortionsData = { protein: 3 };
 
     mockFetch.mockImplementation((url) => {
       return Promise.resolve({
+        ok: true,
         json: () =>
           Promise.resolve(
             typeof url === "string" && url.includes("/portions")
@@ -183,7 +240,9 @@ describe("Portions component", () => {
       expect(screen.getByText(/protein/i)).toBeInTheDocument();
     });
 
-    const carbsSection = screen.getByText(/carbs/i).closest(".nutrient-row");
+    const carbsSection = screen
+      .getByRole("spinbutton", { name: "Carbs" })
+      .closest(".nutrient-row");
     const carbsFilledDots = carbsSection?.querySelectorAll(".dot.filled");
     expect(carbsFilledDots).toHaveLength(0);
   });
@@ -196,17 +255,42 @@ describe("Portions component", () => {
       expect(screen.getByText(/protein/i)).toBeInTheDocument();
     });
 
-    const increaseButtons = screen.getAllByRole("button", { name: "+" });
-    await user.click(increaseButtons[0]);
+    await user.click(screen.getByRole("button", { name: "Add Protein" }));
 
     await waitFor(() => {
-      expect(globalThis.fetch).toHaveBeenCalledWith(
-        expect.stringContaining("/days/2024-01-15/portions/protein/consume"),
-        { method: "POST" },
-      );
+      expect(sentCommands()).toEqual([
+        expect.objectContaining({
+          type: "consume",
+          date: "2024-01-15",
+          nutrient: "protein",
+        }),
+      ]);
     });
   });
 
+  it("sends rapid taps in a single request", async () => {
+    const user = userEvent.setup();
+    renderWithClient(<Portions />);
+    await screen.findByText("Protein");
+
+    const addProtein = screen.getByRole("button", { name: "Add Protein" });
+    await user.click(addProtein);
+    await user.click(addProtein);
+    await user.click(screen.getByRole("button", { name: "Add Carbs" }));
+    await user.click(addProtein);
+    expect(document.querySelectorAll(".dot.in-progress")).toHaveLength(4);
+
+    await waitFor(() => {
+      expect(sentCommands()).toEqual([
+        expect.objectContaining({ nutrient: "protein", amount: 3 }),
+        expect.objectContaining({ nutrient: "carbs" }),
+      ]);
+    });
+    expect(
+      mockFetch.mock.calls.filter(([, options]) => options?.method === "POST"),
+    ).toHaveLength(1);
+  });
+
   it("shows in-progress state while increasing portion", async () => {
     const user = userEvent.setup();
     let resolveMutation: (value: unknown) => void;
@@ -215,20 +299,26 @@ describe("Portions component", () => {
       if (
         options?.method === "POST" &&
         typeof url === "string" &&
-        url.includes("/consume")
+        url.endsWith("/commands")
       ) {
         return new Promise((resolve) => {
-          resolveMutation = () => resolve({ ok: true } as Response);
+          resolveMutation = () =>
+            resolve({
+              ok: true,
+              json: () => Promise.resolve("success"),
+            } as Response);
         });
       }
 
       if (typeof url === "string" && url.includes("/portions")) {
         return Promise.resolve({
+          ok: true,
           json: () => Promise.resolve(mockPortionsData),
         } as Response);
       }
 
       return Promise.resolve({
+        ok: true,
         json: () => Promise.resolve(mockGoalsData),
       } as Response);
     });
@@ -239,23 +329,29 @@ describe("Portions component", () => {
       expect(screen.getByText(/protein/i)).toBeInTheDocument();
     });
 
-    const increaseButtons = screen.getAllByRole("button", { name: "+" });
-    await user.click(increaseButtons[0]);
+    await user.click(screen.getByRole("button", { name: "Add Protein" }));
 
     await waitFor(() => {
       const proteinSection = screen
-        .getByText(/protein/i)
+        .getByRole("spinbutton", { name: "Protein" })
         .closest(".nutrient-row");
       const inProgressDots =
         proteinSection?.querySelectorAll(".dot.in-progress");
       expect(inProgressDots).toHaveLength(1);
     });
 
+    // Taps are held back for a moment before they're sent.
+    await waitFor(() => {
+      expect(mockFetch).toHaveBeenCalledWith(
+        "http://test-api/profiles/1/commands",
+        expect.anything(),
+      );
+    });
     resolveMutation!(null);
 
     await waitFor(() => {
       const proteinSection = screen
-        .getByText(/protein/i)
+        .getByRole("spinbutton", { name: "Protein" })
         .closest(".nutrient-row");
       const inProgressDots =
         proteinSection?.querySelectorAll(".dot.in-progress");
@@ -271,20 +367,26 @@ describe("Portions component", () => {
       if (
         options?.method === "POST" &&
         typeof url === "string" &&
-        url.includes("/unconsume")
+        url.endsWith("/commands")
       ) {
         return new Promise((resolve) => {
-          resolveMutation = () => resolve({ ok: true } as Response);
+          resolveMutation = () =>
+            resolve({
+              ok: true,
+              json: () => Promise.resolve("success"),
+            } as Response);
         });
       }
 
       if (typeof url === "string" && url.includes("/portions")) {
         return Promise.resolve({
+          ok: true,
           json: () => Promise.resolve(mockPortionsData),
         } as Response);
       }
 
       return Promise.resolve({
+        ok: true,
         json: () => Promise.resolve(mockGoalsData),
       } as Response);
     });
@@ -295,12 +397,11 @@ describe("Portions component", () => {
       expect(screen.getByText(/protein/i)).toBeInTheDocument();
     });
 
-    const decreaseButtons = screen.getAllByRole("button", { name: "−" });
-    await user.click(decreaseButtons[0]);
+    await user.click(screen.getByRole("button", { name: "Remove Protein" }));
 
     await waitFor(() => {
       const proteinSection = screen
-        .getByText(/protein/i)
+        .getByRole("spinbutton", { name: "Protein" })
         .closest(".nutrient-row");
       const inProgressDots =
         proteinSection?.querySelectorAll(".dot.in-progress");
@@ -312,11 +413,18 @@ describe("Portions component", () => {
       expect(filledDots).toHaveLength(2);
     });
 
+    // Taps are held back for a moment before they're sent.
+    await waitFor(() => {
+      expect(mockFetch).toHaveBeenCalledWith(
+        "http://test-api/profiles/1/commands",
+        expect.anything(),
+      );
+    });
     resolveMutation!(null);
 
     await waitFor(() => {
       const proteinSection = screen
-        .getByText(/protein/i)
+        .getByRole("spinbutton", { name: "Protein" })
         .closest(".nutrient-row");
       const inProgressDots =
         proteinSection?.querySelectorAll(".dot.in-progress");
@@ -332,21 +440,26 @@ describe("Portions component", () => {
       if (
         options?.method === "POST" &&
         typeof url === "string" &&
-        url.includes("/consume")
+        url.endsWith("/commands")
       ) {
         proteinCount++;
-        return Promise.resolve({ ok: true } as Response);
+        return Promise.resolve({
+          ok: true,
+          json: () => Promise.resolve("success"),
+        } as Response);
       }
 
       // Use standard logic for GET but return dynamic protein count
       if (typeof url === "string" && url.includes("/portions")) {
         return Promise.resolve({
+          ok: true,
           json: () =>
             Promise.resolve({ ...mockPortionsData, protein: proteinCount }),
         } as Response);
       }
 
       return Promise.resolve({
+        ok: true,
         json: () => Promise.resolve(mockGoalsData),
       } as Response);
     });
@@ -357,17 +470,20 @@ describe("Portions component", () => {
       expect(screen.getByText(/protein/i)).toBeInTheDocument();
     });
 
-    let proteinSection = screen.getByText(/protein/i).closest(".nutrient-row");
+    let proteinSection = screen
+      .getByRole("spinbutton", { name: "Protein" })
+      .closest(".nutrient-row");
     let filledDots = proteinSection?.querySelectorAll(
       ".dot.filled:not(.excess)",
     );
     expect(filledDots).toHaveLength(3);
 
-    const increaseButtons = screen.getAllByRole("button", { name: "+" });
-    await user.click(increaseButtons[0]);
+    await user.click(screen.getByRole("button", { name: "Add Protein" }));
 
     await waitFor(() => {
-      proteinSection = screen.getByText(/protein/i).closest(".nutrient-row");
+      proteinSection = screen
+        .getByRole("spinbutton", { name: "Protein" })
+        .closest(".nutrient-row");
       filledDots = proteinSection?.querySelectorAll(".dot.filled:not(.excess)");
       expect(filledDots).toHaveLength(4);
     });
@@ -381,20 +497,25 @@ describe("Portions component", () => {
       if (
         options?.method === "POST" &&
         typeof url === "string" &&
-        url.includes("/unconsume")
+        url.endsWith("/commands")
       ) {
         proteinCount--;
-        return Promise.resolve({ ok: true } as Response);
+        return Promise.resolve({
+          ok: true,
+          json: () => Promise.resolve("success"),
+        } as Response);
       }
 
       if (typeof url === "string" && url.includes("/portions")) {
         return Promise.resolve({
+          ok: true,
           json: () =>
             Promise.resolve({ ...mockPortionsData, protein: proteinCount }),
         } as Response);
       }
 
       return Promise.resolve({
+        ok: true,
         json: () => Promise.resolve(mockGoalsData),
       } as Response);
     });
@@ -405,12 +526,11 @@ describe("Portions component", () => {
       expect(screen.getByText(/protein/i)).toBeInTheDocument();
     });
 
-    const decreaseButtons = screen.getAllByRole("button", { name: "−" });
-    await user.click(decreaseButtons[0]);
+    await user.click(screen.getByRole("button", { name: "Remove Protein" }));
 
     await waitFor(() => {
       const proteinSection = screen
-        .getByText(/protein/i)
+        .getByRole("spinbutton", { name: "Protein" })
         .closest(".nutrient-row");
       const filledDots = proteinSection?.querySelectorAll(
         ".dot.filled:not(.excess)",
@@ -435,7 +555,7 @@ describe("Portions component", () => {
       expect(screen.getByText(formatDate("2024-01-15"))).toBeInTheDocument();
     });
 
-    const prevButton = screen.getByRole("button", { name: "<" });
+    const prevButton = screen.getByRole("button", { name: "Previous day" });
     await user.click(prevButton);
 
     await waitFor(() => {
@@ -451,12 +571,12 @@ describe("Portions component", () => {
       expect(screen.getByText(/protein/i)).toBeInTheDocument();
     });
 
-    const prevButton = screen.getByRole("button", { name: "<" });
+    const prevButton = screen.getByRole("button", { name: "Previous day" });
     await user.click(prevButton);
 
     await waitFor(() => {
       const proteinSection = screen
-        .getByText(/protein/i)
+        .getByRole("spinbutton", { name: "Protein" })
         .closest(".nutrient-row");
       const filledDots = proteinSection?.querySelectorAll(
         ".dot.filled:not(.excess)",
@@ -473,7 +593,7 @@ describe("Portions component", () => {
       expect(screen.getByText(formatDate("2024-01-15"))).toBeInTheDocument();
     });
 
-    const nextButton = screen.getByRole("button", { name: ">" });
+    const nextButton = screen.getByRole("button", { name: "Next day" });
     await user.click(nextButton);
 
     await waitFor(() => {
@@ -489,12 +609,12 @@ describe("Portions component", () => {
       expect(screen.getByText(/protein/i)).toBeInTheDocument();
     });
 
-    const nextButton = screen.getByRole("button", { name: ">" });
+    const nextButton = screen.getByRole("button", { name: "Next day" });
     await user.click(nextButton);
 
     await waitFor(() => {
       const proteinSection = screen
-        .getByText(/protein/i)
+        .getByRole("spinbutton", { name: "Protein" })
         .closest(".nutrient-row");
       const filledDots = proteinSection?.querySelectorAll(
         ".dot.filled:not(.excess)",
@@ -512,34 +632,40 @@ describe("Portions component", () => {
     });
 
     // Navigate to 2024-01-16
-    await user.click(screen.getByRole("button", { name: ">" }));
+    await user.click(screen.getByRole("button", { name: "Next day" }));
     await waitFor(() => {
       expect(screen.getByText(formatDate("2024-01-16"))).toBeInTheDocument();
     });
 
-    let proteinSection = screen.getByText(/protein/i).closest(".nutrient-row");
+    let proteinSection = screen
+      .getByRole("spinbutton", { name: "Protein" })
+      .closest(".nutrient-row");
     let filledDots = proteinSection?.querySelectorAll(
       ".dot.filled:not(.excess)",
     );
     expect(filledDots).toHaveLength(2);
 
     // Navigate to 2024-01-17
-    await user.click(screen.getByRole("button", { name: ">" }));
+    await user.click(screen.getByRole("button", { name: "Next day" }));
     await waitFor(() => {
       expect(screen.getByText(formatDate("2024-01-17"))).toBeInTheDocument();
     });
 
-    proteinSection = screen.getByText(/protein/i).closest(".nutrient-row");
+    proteinSection = screen
+      .getByRole("spinbutton", { name: "Protein" })
+      .closest(".nutrient-row");
     filledDots = proteinSection?.querySelectorAll(".dot.filled:not(.excess)");
     expect(filledDots).toHaveLength(4);
 
     // Navigate to 2024-01-18
-    await user.click(screen.getByRole("button", { name: ">" }));
+    await user.click(screen.getByRole("button", { name: "Next day" }));
     await waitFor(() => {
       expect(screen.getByText(formatDate("2024-01-18"))).toBeInTheDocument();
     });
 
-    proteinSection = screen.getByText(/protein/i).closest(".nutrient-row");
+    proteinSection = screen
+      .getByRole("spinbutton", { name: "Protein" })
+      .closest(".nutrient-row");
     filledDots = proteinSection?.querySelectorAll(".dot.filled:not(.excess)");
     expect(filledDots).toHaveLength(5);
   });
@@ -552,13 +678,15 @@ describe("Portions component", () => {
       expect(screen.getByText(formatDate("2024-01-15"))).toBeInTheDocument();
     });
 
-    const prevButton = screen.getByRole("button", { name: "<" });
+    const prevButton = screen.getByRole("button", { name: "Previous day" });
 
     // Navigate to 2024-01-14
     await user.click(prevButton);
     await waitFor(() => {
       expect(screen.getByText(formatDate("2024-01-14"))).toBeInTheDocument();
-      const carbsSection = screen.getByText(/carbs/i).closest(".nutrient-row");
+      const carbsSection = screen
+        .getByRole("spinbutton", { name: "Carbs" })
+        .closest(".nutrient-row");
       const filledDots = carbsSection?.querySelectorAll(
         ".dot.filled:not(.excess)",
       );
@@ -576,13 +704,13 @@ describe("Portions component", () => {
       expect(screen.getByText(formatDate("2024-02-01"))).toBeInTheDocument();
     });
 
-    const prevButton = screen.getByRole("button", { name: "<" });
+    const prevButton = screen.getByRole("button", { name: "Previous day" });
     await user.click(prevButton);
 
     await waitFor(() => {
       expect(screen.getByText(formatDate("2024-01-31"))).toBeInTheDocument();
       const proteinSection = screen
-        .getByText(/protein/i)
+        .getByRole("spinbutton", { name: "Protein" })
         .closest(".nutrient-row");
       const filledDots = proteinSection?.querySelectorAll(
         ".dot.filled:not(.excess)",
@@ -601,13 +729,13 @@ describe("Portions component", () => {
       expect(screen.getByText(formatDate("2024-01-31"))).toBeInTheDocument();
     });
 
-    const nextButton = screen.getByRole("button", { name: ">" });
+    const nextButton = screen.getByRole("button", { name: "Next day" });
     await user.click(nextButton);
 
     await waitFor(() => {
       expect(screen.getByText(formatDate("2024-02-01"))).toBeInTheDocument();
       const proteinSection = screen
-        .getByText(/protein/i)
+        .getByRole("spinbutton", { name: "Protein" })
         .closest(".nutrient-row");
       const filledDots = proteinSection?.querySelectorAll(
         ".dot.filled:not(.excess)",
@@ -626,13 +754,13 @@ describe("Portions component", () => {
       expect(screen.getByText(formatDate("2024-01-01"))).toBeInTheDocument();
     });
 
-    const prevButton = screen.getByRole("button", { name: "<" });
+    const prevButton = screen.getByRole("button", { name: "Previous day" });
     await user.click(prevButton);
 
     await waitFor(() => {
       expect(screen.getByText(formatDate("2023-12-31"))).toBeInTheDocument();
       const proteinSection = screen
-        .getByText(/protein/i)
+        .getByRole("spinbutton", { name: "Protein" })
         .closest(".nutrient-row");
       const filledDots = proteinSection?.querySelectorAll(
         ".dot.filled:not(.excess)",
@@ -651,13 +779,13 @@ describe("Portions component", () => {
       expect(screen.getByText(formatDate("2023-12-31"))).toBeInTheDocument();
     });
 
-    const nextButton = screen.getByRole("button", { name: ">" });
+    const nextButton = screen.getByRole("button", { name: "Next day" });
     await user.click(nextButton);
 
     await waitFor(() => {
       expect(screen.getByText(formatDate("2024-01-01"))).toBeInTheDocument();
       const proteinSection = screen
-        .getByText(/protein/i)
+        .getByRole("spinbutton", { name: "Protein" })
         .closest(".nutrient-row");
       const filledDots = proteinSection?.querySelectorAll(
         ".dot.filled:not(.excess)",
@@ -676,25 +804,29 @@ describe("Portions component", () => {
       expect(screen.getByText(formatDate("2024-02-28"))).toBeInTheDocument();
     });
 
-    await user.click(screen.getByRole("button", { name: ">" }));
+    await user.click(screen.getByRole("button", { name: "Next day" }));
 
     await waitFor(() => {
       expect(screen.getByText(formatDate("2024-02-29"))).toBeInTheDocument();
     });
 
-    let proteinSection = screen.getByText(/protein/i).closest(".nutrient-row");
+    let proteinSection = screen
+      .getByRole("spinbutton", { name: "Protein" })
+      .closest(".nutrient-row");
     let filledDots = proteinSection?.querySelectorAll(
       ".dot.filled:not(.excess)",
     );
     expect(filledDots).toHaveLength(2);
 
-    await user.click(screen.getByRole("button", { name: ">" }));
+    await user.click(screen.getByRole("button", { name: "Next day" }));
 
     await waitFor(() => {
       expect(screen.getByText(formatDate("2024-03-01"))).toBeInTheDocument();
     });
 
-    proteinSection = screen.getByText(/protein/i).closest(".nutrient-row");
+    proteinSection = screen
+      .getByRole("spinbutton", { name: "Protein" })
+      .closest(".nutrient-row");
     filledDots = proteinSection?.querySelectorAll(".dot.filled:not(.excess)");
     expect(filledDots).toHaveLength(3);
   });
@@ -709,23 +841,27 @@ describe("Portions component", () => {
       expect(screen.getByText(formatDate("2024-03-01"))).toBeInTheDocument();
     });
 
-    await user.click(screen.getByRole("button", { name: "<" }));
+    await user.click(screen.getByRole("button", { name: "Previous day" }));
 
     await waitFor(() => {
       expect(screen.getByText(formatDate("2024-02-29"))).toBeInTheDocument();
     });
 
-    let carbsSection = screen.getByText(/carbs/i).closest(".nutrient-row");
+    let carbsSection = screen
+      .getByRole("spinbutton", { name: "Carbs" })
+      .closest(".nutrient-row");
     let filledDots = carbsSection?.querySelectorAll(".dot.filled:not(.excess)");
     expect(filledDots).toHaveLength(2);
 
-    await user.click(screen.getByRole("button", { name: "<" }));
+    await user.click(screen.getByRole("button", { name: "Previous day" }));
 
     await waitFor(() => {
       expect(screen.getByText(formatDate("2024-02-28"))).toBeInTheDocument();
     });
 
-    carbsSection = screen.getByText(/carbs/i).closest(".nutrient-row");
+    carbsSection = screen
+      .getByRole("spinbutton", { name: "Carbs" })
+      .closest(".nutrient-row");
     filledDots = carbsSection?.querySelectorAll(".dot.filled:not(.excess)");
     expect(filledDots).toHaveLength(2);
   });
@@ -740,13 +876,13 @@ describe("Portions component", () => {
       expect(screen.getByText(formatDate("2023-02-28"))).toBeInTheDocument();
     });
 
-    const nextButton = screen.getByRole("button", { name: ">" });
+    const nextButton = screen.getByRole("button", { name: "Next day" });
     await user.click(nextButton);
 
     await waitFor(() => {
       expect(screen.getByText(formatDate("2023-03-01"))).toBeInTheDocument();
       const proteinSection = screen
-        .getByText(/protein/i)
+        .getByRole("spinbutton", { name: "Protein" })
         .closest(".nutrient-row");
       const filledDots = proteinSection?.querySelectorAll(
         ".dot.filled:not(.excess)",
@@ -764,26 +900,26 @@ describe("Portions component", () => {
     });
 
     // Navigate forward and check data
-    await user.click(screen.getByRole("button", { name: ">" }));
+    await user.click(screen.getByRole("button", { name: "Next day" }));
     await waitFor(() => {
       expect(screen.getByText(formatDate("2024-01-16"))).toBeInTheDocument();
     });
 
     let vegetablesSection = screen
-      .getByText(/vegetables/i)
+      .getByRole("spinbutton", { name: "Vegetables" })
       .closest(".nutrient-row");
     let filledDots = vegetablesSection?.querySelectorAll(
       ".dot.filled:not(.excess)",
     );
     expect(filledDots).toHaveLength(2);
 
-    await user.click(screen.getByRole("button", { name: ">" }));
+    await user.click(screen.getByRole("button", { name: "Next day" }));
     await waitFor(() => {
       expect(screen.getByText(formatDate("2024-01-17"))).toBeInTheDocument();
     });
 
     vegetablesSection = screen
-      .getByText(/vegetables/i)
+      .getByRole("spinbutton", { name: "Vegetables" })
       .closest(".nutrient-row");
     filledDots = vegetablesSection?.querySelectorAll(
       ".dot.filled:not(.excess)",
@@ -791,26 +927,26 @@ describe("Portions component", () => {
     expect(filledDots).toHaveLength(3);
 
     // Navigate back and verify data updates
-    await user.click(screen.getByRole("button", { name: "<" }));
+    await user.click(screen.getByRole("button", { name: "Previous day" }));
     await waitFor(() => {
       expect(screen.getByText(formatDate("2024-01-16"))).toBeInTheDocument();
     });
 
     vegetablesSection = screen
-      .getByText(/vegetables/i)
+      .getByRole("spinbutton", { name: "Vegetables" })
       .closest(".nutrient-row");
     filledDots = vegetablesSection?.querySelectorAll(
       ".dot.filled:not(.excess)",
     );
     expect(filledDots).toHaveLength(2);
 
-    await user.click(screen.getByRole("button", { name: "<" }));
+    await user.click(screen.getByRole("button", { name: "Previous day" }));
     await waitFor(() => {
       expect(screen.getByText(formatDate("2024-01-15"))).toBeInTheDocument();
     });
 
     vegetablesSection = screen
-      .getByText(/vegetables/i)
+      .getByRole("spinbutton", { name: "Vegetables" })
       .closest(".nutrient-row");
     filledDots = vegetablesSection?.querySelectorAll(
       ".dot.filled:not(.excess)",
@@ -818,25 +954,31 @@ describe("Portions component", () => {
     expect(filledDots).toHaveLength(4);
   });
 
-  it("shows error toast and reverts optimistic update when mutation fails", async () => {
+  it("shows error toast and reverts optimistic update when mutation is rejected", async () => {
     const user = userEvent.setup();
 
     mockFetch.mockImplementation((url, options?) => {
       if (
         options?.method === "POST" &&
         typeof url === "string" &&
-        url.includes("/consume")
+        url.endsWith("/commands")
       ) {
-        return Promise.reject(new Error("Network error"));
+        return Promise.resolve({
+          ok: false,
+          status: 400,
+          text: () => Promise.resolve("Invalid nutrient"),
+        } as Response);
       }
 
       if (typeof url === "string" && url.includes("/portions")) {
         return Promise.resolve({
+          ok: true,
           json: () => Promise.resolve(mockPortionsData),
         } as Response);
       }
 
       return Promise.resolve({
+        ok: true,
         json: () => Promise.resolve(mockGoalsData),
       } as Response);
     });
@@ -851,21 +993,68 @@ describe("Portions component", () => {
       expect(screen.getByText(/protein/i)).toBeInTheDocument();
     });
 
-    const increaseButtons = screen.getAllByRole("button", { name: "+" });
-    await user.click(increaseButtons[0]);
+    await user.click(screen.getByRole("button", { name: "Add Protein" }));
 
     await waitFor(() => {
       expect(errorToastSpy).toHaveBeenCalledWith(
-        "Error communicating with the backend. Please check your Internet connection.",
+        "Rejected by the backend: Invalid nutrient",
       );
     });
 
     // Check that there are no in-progress dots
+    const inProgressDots = screen
+      .getByRole("spinbutton", { name: "Protein" })
+      .querySelectorAll(".dot.in-progress");
+    expect(inProgressDots).toHaveLength(0);
+  });
+
+  it("keeps the mutation pending when the backend is unreachable", async () => {
+    const user = userEvent.setup();
+
+    mockFetch.mockImplementation((url, options?) => {
+      if (options?.method === "POST") {
+        return Promise.reject(new Error("Network error"));
+      }
+
+      if (typeof url === "string" && url.includes("/portions")) {
+        return Promise.resolve({
+          ok: true,
+          json: () => Promise.resolve(mockPortionsData),
+        } as Response);
+      }
+
+      return Promise.resolve({
+        ok: true,
+        json: () => Promise.resolve(mockGoalsData),
+      } as Response);
+    });
+
+    const errorToastSpy = spyOn(toast, "error").mockImplementation(
+      () => "test-id",
+    );
+
+    renderWithClient(<Portions />);
+
+    await waitFor(() => {
+      expect(screen.getByText(/protein/i)).toBeInTheDocument();
+    });
+
+    await user.click(screen.getByRole("button", { name: "Add Protein" }));
+
+    await waitFor(() => {
+      expect(globalThis.fetch).toHaveBeenCalledWith(
+        "http://test-api/profiles/1/commands",
+        expect.objectContaining({ method: "POST" }),
+      );
+    });
+
     const proteinSection = screen
-      .getByText(/protein/i)
+      .getByRole("spinbutton", { name: "Protein" })
       .closest(".nutrient-row");
-    const inProgressDots = proteinSection?.querySelectorAll(".dot.in-progress");
-    expect(inProgressDots).toHaveLength(0);
+    expect(proteinSection?.querySelectorAll(".dot.in-progress")).toHaveLength(
+      1,
+    );
+    expect(errorToastSpy).not.toHaveBeenCalled();
   });
 
   it("opens date picker when calendar button is clicked", async () => {
@@ -905,16 +1094,613 @@ describe("Portions component", () => {
       expect(screen.getByText(formatDate("2024-01-16"))).toBeInTheDocument();
       expect(globalThis.fetch).toHaveBeenCalledWith(
         expect.stringContaining("/days/2024-01-16/portions"),
+        expect.anything(),
       );
     });
 
     // Verify data updated
     const proteinSection = screen
-      .getByText(/protein/i)
+      .getByRole("spinbutton", { name: "Protein" })
       .closest(".nutrient-row");
     const filledDots = proteinSection?.querySelectorAll(
       ".dot.filled:not(.excess)",
     );
     expect(filledDots).toHaveLength(2); // 2024-01-16 has 2 protein
   });
+
+  describe("meals", () => {
+    const mockMeals = (meals: object) => {
+      mockFetch.mockImplementation((url) => {
+        if (typeof url === "string" && url.includes("/meals")) {
+          return Promise.resolve({
+            ok: true,
+            json: () => Promise.resolve(meals),
+          } as Response);
+        }
+        if (typeof url === "string" && url.includes("/portions")) {
+          return Promise.resolve({
+            ok: true,
+            json: () => Promise.resolve(mockPortionsData),
+          } as Response);
+        }
+        return Promise.resolve({
+          ok: true,
+          json: () => Promise.resolve(mockGoalsData),
+        } as Response);
+      });
+    };
+
+    it("records the portion for the selected meal", async () => {
+      const user = userEvent.setup();
+      mockMeals({});
+      renderWithClient(<Portions />);
+
+      const dinner = await screen.findByRole("button", { name: "Dinner" });
+      await user.click(dinner);
+      expect(dinner).toHaveAttribute("aria-pressed", "true");
+      await user.click(screen.getByRole("button", { name: "Add Protein" }));
+
+      await waitFor(() => {
+        expect(sentCommands()).toEqual([
+          {
+            type: "consume",
+            date: "2024-01-15",
+            nutrient: "protein",
+            meal: "dinner",
+          },
+        ]);
+      });
+    });
+
+    it("records half portions", async () => {
+      const user = userEvent.setup();
+      mockMeals({});
+      renderWithClient(<Portions />);
+
+      await user.click(await screen.findByRole("button", { name: "Dinner" }));
+      await user.click(screen.getByRole("button", { name: "½ portions" }));
+      await user.click(screen.getByRole("button", { name: "Add Protein" }));
+
+      await waitFor(() => {
+        expect(sentCommands()).toEqual([
+          {
+            type: "consume",
+            date: "2024-01-15",
+            nutrient: "protein",
+            meal: "dinner",
+            amount: 0.5,
+          },
+        ]);
+      });
+    });
+
+    it("shows the portions of each meal", async () => {
+      mockMeals({ breakfast: { protein: 1 }, lunch: { protein: 1, carbs: 2 } });
+      renderWithClient(<Portions />);
+
+      await waitFor(() => {
+        expect(
+          screen
+            .getByRole("spinbutton", { name: "Protein" })
+            .closest(".nutrient-row")
+            ?.querySelector(".breakdown"),
+        ).toHaveTextContent("Breakfast 1Lunch 1Other 1");
+      });
+      expect(
+        screen
+          .getByRole("spinbutton", { name: "Carbs" })
+          .closest(".nutrient-row")
+          ?.querySelector(".breakdown"),
+      ).toHaveTextContent("Lunch 2");
+      expect(
+        screen
+          .getByRole("spinbutton", { name: "Fats" })
+          .closest(".nutrient-row")
+          ?.querySelector(".breakdown"),
+      ).toBeNull();
+    });
+
+    it("removes a portion from a meal having one", async () => {
+      const user = userEvent.setup();
+      mockMeals({ lunch: { protein: 3 } });
+      renderWithClient(<Portions />);
+
+      await user.click(await screen.findByRole("button", { name: "Dinner" }));
+      await waitFor(() => {
+        expect(screen.getByText("Lunch 3")).toBeInTheDocument();
+      });
+      await user.click(screen.getByRole("button", { name: "Remove Protein" }));
+
+      await waitFor(() => {
+        expect(sentCommands()).toEqual([
+          {
+            type: "unconsume",
+            date: "2024-01-15",
+            nutrient: "protein",
+            meal: "lunch",
+          },
+        ]);
+      });
+    });
+    it("removes quick taps from the meals left after the pending ones", async () => {
+      const user = userEvent.setup();
+      mockFetch.mockImplementation((url) => {
+        if (typeof url === "string" && url.includes("/meals")) {
+          return Promise.resolve({
+            ok: true,
+            json: () =>
+              Promise.resolve({
+                lunch: { protein: 1 },
+                dinner: { protein: 1 },
+              }),
+          } as Response);
+        }
+        if (typeof url === "string" && url.includes("/portions")) {
+          return Promise.resolve({
+            ok: true,
+            json: () => Promise.resolve({ protein: 2 }),
+          } as Response);
+        }
+        return Promise.resolve({
+          ok: true,
+          json: () => Promise.resolve(mockGoalsData),
+        } as Response);
+      });
+      renderWithClient(<Portions />);
+
+      await user.click(await screen.findByRole("button", { name: "Dinner" }));
+      await waitFor(() => {
+        expect(screen.getByText("Dinner 1")).toBeInTheDocument();
+      });
+      const removeProtein = screen.getByRole("button", {
+        name: "Remove Protein",
+      });
+      await user.click(removeProtein);
+      await waitFor(() => {
+        expect(document.querySelectorAll(".dot.in-progress")).toHaveLength(1);
+      });
+      await user.click(removeProtein);
+
+      await waitFor(() => {
+        expect(sentCommands()).toEqual([
+          {
+            type: "unconsume",
+            date: "2024-01-15",
+            nutrient: "protein",
+            meal: "dinner",
+          },
+          {
+            type: "unconsume",
+            date: "2024-01-15",
+            nutrient: "protein",
+            meal: "lunch",
+          },
+        ]);
+      });
+      expect(
+        mockFetch.mock.calls.filter(([url]) => url.endsWith("/commands")),
+      ).toHaveLength(1);
+    });
+
+    it("records the difference to the count entered", async () => {
+      const user = userEvent.setup();
+      mockMeals({ lunch: { protein: 1 } });
+      renderWithClient(<Portions />);
+
+      await user.click(await screen.findByRole("button", { name: "Dinner" }));
+      await waitFor(() => {
+        expect(screen.getByText("Lunch 1")).toBeInTheDocument();
+      });
+      await user.click(screen.getByRole("spinbutton", { name: "Protein" }));
+      await user.clear(
+        screen.getByRole("spinbutton", { name: "Number of Protein" }),
+      );
+      await user.type(
+        screen.getByRole("spinbutton", { name: "Number of Protein" }),
+        "0{Enter}",
+      );
+      await user.click(screen.getByRole("spinbutton", { name: "Vegetables" }));
+      await user.clear(
+        screen.getByRole("spinbutton", { name: "Number of Vegetables" }),
+      );
+      await user.type(
+        screen.getByRole("spinbutton", { name: "Number of Vegetables" }),
+        "6{Enter}",
+      );
+
+      await waitFor(() => {
+        expect(sentCommands()).toEqual([
+          {
+            type: "unconsume",
+            date: "2024-01-15",
+            nutrient: "protein",
+            amount: 2,
+          },
+          {
+            type: "unconsume",
+            date: "2024-01-15",
+            nutrient: "protein",
+            meal: "lunch",
+          },
+          {
+            type: "consume",
+            date: "2024-01-15",
+            nutrient: "vegetables",
+            meal: "dinner",
+            amount: 2,
+          },
+        ]);
+      });
+    });
+  });
+
+  describe("keyboard shortcuts", () => {
+    it("records a portion of the nutrient in the row of the number", async () => {
+      const user = userEvent.setup();
+      renderWithClient(<Portions />);
+      await screen.findByText("Carbs");
+
+      await user.keyboard("2");
+
+      await waitFor(() => {
+        expect(sentCommands()).toEqual([
+          expect.objectContaining({ type: "consume", nutrient: "carbs" }),
+        ]);
+      });
+    });
+
+    it("removes a portion with shift", async () => {
+      const user = userEvent.setup();
+      renderWithClient(<Portions />);
+      await screen.findByText("Protein");
+
+      await user.keyboard("{Shift>}1{/Shift}");
+
+      await waitFor(() => {
+        expect(sentCommands()).toEqual([
+          expect.objectContaining({ type: "unconsume", nutrient: "protein" }),
+        ]);
+      });
+    });
+
+    it("ignores numbers without a nutrient", async () => {
+      const user = userEvent.setup();
+      renderWithClient(<Portions />);
+      await screen.findByText("Protein");
+
+      await user.keyboard("5");
+
+      expect(globalThis.fetch).not.toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ method: "POST" }),
+      );
+    });
+
+    it("moves between days and back to today", async () => {
+      const user = userEvent.setup();
+      renderWithClient(<Portions />);
+      await screen.findByText(formatDate("2024-01-15"));
+
+      await user.keyboard("{ArrowLeft}{ArrowLeft}");
+      expect(
+        await screen.findByText(formatDate("2024-01-13")),
+      ).toBeInTheDocument();
+
+      await user.keyboard("{ArrowRight}");
+      expect(
+        await screen.findByText(formatDate("2024-01-14")),
+      ).toBeInTheDocument();
+
+      await user.keyboard("t");
+      expect(
+        await screen.findByText(formatDate("2024-01-15")),
+      ).toBeInTheDocument();
+    });
+
+    it("leaves the keys in form fields alone", async () => {
+      const user = userEvent.setup();
+      renderWithClient(<Portions />);
+
+      await user.click(await screen.findByDisplayValue("2024-01-15"));
+      await user.keyboard("{ArrowLeft}");
+
+      expect(screen.getByText(formatDate("2024-01-15"))).toBeInTheDocument();
+    });
+  });
+
+  describe("copying another day", () => {
+    afterEach(() => {
+      // The toasts are kept globally, the one offering to undo would outlive the test.
+      toast.remove();
+    });
+
+    it("previews the portions of the previous day", async () => {
+      const user = userEvent.setup();
+      renderWithClient(<Portions />);
+
+      await user.click(
+        await screen.findByRole("button", { name: "Copy from another day…" }),
+      );
+
+      const dialog = screen.getByRole("dialog", { name: "Copy portions" });
+      expect(
+        within(dialog).getByDisplayValue("2024-01-14"),
+      ).toBeInTheDocument();
+      await waitFor(() => {
+        expect(dialog.querySelectorAll(".copy-day-row")).toHaveLength(4);
+      });
+      expect(within(dialog).getByText("Vegetables")).toBeInTheDocument();
+    });
+
+    it("does not copy a day without portions", async () => {
+      const user = userEvent.setup();
+      renderWithClient(<Portions />);
+
+      await user.click(
+        await screen.findByRole("button", { name: "Copy from another day…" }),
+      );
+      fireEvent.change(screen.getByDisplayValue("2024-01-14"), {
+        target: { value: "2024-01-10" },
+      });
+
+      expect(
+        await screen.findByText("Nothing is recorded on that day."),
+      ).toBeInTheDocument();
+      expect(screen.getByRole("button", { name: "Copy" })).toBeDisabled();
+    });
+
+    it("copies the portions in one batch, and undoes it in another", async () => {
+      const user = userEvent.setup();
+      renderWithClient(
+        <>
+          <Toaster />
+          <Portions />
+        </>,
+      );
+
+      await user.click(
+        await screen.findByRole("button", { name: "Copy from another day…" }),
+      );
+      fireEvent.change(screen.getByDisplayValue("2024-01-14"), {
+        target: { value: "2024-01-01" },
+      });
+      await screen.findByText("Vegetables");
+      await user.click(screen.getByRole("button", { name: "Copy" }));
+
+      expect(screen.queryByRole("dialog")).toBeNull();
+      await waitFor(() => {
+        expect(sentCommands()).toEqual([
+          {
+            type: "consume",
+            date: "2024-01-15",
+            nutrient: "protein",
+            amount: 1,
+          },
+          { type: "consume", date: "2024-01-15", nutrient: "carbs", amount: 1 },
+          {
+            type: "consume",
+            date: "2024-01-15",
+            nutrient: "vegetables",
+            amount: 1,
+          },
+        ]);
+      });
+
+      await user.click(await screen.findByRole("button", { name: "Undo" }));
+
+      await waitFor(() => {
+        expect(
+          mockFetch.mock.calls
+            .filter(([url]) => url.endsWith("/commands"))
+            .map(([, options]) => JSON.parse(options.body)),
+        ).toHaveLength(2);
+      });
+      expect(sentCommands().slice(3)).toEqual([
+        {
+          type: "unconsume",
+          date: "2024-01-15",
+          nutrient: "protein",
+          amount: 1,
+        },
+        { type: "unconsume", date: "2024-01-15", nutrient: "carbs", amount: 1 },
+        {
+          type: "unconsume",
+          date: "2024-01-15",
+          nutrient: "vegetables",
+          amount: 1,
+        },
+      ]);
+    });
+  });
+
+  describe("saved meals", () => {
+    const chickenBowl = {
+      id: 7,
+      name: "Chicken bowl",
+      position: 0,
+      portions: { protein: 1, carbs: 1, vegetables: 2 },
+    };
+
+    const mockBackend = (rejectBatch: boolean) =>
+      mockFetch.mockImplementation((url: string, options?) => {
+        if (url.endsWith("/saved-meals")) {
+          return Promise.resolve({
+            ok: true,
+            json: () => Promise.resolve([chickenBowl]),
+          } as Response);
+        }
+        if (options?.method === "POST") {
+          return Promise.resolve(
+            rejectBatch
+              ? ({
+                  ok: false,
+                  status: 400,
+                  text: () => Promise.resolve("invalid nutrient"),
+                } as Response)
+              : ({
+                  ok: true,
+                  json: () => Promise.resolve("success"),
+                } as Response),
+          );
+        }
+        return Promise.resolve({
+          ok: true,
+          json: () =>
+            Promise.resolve(
+              url.includes("/portions") ? mockPortionsData : mockGoalsData,
+            ),
+        } as Response);
+      });
+
+    const inProgressDots = () =>
+      document.querySelectorAll(".dot.in-progress").length;
+
+    it("records all portions of a saved meal in one command", async () => {
+      const user = userEvent.setup();
+      mockBackend(false);
+      const outbox = new Outbox(memoryOutboxStore());
+      spyOn(outbox, "flush").mockImplementation(() => Promise.resolve());
+      renderWithClient(<Portions />, outbox);
+
+      await user.click(await screen.findByRole("button", { name: "Dinner" }));
+      await user.click(
+        await screen.findByRole("button", { name: "Chicken bowl" }),
+      );
+
+      await waitFor(() => {
+        expect(inProgressDots()).toBe(4);
+      });
+      expect(await outbox.list()).toEqual([
+        expect.objectContaining({
+          url: "http://test-api/profiles/1/commands",
+          body: [
+            {
+              type: "consume",
+              date: "2024-01-15",
+              nutrient: "protein",
+              meal: "dinner",
+              amount: 1,
+            },
+            {
+              type: "consume",
+              date: "2024-01-15",
+              nutrient: "carbs",
+              meal: "dinner",
+              amount: 1,
+            },
+            {
+              type: "consume",
+              date: "2024-01-15",
+              nutrient: "vegetables",
+              meal: "dinner",
+              amount: 2,
+            },
+          ],
+        }),
+      ]);
+    });
+
+    it("drops all portions of a saved meal rejected by the backend", async () => {
+      const user = userEvent.setup();
+      mockBackend(true);
+      const errorToastSpy = spyOn(toast, "error").mockImplementation(
+        () => "test-id",
+      );
+      renderWithClient(<Portions />);
+
+      await user.click(
+        await screen.findByRole("button", { name: "Chicken bowl" }),
+      );
+
+      await waitFor(() => {
+        expect(errorToastSpy).toHaveBeenCalledWith(
+          "Rejected by the backend: invalid nutrient",
+        );
+      });
+      expect(inProgressDots()).toBe(0);
+      expect(
+        mockFetch.mock.calls.filter(
+          ([, options]) => options?.method === "POST",
+        ),
+      ).toHaveLength(1);
+    });
+  });
+
+  describe.each([
+    ["Asia/Tokyo", "2024-01-15"],
+    ["America/Los_Angeles", "2024-01-14"],
+  ])("in %s", (timeZone, today) => {
+    const deviceTimeZone = process.env.TZ;
+
+    beforeAll(() => {
+      process.env.TZ = timeZone;
+    });
+
+    afterAll(() => {
+      if (deviceTimeZone === undefined) {
+        delete process.env.TZ;
+      } else {
+        process.env.TZ = deviceTimeZone;
+      }
+    });
+
+    it("shows the day on the clock of the device", async () => {
+      // 00:30 in Tokyo, and 07:30 of the day before in California.
+      setSystemTime(new Date("2024-01-14T15:30:00Z"));
+      renderWithClient(<Portions />);
+
+      expect(await screen.findByText(formatDate(today))).toBeInTheDocument();
+      expect(globalThis.fetch).toHaveBeenCalledWith(
+        expect.stringContaining(`/days/${today}/portions`),
+        expect.anything(),
+      );
+    });
+
+    it("shows the date selected in the picker", async () => {
+      renderWithClient(<Portions />);
+
+      fireEvent.change(await screen.findByDisplayValue("2024-01-15"), {
+        target: { value: "2024-01-16" },
+      });
+
+      expect(
+        await screen.findByText(formatDate("2024-01-16")),
+      ).toBeInTheDocument();
+      expect(screen.getByDisplayValue("2024-01-16")).toBeInTheDocument();
+    });
+
+    it("shows the day in the chosen time zone", async () => {
+      setSystemTime(new Date("2024-01-14T15:30:00Z"));
+      renderWithClient(
+        <UserSettings.Provider
+          value={{ ...DEFAULT_SETTINGS, timeZone: "UTC", dayStartHour: 0 }}
+        >
+          <Portions />
+        </UserSettings.Provider>,
+      );
+
+      expect(
+        await screen.findByText(formatDate("2024-01-14")),
+      ).toBeInTheDocument();
+    });
+  });
+
+  it("counts the hours before the start of the day to the previous day", async () => {
+    setSystemTime(new Date("2024-01-15T03:00:00Z"));
+    renderWithClient(
+      <UserSettings.Provider
+        value={{ ...DEFAULT_SETTINGS, timeZone: "UTC", dayStartHour: 4 }}
+      >
+        <Portions />
+      </UserSettings.Provider>,
+    );
+
+    expect(
+      await screen.findByText(formatDate("2024-01-14")),
+    ).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "Snack" })).toHaveAttribute(
+      "aria-pressed",
+      "true",
+    );
+  });
 });
@@ -0,0 +1,112 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  mock,
+  spyOn,
+} from "bun:test";
+import { screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import toast from "react-hot-toast";
+import ProfileSelect from "../components/ProfileSelect";
+import { renderWithClient } from "./utils";
+
+describe("ProfileSelect component", () => {
+  const profiles = [
+    { id: 1, name: "Alice" },
+    { id: 2, name: "Bob" },
+  ];
+
+  beforeEach(() => {
+    spyOn(toast, "error").mockImplementation(() => "");
+    globalThis.fetch = mock((_url: string, options?: RequestInit) =>
+      Promise.resolve({
+        ok: true,
+        json: () =>
+          Promise.resolve(
+            options?.method === "POST" ? { id: 3, name: "Carol" } : profiles,
+          ),
+      } as Response),
+    ) as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it("lists the profiles and selects one", async () => {
+    const user = userEvent.setup();
+    const onChange = mock();
+    renderWithClient(<ProfileSelect profile={1} onChange={onChange} />);
+
+    const select = await screen.findByRole("combobox", { name: "Profile" });
+    expect(select).toHaveValue("1");
+    expect(screen.getByRole("option", { name: "Bob" })).toBeInTheDocument();
+
+    await user.selectOptions(select, "2");
+    expect(onChange).toHaveBeenCalledWith(2);
+  });
+
+  it("creates a new profile and selects it", async () => {
+    const user = userEvent.setup();
+    const onChange = mock();
+    spyOn(window, "prompt").mockImplementation(() => " Carol ");
+    renderWithClient(<ProfileSelect profile={1} onChange={onChange} />);
+
+    const select = await screen.findByRole("combobox", { name: "Profile" });
+    await user.selectOptions(select, "New profile…");
+
+    await waitFor(() => {
+      expect(onChange).toHaveBeenCalledWith(3);
+    });
+    expect(globalThis.fetch).toHaveBeenCalledWith(
+      "http://test-api/profiles",
+      expect.objectContaining({
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: "Carol" }),
+      }),
+    );
+  });
+
+  it("creates nothing when the prompt is cancelled", async () => {
+    const user = userEvent.setup();
+    const onChange = mock();
+    spyOn(window, "prompt").mockImplementation(() => null);
+    renderWithClient(<ProfileSelect profile={1} onChange={onChange} />);
+
+    const select = await screen.findByRole("combobox", { name: "Profile" });
+    await user.selectOptions(select, "New profile…");
+
+    expect(onChange).not.toHaveBeenCalled();
+    expect(select).toHaveValue("1");
+  });
+
+  it("renders nothing when the profiles can't be loaded", async () => {
+    globalThis.fetch = mock(() =>
+      Promise.reject(new Error("Network error")),
+    ) as unknown as typeof fetch;
+    renderWithClient(<ProfileSelect profile={1} onChange={mock()} />);
+
+    await waitFor(() => {
+      expect(globalThis.fetch).toHaveBeenCalled();
+    });
+    expect(screen.queryByRole("combobox")).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,212 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  mock,
+  setSystemTime,
+} from "bun:test";
+import { waitFor } from "@testing-library/react";
+import Reminders from "@/components/Reminders";
+import { DEFAULT_SETTINGS, type Settings, UserSettings } from "@/settings";
+import { renderWithClient } from "./utils";
+
+describe("Reminders", () => {
+  const shown = mock();
+
+  const settings: Settings = {
+    ...DEFAULT_SETTINGS,
+    timeZone: "UTC",
+    mealReminders: { dinner: "19:00" },
+    summaryTime: "21:00",
+  };
+
+  const renderReminders = () =>
+    renderWithClient(
+      <UserSettings.Provider value={settings}>
+        <Reminders />
+      </UserSettings.Provider>,
+    );
+
+  const mockDay = (meals: object, portions: object) => {
+    globalThis.fetch = mock((url: string) =>
+      Promise.resolve({
+        ok: true,
+        json: () =>
+          Promise.resolve(
+            url.endsWith("/meals")
+              ? meals
+              : url.endsWith("/portions")
+                ? portions
+                : { protein: 4, vegetables: 5 },
+          ),
+      } as Response),
+    ) as unknown as typeof fetch;
+  };
+
+  beforeEach(() => {
+    shown.mockClear();
+    const FakeNotification = class {
+      static permission = "granted";
+      constructor(title: string, options: NotificationOptions) {
+        shown(title, options);
+      }
+    };
+    Object.defineProperty(window, "Notification", {
+      value: FakeNotification,
+      configurable: true,
+    });
+    Object.defineProperty(navigator, "serviceWorker", {
+      value: undefined,
+      configurable: true,
+    });
+  });
+
+  afterEach(() => {
+    mock.restore();
+    localStorage.removeItem("sentReminders");
+  });
+
+  it("reminds of a meal not recorded yet, once a day", async () => {
+    setSystemTime(new Date("2024-01-15T19:05:00Z"));
+    mockDay({ lunch: { protein: 1 } }, {});
+
+    renderReminders();
+
+    await waitFor(() => {
+      expect(shown).toHaveBeenCalledWith(
+        "Dinner",
+        expect.objectContaining({
+          body: "Nothing recorded yet.",
+          data: { url: "/day/2024-01-15" },
+        }),
+      );
+    });
+    expect(JSON.parse(localStorage.getItem("sentReminders") ?? "")).toEqual({
+      dinner: "2024-01-15",
+    });
+  });
+
+  it("doesn't remind of a recorded meal", async () => {
+    setSystemTime(new Date("2024-01-15T19:05:00Z"));
+    mockDay({ dinner: { protein: 1 } }, {});
+
+    renderReminders();
+
+    await waitFor(() => {
+      expect(localStorage.getItem("sentReminders")).not.toBeNull();
+    });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(shown).not.toHaveBeenCalled();
+  });
+
+  it("sums up the day against the goals", async () => {
+    setSystemTime(new Date("2024-01-15T21:00:00Z"));
+    mockDay({}, { protein: 4, vegetables: 3 });
+
+    renderReminders();
+
+    await waitFor(() => {
+      expect(shown).toHaveBeenCalledWith(
+        "Summary of the day",
+        expect.objectContaining({ body: "2 Vegetables short" }),
+      );
+    });
+  });
+
+  it("shows the notifications through the service worker", async () => {
+    const showNotification = mock(() => Promise.resolve());
+    Object.defineProperty(navigator, "serviceWorker", {
+      value: { getRegistration: () => Promise.resolve({ showNotification }) },
+      configurable: true,
+    });
+    setSystemTime(new Date("2024-01-15T19:05:00Z"));
+    mockDay({}, {});
+
+    renderReminders();
+
+    await waitFor(() => {
+      expect(showNotification).toHaveBeenCalledWith(
+        "Dinner",
+        expect.objectContaining({ tag: "dinner" }),
+      );
+    });
+    expect(shown).not.toHaveBeenCalled();
+  });
+
+  it("has the service worker check the reminders where there is one", async () => {
+    const postMessage = mock();
+    Object.defineProperty(navigator, "serviceWorker", {
+      value: {
+        controller: { postMessage },
+        getRegistration: () => Promise.resolve(undefined),
+      },
+      configurable: true,
+    });
+    setSystemTime(new Date("2024-01-15T19:05:00Z"));
+    mockDay({}, {});
+
+    renderReminders();
+
+    await waitFor(() => {
+      expect(postMessage).toHaveBeenCalledWith({
+        type: "checkReminders",
+        config: {
+          settings,
+          baseUrl: "http://test-api",
+          profile: 1,
+          token: null,
+          language: "en-GB",
+        },
+      });
+    });
+    expect(shown).not.toHaveBeenCalled();
+    expect(localStorage.getItem("sentReminders")).toBeNull();
+  });
+
+  it("has the reminders checked in the background where supported", async () => {
+    const periodicSync = { register: mock(), unregister: mock() };
+    Object.defineProperty(navigator, "serviceWorker", {
+      value: { getRegistration: () => Promise.resolve({ periodicSync }) },
+      configurable: true,
+    });
+    mockDay({}, {});
+
+    renderReminders();
+
+    await waitFor(() => {
+      expect(periodicSync.register).toHaveBeenCalledWith("reminders", {
+        minInterval: 15 * 60 * 1000,
+      });
+    });
+  });
+
+  it("shows nothing without the permission", async () => {
+    Object.defineProperty(window.Notification, "permission", {
+      value: "default",
+    });
+    setSystemTime(new Date("2024-01-15T21:00:00Z"));
+    mockDay({}, {});
+
+    renderReminders();
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(shown).not.toHaveBeenCalled();
+    expect(localStorage.getItem("sentReminders")).toBeNull();
+  });
+});
@@ -0,0 +1,184 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
+import { screen, waitFor, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import SavedMeals from "@/components/SavedMeals";
+import { renderWithClient } from "./utils";
+
+describe("SavedMeals component", () => {
+  const mockFetch = mock();
+
+  const savedMeals = [
+    {
+      id: 7,
+      name: "Chicken bowl",
+      position: 0,
+      portions: { protein: 1, carbs: 1, vegetables: 2, fats: 1 },
+    },
+    { id: 9, name: "Porridge", position: 1, portions: { carbs: 1.5 } },
+  ];
+
+  beforeEach(() => {
+    mock.clearAllMocks();
+    globalThis.fetch = mockFetch as unknown as typeof fetch;
+    mockFetch.mockImplementation((_url, options?) =>
+      Promise.resolve({
+        ok: true,
+        json: () =>
+          Promise.resolve(
+            options?.method === "POST"
+              ? { id: 10, ...JSON.parse(options.body) }
+              : savedMeals,
+          ),
+      } as Response),
+    );
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  const sent = (method: string) =>
+    mockFetch.mock.calls
+      .filter(([, options]) => options?.method === method)
+      .map(([url, options]) => [url, options.body && JSON.parse(options.body)]);
+
+  const item = async (index: number) =>
+    (await screen.findAllByRole("textbox", { name: "Name" }))[index].closest(
+      ".saved-meal-settings-item",
+    ) as HTMLElement;
+
+  it("lists the saved meals with their portions", async () => {
+    renderWithClient(<SavedMeals />);
+
+    const porridge = within(await item(1));
+    expect(porridge.getByRole("textbox", { name: "Name" })).toHaveValue(
+      "Porridge",
+    );
+    expect(porridge.getByRole("spinbutton", { name: "Carbs" })).toHaveValue(
+      1.5,
+    );
+    expect(porridge.getByRole("spinbutton", { name: "Protein" })).toHaveValue(
+      0,
+    );
+  });
+
+  it("adds a saved meal after the existing ones", async () => {
+    const user = userEvent.setup();
+    renderWithClient(<SavedMeals />);
+
+    const add = await screen.findByRole("button", { name: "Add" });
+    expect(add).toBeDisabled();
+    await user.type(
+      screen.getByRole("textbox", { name: "Name of the new meal" }),
+      " Salad ",
+    );
+    await user.click(add);
+
+    await waitFor(() => {
+      expect(sent("POST")).toEqual([
+        [
+          "http://test-api/profiles/1/saved-meals",
+          { name: "Salad", position: 2, portions: {} },
+        ],
+      ]);
+    });
+  });
+
+  it("changes the portions of a saved meal", async () => {
+    const user = userEvent.setup();
+    renderWithClient(<SavedMeals />);
+
+    const porridge = within(await item(1));
+    const protein = porridge.getByRole("spinbutton", { name: "Protein" });
+    await user.clear(protein);
+    await user.type(protein, "0.5");
+    const carbs = porridge.getByRole("spinbutton", { name: "Carbs" });
+    await user.click(carbs);
+    await user.clear(carbs);
+    await user.type(carbs, "0");
+    await user.tab();
+
+    await waitFor(() => {
+      expect(sent("PUT")).toEqual([
+        [
+          "http://test-api/profiles/1/saved-meals/9",
+          {
+            name: "Porridge",
+            position: 1,
+            portions: { carbs: 1.5, protein: 0.5 },
+          },
+        ],
+        [
+          "http://test-api/profiles/1/saved-meals/9",
+          { name: "Porridge", position: 1, portions: {} },
+        ],
+      ]);
+    });
+  });
+
+  it("restores the portions when the amount entered is invalid", async () => {
+    const user = userEvent.setup();
+    renderWithClient(<SavedMeals />);
+
+    const porridge = within(await item(1));
+    const carbs = porridge.getByRole("spinbutton", { name: "Carbs" });
+    await user.clear(carbs);
+    await user.type(carbs, "0.3");
+    await user.tab();
+    expect(carbs).toHaveValue(1.5);
+
+    await user.clear(carbs);
+    await user.type(carbs, "-1");
+    await user.tab();
+    expect(carbs).toHaveValue(1.5);
+
+    expect(sent("PUT")).toEqual([]);
+  });
+
+  it("moves a saved meal by swapping the positions", async () => {
+    const user = userEvent.setup();
+    renderWithClient(<SavedMeals />);
+
+    const first = within(await item(0));
+    expect(first.getByRole("button", { name: "Move up" })).toBeDisabled();
+    await user.click(first.getByRole("button", { name: "Move down" }));
+
+    await waitFor(() => {
+      expect(sent("PUT").map(([url, { position }]) => [url, position])).toEqual(
+        [
+          ["http://test-api/profiles/1/saved-meals/9", 0],
+          ["http://test-api/profiles/1/saved-meals/7", 1],
+        ],
+      );
+    });
+  });
+
+  it("deletes a saved meal", async () => {
+    const user = userEvent.setup();
+    renderWithClient(<SavedMeals />);
+
+    await user.click(
+      await screen.findByRole("button", { name: "Delete Chicken bowl" }),
+    );
+
+    await waitFor(() => {
+      expect(sent("DELETE")).toEqual([
+        ["http://test-api/profiles/1/saved-meals/7", undefined],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,60 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
+import { render, screen } from "@testing-library/react";
+import Settings from "@/components/Settings";
+import { DEFAULT_SETTINGS } from "@/settings";
+
+describe("Settings", () => {
+  const setPermission = (permission: NotificationPermission) => {
+    Object.defineProperty(window, "Notification", {
+      value: { permission },
+      configurable: true,
+    });
+  };
+
+  beforeEach(() => {
+    setPermission("default");
+  });
+
+  afterEach(() => {
+    mock.restore();
+    Reflect.deleteProperty(window, "Notification");
+  });
+
+  it("tells when reminders come while the app is closed", () => {
+    render(<Settings settings={DEFAULT_SETTINGS} onChange={() => {}} />);
+
+    expect(
+      screen.getByText(
+        /While the app is closed, reminders only come where the browser/,
+      ),
+    ).toBeInTheDocument();
+  });
+
+  it("keeps telling so when notifications are blocked", () => {
+    setPermission("denied");
+    render(<Settings settings={DEFAULT_SETTINGS} onChange={() => {}} />);
+
+    expect(
+      screen.getByText(/Notifications are blocked in the browser/),
+    ).toBeInTheDocument();
+    expect(
+      screen.getByText(
+        /While the app is closed, reminders only come where the browser/,
+      ),
+    ).toBeInTheDocument();
+  });
+});
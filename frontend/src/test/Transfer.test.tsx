@@ -0,0 +1,201 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  mock,
+  spyOn,
+} from "bun:test";
+import { screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import toast from "react-hot-toast";
+import Transfer from "@/components/Transfer";
+import { renderWithClient } from "./utils";
+
+describe("Transfer component", () => {
+  const mockExport = {
+    nutrients: [],
+    portions: [
+      {
+        timestamp: 1,
+        date: "2024-01-15",
+        nutrient: "protein",
+        type: "consume",
+        meal: "breakfast",
+        amount: 1,
+      },
+    ],
+    goals: [],
+  };
+
+  const mockSummary = {
+    nutrients: 0,
+    portions: 1,
+    goals: 0,
+    days: 1,
+    duplicates: 2,
+    conflicts: ["2024-01-15"],
+  };
+
+  const mockFetch = mock();
+
+  beforeEach(() => {
+    mock.clearAllMocks();
+    globalThis.fetch = mockFetch as unknown as typeof fetch;
+    mockFetch.mockImplementation((url: string) =>
+      Promise.resolve({
+        ok: true,
+        json: () =>
+          Promise.resolve(url.includes("/import") ? mockSummary : mockExport),
+      } as Response),
+    );
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  const selectFile = async (content: string, name = "export.json") => {
+    const user = userEvent.setup();
+    await user.upload(
+      screen.getByLabelText("Import"),
+      new File([content], name, { type: "application/json" }),
+    );
+    return user;
+  };
+
+  it("downloads the export as CSV", async () => {
+    const user = userEvent.setup();
+    const createObjectURL = spyOn(URL, "createObjectURL").mockReturnValue(
+      "blob:export",
+    );
+    const revokeObjectURL = spyOn(URL, "revokeObjectURL").mockImplementation(
+      () => {},
+    );
+    let revokedRightAway = false;
+    // happy-dom follows the link instead of downloading it, leaving the test page.
+    const clickLink = spyOn(
+      HTMLAnchorElement.prototype,
+      "click",
+    ).mockImplementation(() => {
+      queueMicrotask(() => {
+        revokedRightAway = revokeObjectURL.mock.calls.length > 0;
+      });
+    });
+    renderWithClient(<Transfer />);
+
+    await user.click(screen.getByRole("button", { name: "Download CSV" }));
+
+    await waitFor(() => {
+      expect(createObjectURL).toHaveBeenCalledTimes(1);
+    });
+    expect(clickLink).toHaveBeenCalledTimes(1);
+    await waitFor(() => {
+      expect(revokeObjectURL).toHaveBeenCalledWith("blob:export");
+    });
+    expect(revokedRightAway).toBe(false);
+    expect(mockFetch).toHaveBeenCalledWith(
+      "http://test-api/profiles/1/export",
+      expect.anything(),
+    );
+    const blob = createObjectURL.mock.calls[0][0] as Blob;
+    expect(await blob.text()).toBe(
+      "kind,timestamp,date,nutrient,type,meal,amount\nportion,1,2024-01-15,protein,consume,breakfast,1\n",
+    );
+  });
+
+  it("previews the import without changing anything", async () => {
+    renderWithClient(<Transfer />);
+
+    await selectFile(JSON.stringify(mockExport));
+
+    await waitFor(() => {
+      expect(
+        screen.getByText(
+          "1 portions on 1 days, 0 goal changes and 0 nutrients will be added.",
+        ),
+      ).toBeInTheDocument();
+    });
+    expect(
+      screen.getByText("2 entries are already present and will be skipped."),
+    ).toBeInTheDocument();
+    expect(screen.getByRole("listitem")).toHaveTextContent("15 Jan 2024");
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(mockFetch.mock.calls[0][0]).toBe(
+      "http://test-api/profiles/1/import?dry_run=true",
+    );
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toEqual(mockExport);
+  });
+
+  it("imports after the preview", async () => {
+    const success = spyOn(toast, "success").mockImplementation(() => "");
+    renderWithClient(<Transfer />);
+
+    const user = await selectFile(
+      "kind,timestamp,date,nutrient,type,meal,amount\nportion,1,2024-01-15,protein,consume,breakfast,1\n",
+      "export.csv",
+    );
+    await user.click(await screen.findByRole("button", { name: "Import" }));
+
+    await waitFor(() => {
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+    expect(mockFetch.mock.calls[1][0]).toBe(
+      "http://test-api/profiles/1/import?dry_run=false",
+    );
+    expect(JSON.parse(mockFetch.mock.calls[1][1].body)).toEqual(mockExport);
+    await waitFor(() => {
+      expect(
+        screen.queryByRole("button", { name: "Import" }),
+      ).not.toBeInTheDocument();
+    });
+    expect(success).toHaveBeenCalledWith("Data imported");
+  });
+
+  it("shows the reason the backend rejects the import", async () => {
+    mockFetch.mockImplementation(() =>
+      Promise.resolve({
+        ok: false,
+        text: () =>
+          Promise.resolve(
+            "Something went wrong: invalid request: unknown nutrient",
+          ),
+      } as Response),
+    );
+    renderWithClient(<Transfer />);
+
+    await selectFile(JSON.stringify(mockExport));
+
+    expect(
+      await screen.findByText(
+        "Rejected by the backend: Something went wrong: invalid request: unknown nutrient",
+      ),
+    ).toBeInTheDocument();
+  });
+
+  it("rejects files that are not exports", async () => {
+    renderWithClient(<Transfer />);
+
+    await selectFile("date,protein\n2024-01-15,2\n", "other.csv");
+
+    expect(
+      await screen.findByText("The file is not an export of this app."),
+    ).toBeInTheDocument();
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,122 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  mock,
+  setSystemTime,
+} from "bun:test";
+import { screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import Trends from "@/components/Trends";
+import { renderWithClient } from "./utils";
+
+describe("Trends", () => {
+  const mockGoalHistory = [
+    { from: "2024-01-01", goals: { protein: 4 } },
+    { from: "2024-01-12", goals: { protein: 5 } },
+  ];
+
+  const mockDataByDate = {
+    "2024-01-03": { protein: 7 },
+    "2024-01-13": { protein: 2 },
+    "2024-01-15": { protein: 3, carbs: 1 },
+  };
+
+  const mockFetch = mock();
+
+  beforeEach(() => {
+    mock.clearAllMocks();
+    setSystemTime(new Date("2024-01-15T12:00:00Z"));
+    globalThis.fetch = mockFetch as unknown as typeof fetch;
+
+    mockFetch.mockImplementation((url: string) =>
+      Promise.resolve({
+        ok: true,
+        json: () =>
+          Promise.resolve(
+            url.includes("/days?") ? mockDataByDate : mockGoalHistory,
+          ),
+      } as Response),
+    );
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it("fetches the week before the range for the rolling average", async () => {
+    renderWithClient(<Trends />);
+
+    await screen.findByRole("img", { name: /^Protein per day/ });
+    expect(globalThis.fetch).toHaveBeenCalledWith(
+      "http://test-api/profiles/1/days?from=2024-01-03&to=2024-01-15",
+      expect.anything(),
+    );
+  });
+
+  it("charts each active nutrient with a bar per day", async () => {
+    const { container } = renderWithClient(<Trends />);
+
+    const chart = await screen.findByRole("img", { name: /^Protein per day/ });
+    expect(container.querySelectorAll(".trend-chart")).toHaveLength(4);
+    const bars = [...chart.querySelectorAll(".trend-bar")];
+    expect(bars).toHaveLength(7);
+    expect(bars.map((bar) => bar.getAttribute("height"))).toEqual([
+      "0",
+      "0",
+      "0",
+      "0",
+      "2",
+      "0",
+      "3",
+    ]);
+    expect(chart).toHaveClass("nutrient-color-protein");
+  });
+
+  it("sums up the rolling average against the current goal", async () => {
+    renderWithClient(<Trends />);
+
+    await screen.findByRole("img", { name: /^Protein per day/ });
+    // (2 + 3) / 7 over the last week.
+    expect(screen.getByText("Avg. 0.7 / goal 5")).toBeInTheDocument();
+    // The axis of each chart is labeled with the first, the middle, and the last day.
+    expect(screen.getAllByText("9 Jan")).toHaveLength(4);
+    expect(screen.getAllByText("12 Jan")).toHaveLength(4);
+    expect(screen.getAllByText("15 Jan")).toHaveLength(4);
+  });
+
+  it("switches to a longer range", async () => {
+    const user = userEvent.setup();
+    renderWithClient(<Trends />);
+
+    await user.selectOptions(
+      await screen.findByRole("combobox", { name: "Period" }),
+      "30",
+    );
+
+    await waitFor(() => {
+      expect(globalThis.fetch).toHaveBeenCalledWith(
+        "http://test-api/profiles/1/days?from=2023-12-11&to=2024-01-15",
+        expect.anything(),
+      );
+    });
+    const chart = await screen.findByRole("img", { name: /^Protein per day/ });
+    expect(chart.querySelectorAll(".trend-bar")).toHaveLength(30);
+  });
+});
@@ -0,0 +1,134 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
+import { ApiError, apiClient } from "@/api";
+import { sessionToken, setSessionToken } from "@/auth";
+
+describe("apiClient", () => {
+  const mockFetch = mock((_url: string, _init?: RequestInit) =>
+    Promise.resolve({
+      ok: true,
+      status: 200,
+      json: () => Promise.resolve({ protein: 2 }),
+    } as Response),
+  );
+  const api = apiClient("http://test-api", 2);
+
+  beforeEach(() => {
+    mock.clearAllMocks();
+    globalThis.fetch = mockFetch as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    setSessionToken(null);
+    mock.restore();
+  });
+
+  it("fetches the data of the profile", async () => {
+    expect(await api.portions("2024-01-15")).toEqual({ protein: 2 });
+    expect(mockFetch.mock.calls[0][0]).toBe(
+      "http://test-api/profiles/2/days/2024-01-15/portions",
+    );
+  });
+
+  it("rejects responses not matching the schema", async () => {
+    mockFetch.mockImplementationOnce(() =>
+      Promise.resolve({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve({ protein: "2" }),
+      } as Response),
+    );
+    await expect(api.portions("2024-01-15")).rejects.toThrow();
+  });
+
+  it("surfaces the reason the backend gave", async () => {
+    mockFetch.mockImplementationOnce(() =>
+      Promise.resolve({
+        ok: false,
+        status: 400,
+        text: () => Promise.resolve("Invalid date"),
+      } as Response),
+    );
+    const error = await api.portions("tomorrow").catch((e) => e);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.status).toBe(400);
+    expect(error.message).toBe("Invalid date");
+  });
+
+  it("passes on the cancellation of a request", async () => {
+    const controller = new AbortController();
+    await api.portions("2024-01-15", controller.signal);
+    const signal = mockFetch.mock.calls[0][1]?.signal;
+    expect(signal?.aborted).toBe(false);
+    controller.abort();
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it("returns null when logging in with a wrong password", async () => {
+    mockFetch.mockImplementationOnce(() =>
+      Promise.resolve({
+        ok: false,
+        status: 401,
+        text: () => Promise.resolve("Wrong password"),
+      } as Response),
+    );
+    expect(await api.login("guess")).toBeNull();
+  });
+
+  it("drops the session on logout even if the backend can't be reached", async () => {
+    setSessionToken("abc");
+    mockFetch.mockImplementationOnce(() =>
+      Promise.reject(new TypeError("Failed to fetch")),
+    );
+    await expect(api.logout()).rejects.toThrow();
+    expect(sessionToken()).toBeNull();
+  });
+
+  it("yields the changes as they arrive", async () => {
+    const encoder = new TextEncoder();
+    const chunks = [
+      ': keep-alive\n\ndata: {"kind":"goals",',
+      '"profile":2}\n\ndata: {"kind":"nutrients"}\n\n',
+    ];
+    mockFetch.mockImplementationOnce(() =>
+      Promise.resolve({
+        ok: true,
+        status: 200,
+        body: new ReadableStream({
+          start(controller) {
+            for (const chunk of chunks) {
+              controller.enqueue(encoder.encode(chunk));
+            }
+            controller.close();
+          },
+        }),
+      } as Response),
+    );
+
+    const changes = [];
+    for await (const change of api.changes()) {
+      changes.push(change);
+    }
+    expect(changes).toEqual([{ kind: "goals" }, { kind: "nutrients" }]);
+    expect(mockFetch.mock.calls[0][0]).toBe(
+      "http://test-api/profiles/2/changes",
+    );
+  });
+
+  it("makes the URL of commands", () => {
+    expect(api.commandsUrl()).toBe("http://test-api/profiles/2/commands");
+  });
+});
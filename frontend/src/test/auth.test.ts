@@ -0,0 +1,71 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
+import {
+  authFetch,
+  sessionToken,
+  setSessionToken,
+  UNAUTHORIZED_EVENT,
+} from "@/auth";
+
+describe("authFetch", () => {
+  const mockFetch = mock(() =>
+    Promise.resolve({ ok: true, status: 200 } as Response),
+  );
+
+  beforeEach(() => {
+    mock.clearAllMocks();
+    globalThis.fetch = mockFetch as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    setSessionToken(null);
+    mock.restore();
+  });
+
+  it("sends the request as is without a session", async () => {
+    await authFetch("http://test-api/nutrients", { method: "POST" });
+    expect(mockFetch).toHaveBeenCalledWith("http://test-api/nutrients", {
+      method: "POST",
+    });
+  });
+
+  it("sends the session token", async () => {
+    setSessionToken("abc");
+    await authFetch("http://test-api/nutrients", { method: "POST" });
+
+    const [, init] = mockFetch.mock.calls[0] as unknown as [
+      string,
+      RequestInit,
+    ];
+    expect(init.method).toBe("POST");
+    expect(new Headers(init.headers).get("Authorization")).toBe("Bearer abc");
+  });
+
+  it("drops the session when the backend rejects it", async () => {
+    setSessionToken("abc");
+    mockFetch.mockImplementationOnce(() =>
+      Promise.resolve({ ok: false, status: 401 } as Response),
+    );
+    const onUnauthorized = mock();
+    window.addEventListener(UNAUTHORIZED_EVENT, onUnauthorized);
+
+    await authFetch("http://test-api/nutrients");
+
+    window.removeEventListener(UNAUTHORIZED_EVENT, onUnauthorized);
+    expect(onUnauthorized).toHaveBeenCalledTimes(1);
+    expect(sessionToken()).toBeNull();
+  });
+});
@@ -12,8 +12,37 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
-import { describe, expect, it } from "bun:test";
-import { PortionsOfNutrients } from "@/common";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  mock,
+} from "bun:test";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { renderHook, waitFor } from "@testing-library/react";
+import { createElement, type ReactNode } from "react";
+import { PortionsByDate, PortionsOfNutrients } from "@/api";
+import { BackendBaseUrl } from "@/BackendUrlContext";
+import {
+  dayAfter,
+  dayBefore,
+  dayOf,
+  defaultMeal,
+  fromIsoDate,
+  isoDatesBetween,
+  mealsToUnconsume,
+  mealToUnconsume,
+  mergeCommand,
+  nutrientColorsCss,
+  nutrientLabel,
+  toIsoDate,
+  usePortionsRange,
+  withPendingMeals,
+} from "@/common";
+import { DEFAULT_SETTINGS } from "@/settings";
 
 describe("PortionsOfNutrients", () => {
   it("accepts empty object", () => {
@@ -38,3 +67,366 @@ describe("PortionsOfNutrients", () => {
 
   // Possible future extension: reject invalid nutrients.
 });
+
+describe("PortionsByDate", () => {
+  it("accepts portions keyed by date", () => {
+    expect(PortionsByDate.parse({ "2024-01-15": { protein: 1 } })).toEqual({
+      "2024-01-15": { protein: 1 },
+    });
+  });
+
+  it("rejects invalid portions", () => {
+    expect(() =>
+      PortionsByDate.parse({ "2024-01-15": { protein: "1" } }),
+    ).toThrow();
+  });
+});
+
+describe("isoDatesBetween", () => {
+  it("includes both ends", () => {
+    expect(isoDatesBetween("2024-02-27", "2024-03-01")).toEqual([
+      "2024-02-27",
+      "2024-02-28",
+      "2024-02-29",
+      "2024-03-01",
+    ]);
+  });
+
+  it("handles a single day", () => {
+    expect(isoDatesBetween("2024-01-15", "2024-01-15")).toEqual(["2024-01-15"]);
+  });
+});
+
+describe("usePortionsRange", () => {
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it("fills in missing days and seeds the cache of each day", async () => {
+    globalThis.fetch = mock(() =>
+      Promise.resolve({
+        ok: true,
+        json: () => Promise.resolve({ "2024-01-15": { protein: 2 } }),
+      } as Response),
+    ) as unknown as typeof fetch;
+
+    // Unlike the usual test client, this one keeps unobserved queries, like the seeded days.
+    const queryClient = new QueryClient({
+      defaultOptions: { queries: { retry: false } },
+    });
+    const wrapper = ({ children }: { children: ReactNode }) =>
+      createElement(
+        QueryClientProvider,
+        { client: queryClient },
+        createElement(
+          BackendBaseUrl.Provider,
+          { value: "http://test-api" },
+          children,
+        ),
+      );
+
+    const { result } = renderHook(
+      () => usePortionsRange("2024-01-14", "2024-01-15"),
+      { wrapper },
+    );
+
+    await waitFor(() => {
+      expect(result.current.data).toEqual({
+        "2024-01-14": {},
+        "2024-01-15": { protein: 2 },
+      });
+    });
+    expect(globalThis.fetch).toHaveBeenCalledWith(
+      "http://test-api/profiles/1/days?from=2024-01-14&to=2024-01-15",
+      expect.anything(),
+    );
+    expect(
+      queryClient.getQueryData<PortionsOfNutrients>([
+        "portions",
+        1,
+        "2024-01-15",
+      ]),
+    ).toEqual({
+      protein: 2,
+    });
+    expect(
+      queryClient.getQueryData<PortionsOfNutrients>([
+        "portions",
+        1,
+        "2024-01-14",
+      ]),
+    ).toEqual({});
+  });
+});
+
+describe("nutrientLabel", () => {
+  const nutrient = {
+    id: "water",
+    labels: { en: "Water", de: "Wasser" },
+    color: "#3366ff",
+    position: 0,
+    active: true,
+  };
+
+  it("uses the language without the region", () => {
+    expect(nutrientLabel(nutrient, "de")).toBe("Wasser");
+    expect(nutrientLabel(nutrient, "en-GB")).toBe("Water");
+  });
+
+  it("falls back to English, then to any label, then to the id", () => {
+    expect(nutrientLabel(nutrient, "ja")).toBe("Water");
+    expect(nutrientLabel({ ...nutrient, labels: { de: "Wasser" } }, "ja")).toBe(
+      "Wasser",
+    );
+    expect(nutrientLabel({ ...nutrient, labels: {} }, "ja")).toBe("water");
+  });
+});
+
+describe("nutrientColorsCss", () => {
+  it("defines a color class per nutrient", () => {
+    expect(
+      nutrientColorsCss([
+        {
+          id: "water",
+          labels: {},
+          color: "#3366ff",
+          position: 0,
+          active: false,
+        },
+      ]),
+    ).toBe(
+      ".nutrient-color-water { --color: #3366ff; --in-progress-color: oklch(from #3366ff calc(l + 0.1) c h); }",
+    );
+  });
+});
+
+describe("defaultMeal", () => {
+  it("picks the meal by the time of day", () => {
+    expect(defaultMeal(new Date(2026, 0, 1, 7))).toBe("breakfast");
+    expect(defaultMeal(new Date(2026, 0, 1, 12, 30))).toBe("lunch");
+    expect(defaultMeal(new Date(2026, 0, 1, 19))).toBe("dinner");
+    expect(defaultMeal(new Date(2026, 0, 1, 23))).toBe("snack");
+    expect(defaultMeal(new Date(2026, 0, 1, 2))).toBe("snack");
+  });
+});
+
+// The device's time zone must not matter, except where it's used as the user's one.
+describe.each([
+  "UTC",
+  "Asia/Tokyo",
+  "America/Los_Angeles",
+  "Pacific/Kiritimati",
+])("days in %s", (timeZone) => {
+  const deviceTimeZone = process.env.TZ;
+
+  beforeAll(() => {
+    process.env.TZ = timeZone;
+  });
+
+  afterAll(() => {
+    if (deviceTimeZone === undefined) {
+      delete process.env.TZ;
+    } else {
+      process.env.TZ = deviceTimeZone;
+    }
+  });
+
+  it("steps through calendar days", () => {
+    // Daylight saving time starts on 2026-03-08 in California, and ends on 2026-10-25 in Europe.
+    for (const isoDate of ["2026-03-08", "2026-10-25", "2026-01-01"]) {
+      expect(toIsoDate(dayAfter(dayBefore(fromIsoDate(isoDate))))).toBe(
+        isoDate,
+      );
+    }
+    expect(toIsoDate(dayAfter(fromIsoDate("2026-03-08")))).toBe("2026-03-09");
+    expect(toIsoDate(dayBefore(fromIsoDate("2026-03-01")))).toBe("2026-02-28");
+  });
+
+  it("takes the day from the clock of the device by default", () => {
+    expect(dayOf(new Date(2026, 0, 1, 0, 30), DEFAULT_SETTINGS)).toBe(
+      "2026-01-01",
+    );
+    expect(dayOf(new Date(2026, 0, 1, 23, 30), DEFAULT_SETTINGS)).toBe(
+      "2026-01-01",
+    );
+  });
+
+  it("counts the hours before the start of the day to the previous day", () => {
+    const settings = { ...DEFAULT_SETTINGS, dayStartHour: 4 };
+    expect(dayOf(new Date(2026, 0, 1, 3, 59), settings)).toBe("2025-12-31");
+    expect(dayOf(new Date(2026, 0, 1, 4), settings)).toBe("2026-01-01");
+  });
+
+  it("takes the day from the clock in the chosen time zone", () => {
+    const instant = new Date("2026-01-01T15:30:00Z");
+    expect(
+      dayOf(instant, { ...DEFAULT_SETTINGS, timeZone: "Asia/Tokyo" }),
+    ).toBe("2026-01-02");
+    expect(
+      dayOf(instant, {
+        ...DEFAULT_SETTINGS,
+        timeZone: "America/Los_Angeles",
+      }),
+    ).toBe("2026-01-01");
+  });
+
+  it("starts the day by the clock on daylight saving time changes", () => {
+    const settings = {
+      ...DEFAULT_SETTINGS,
+      timeZone: "America/Los_Angeles",
+      dayStartHour: 4,
+    };
+    // 04:30 after the clocks were moved forward, 3.5 hours after midnight.
+    expect(dayOf(new Date("2026-03-08T11:30:00Z"), settings)).toBe(
+      "2026-03-08",
+    );
+    // 03:30 after the clocks were moved back, 4.5 hours after midnight.
+    expect(dayOf(new Date("2026-11-01T11:30:00Z"), settings)).toBe(
+      "2026-10-31",
+    );
+  });
+
+  it("picks the meal by the time in the chosen time zone", () => {
+    expect(defaultMeal(new Date("2026-01-01T23:00:00Z"), "Asia/Tokyo")).toBe(
+      "breakfast",
+    );
+    expect(
+      defaultMeal(new Date("2026-01-01T23:00:00Z"), "America/Los_Angeles"),
+    ).toBe("lunch");
+  });
+});
+
+describe("mealToUnconsume", () => {
+  it("prefers the selected meal", () => {
+    expect(
+      mealToUnconsume(3, { lunch: { protein: 1 } }, "protein", "lunch"),
+    ).toBe("lunch");
+  });
+
+  it("falls back to the portions without a meal", () => {
+    expect(
+      mealToUnconsume(3, { lunch: { protein: 1 } }, "protein", "dinner"),
+    ).toBeUndefined();
+  });
+
+  it("needs enough portions for the amount", () => {
+    expect(
+      mealToUnconsume(1.5, { lunch: { protein: 0.5 } }, "protein", "lunch", 1),
+    ).toBeUndefined();
+  });
+
+  it("falls back to the latest meal having any", () => {
+    expect(
+      mealToUnconsume(
+        2,
+        { breakfast: { protein: 1 }, lunch: { protein: 1 } },
+        "protein",
+        "dinner",
+      ),
+    ).toBe("lunch");
+  });
+});
+
+describe("mealsToUnconsume", () => {
+  it("takes from the selected meal first", () => {
+    expect(
+      mealsToUnconsume(3, { lunch: { protein: 3 } }, "protein", "lunch", 2),
+    ).toEqual([{ meal: "lunch", amount: 2 }]);
+  });
+
+  it("takes the rest from the portions without a meal, then the latest meals", () => {
+    expect(
+      mealsToUnconsume(
+        6,
+        {
+          breakfast: { protein: 2 },
+          lunch: { protein: 1 },
+          dinner: { protein: 2 },
+        },
+        "protein",
+        "lunch",
+        4.5,
+      ),
+    ).toEqual([
+      { meal: "lunch", amount: 1 },
+      { amount: 1 },
+      { meal: "dinner", amount: 2 },
+      { meal: "breakfast", amount: 0.5 },
+    ]);
+  });
+});
+
+describe("withPendingMeals", () => {
+  it("adds the pending commands on the day to the meals", () => {
+    const entry = {
+      id: 1,
+      url: "http://test-api/profiles/1/commands",
+      queryKey: ["portions", 1, "2024-01-15"],
+      deltas: {},
+      body: [
+        {
+          type: "unconsume",
+          date: "2024-01-15",
+          nutrient: "protein",
+          meal: "dinner",
+          amount: 2,
+        },
+        {
+          type: "consume",
+          date: "2024-01-15",
+          nutrient: "carbs",
+          meal: "lunch",
+        },
+        { type: "consume", date: "2024-01-15", nutrient: "carbs" },
+        {
+          type: "consume",
+          date: "2024-01-16",
+          nutrient: "carbs",
+          meal: "lunch",
+        },
+        { type: "inc", date: "2024-01-15", nutrient: "fats", meal: "lunch" },
+      ],
+    };
+    expect(
+      withPendingMeals(
+        { dinner: { protein: 3 } },
+        [entry, { ...entry, id: 2, url: "http://test-api/other" }],
+        "http://test-api/profiles/1/commands",
+        "2024-01-15",
+      ),
+    ).toEqual({ dinner: { protein: 1 }, lunch: { carbs: 1 } });
+  });
+});
+
+describe("mergeCommand", () => {
+  const consume = {
+    type: "consume" as const,
+    date: "2024-01-15",
+    nutrient: "protein",
+  };
+
+  it("adds up the amounts of the same command in a row", () => {
+    expect(
+      mergeCommand([{ ...consume, nutrient: "carbs" }, consume], {
+        ...consume,
+        amount: 0.5,
+      }),
+    ).toEqual([
+      { ...consume, nutrient: "carbs" },
+      { ...consume, amount: 1.5 },
+    ]);
+  });
+
+  it("keeps the commands on the nutrient in order", () => {
+    const unconsume = { ...consume, type: "unconsume" as const };
+    expect(mergeCommand([consume, unconsume], consume)).toEqual([
+      consume,
+      unconsume,
+      consume,
+    ]);
+    expect(mergeCommand([consume], { ...consume, meal: "lunch" })).toEqual([
+      consume,
+      { ...consume, meal: "lunch" },
+    ]);
+  });
+});
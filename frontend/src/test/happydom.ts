@@ -14,4 +14,5 @@
 
 import { GlobalRegistrator } from "@happy-dom/global-registrator";
 
-GlobalRegistrator.register();
+// Client-side routing needs a real origin, which `about:blank` does not have.
+GlobalRegistrator.register({ url: "http://localhost/" });
@@ -0,0 +1,138 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, expect, it } from "bun:test";
+import {
+  goalProgress,
+  goalStatus,
+  goalsOn,
+  rollingAverages,
+  summarize,
+} from "@/history";
+
+describe("goalStatus", () => {
+  it("compares the count to the goal", () => {
+    expect(goalStatus(1, 3)).toBe("below");
+    expect(goalStatus(3, 3)).toBe("met");
+    expect(goalStatus(4, 3)).toBe("over");
+  });
+
+  it("reports no status without a goal", () => {
+    expect(goalStatus(2, 0)).toBe("none");
+  });
+});
+
+describe("goalProgress", () => {
+  it("is capped at 1", () => {
+    expect(goalProgress(1, 4)).toBe(0.25);
+    expect(goalProgress(6, 4)).toBe(1);
+    expect(goalProgress(6, 0)).toBe(0);
+  });
+});
+
+describe("goalsOn", () => {
+  const history = [
+    { from: "2024-01-01", goals: { protein: 2 } },
+    { from: "2024-02-01", goals: { protein: 3 } },
+  ];
+
+  it("finds the goals in force on a day", () => {
+    expect(goalsOn(history, "2024-01-31")).toEqual({ protein: 2 });
+    expect(goalsOn(history, "2024-02-01")).toEqual({ protein: 3 });
+    expect(goalsOn(history, "2024-03-01")).toEqual({ protein: 3 });
+  });
+
+  it("has no goals before the first change", () => {
+    expect(goalsOn(history, "2023-12-31")).toEqual({});
+  });
+});
+
+describe("summarize", () => {
+  const goals = (length: number) => Array(length).fill({ protein: 2 });
+
+  it("computes the average and the days on target", () => {
+    const summary = summarize(
+      [{ protein: 2 }, { protein: 1 }, { protein: 3 }, {}],
+      goals(4),
+      "protein",
+    );
+    expect(summary.average).toBe(1.5);
+    expect(summary.daysMet).toBe(1);
+  });
+
+  it("computes the streaks", () => {
+    const summary = summarize(
+      [
+        { protein: 2 },
+        { protein: 2 },
+        { protein: 2 },
+        { protein: 1 },
+        { protein: 2 },
+        { protein: 2 },
+      ],
+      goals(6),
+      "protein",
+    );
+    expect(summary.currentStreak).toBe(2);
+    expect(summary.longestStreak).toBe(3);
+  });
+
+  it("does not break the current streak before the end of today", () => {
+    const summary = summarize(
+      [{ protein: 2 }, { protein: 2 }, { protein: 1 }],
+      goals(3),
+      "protein",
+    );
+    expect(summary.currentStreak).toBe(2);
+  });
+
+  it("breaks the current streak when the goal was exceeded", () => {
+    const summary = summarize(
+      [{ protein: 2 }, { protein: 3 }, { protein: 1 }],
+      goals(3),
+      "protein",
+    );
+    expect(summary.currentStreak).toBe(0);
+  });
+
+  it("compares each day against the goals in force on it", () => {
+    const summary = summarize(
+      [{ protein: 2 }, { protein: 2 }, { protein: 3 }],
+      [{ protein: 2 }, { protein: 3 }, { protein: 3 }],
+      "protein",
+    );
+    expect(summary.daysMet).toBe(2);
+    expect(summary.currentStreak).toBe(1);
+  });
+
+  it("handles no days", () => {
+    expect(summarize([], [], "protein")).toEqual({
+      average: 0,
+      daysMet: 0,
+      currentStreak: 0,
+      longestStreak: 0,
+    });
+  });
+});
+
+describe("rollingAverages", () => {
+  it("averages each value with the ones before it", () => {
+    expect(rollingAverages([3, 1, 2, 6, 0], 3)).toEqual([3, 2, 2, 3, 8 / 3]);
+  });
+
+  it("handles fewer values than the window", () => {
+    expect(rollingAverages([2, 4], 7)).toEqual([2, 3]);
+    expect(rollingAverages([], 7)).toEqual([]);
+  });
+});
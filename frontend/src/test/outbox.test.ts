@@ -0,0 +1,446 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  mock,
+  spyOn,
+} from "bun:test";
+import { QueryClient } from "@tanstack/react-query";
+import type { PortionsOfNutrients } from "@/api";
+import {
+  addPortions,
+  memoryOutboxStore,
+  OUTBOX_QUERY_KEY,
+  Outbox,
+  type OutboxCommand,
+  type OutboxEntry,
+  type OutboxStore,
+  randomUuid,
+} from "@/outbox";
+
+describe("Outbox", () => {
+  const mockFetch = mock();
+  let queryClient: QueryClient;
+  let outbox: Outbox;
+
+  const consume = (name: string) => ({
+    url: `http://test-api/profiles/1/days/2024-01-15/portions/${name}/consume`,
+    queryKey: ["portions", 1, "2024-01-15"],
+    deltas: { [name]: 1 },
+  });
+
+  beforeEach(() => {
+    mock.clearAllMocks();
+    globalThis.fetch = mockFetch as unknown as typeof fetch;
+    queryClient = new QueryClient();
+    queryClient.setQueryData(["portions", 1, "2024-01-15"], { protein: 1 });
+    outbox = new Outbox(memoryOutboxStore());
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it("replays commands in order and applies them to the cache", async () => {
+    mockFetch.mockImplementation(() =>
+      Promise.resolve({
+        ok: true,
+        json: () => Promise.resolve("success"),
+      } as Response),
+    );
+
+    await outbox.enqueue(queryClient, consume("protein"));
+    await outbox.enqueue(queryClient, consume("carbs"));
+    expect(
+      queryClient.getQueryData<OutboxEntry[]>(OUTBOX_QUERY_KEY),
+    ).toHaveLength(2);
+
+    await outbox.flush(queryClient, () => {});
+
+    expect(mockFetch.mock.calls.map((c) => c[0])).toEqual([
+      "http://test-api/profiles/1/days/2024-01-15/portions/protein/consume",
+      "http://test-api/profiles/1/days/2024-01-15/portions/carbs/consume",
+    ]);
+    expect(
+      queryClient.getQueryData<PortionsOfNutrients>([
+        "portions",
+        1,
+        "2024-01-15",
+      ]),
+    ).toEqual({
+      protein: 2,
+      carbs: 1,
+    });
+    expect(queryClient.getQueryData<OutboxEntry[]>(OUTBOX_QUERY_KEY)).toEqual(
+      [],
+    );
+  });
+
+  it("keeps commands when the backend is unreachable", async () => {
+    mockFetch.mockImplementation(() =>
+      Promise.reject(new Error("Network error")),
+    );
+
+    await outbox.enqueue(queryClient, consume("protein"));
+    await outbox.enqueue(queryClient, consume("carbs"));
+    await outbox.flush(queryClient, () => {});
+
+    // Nothing past the first failure is attempted, to preserve the order.
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(await outbox.list()).toHaveLength(2);
+    expect(
+      queryClient.getQueryData<PortionsOfNutrients>([
+        "portions",
+        1,
+        "2024-01-15",
+      ]),
+    ).toEqual({
+      protein: 1,
+    });
+
+    mockFetch.mockImplementation(() =>
+      Promise.resolve({
+        ok: true,
+        json: () => Promise.resolve("success"),
+      } as Response),
+    );
+    await outbox.flush(queryClient, () => {});
+
+    expect(await outbox.list()).toHaveLength(0);
+    expect(
+      queryClient.getQueryData<PortionsOfNutrients>([
+        "portions",
+        1,
+        "2024-01-15",
+      ]),
+    ).toEqual({
+      protein: 2,
+      carbs: 1,
+    });
+  });
+
+  it("drops commands rejected by the backend", async () => {
+    mockFetch.mockImplementation((url: string) =>
+      Promise.resolve({
+        ok: !url.includes("protein"),
+        status: url.includes("protein") ? 400 : 200,
+        text: () => Promise.resolve("Invalid nutrient"),
+        json: () => Promise.resolve("success"),
+      } as Response),
+    );
+    const onRejected = mock();
+
+    await outbox.enqueue(queryClient, consume("protein"));
+    await outbox.enqueue(queryClient, consume("carbs"));
+    await outbox.flush(queryClient, onRejected);
+
+    expect(onRejected).toHaveBeenCalledTimes(1);
+    expect(await outbox.list()).toHaveLength(0);
+    expect(
+      queryClient.getQueryData<PortionsOfNutrients>([
+        "portions",
+        1,
+        "2024-01-15",
+      ]),
+    ).toEqual({
+      protein: 1,
+      carbs: 1,
+    });
+  });
+
+  it("applies or drops a command changing several nutrients as a whole", async () => {
+    const batch = {
+      url: "http://test-api/profiles/1/commands",
+      body: [
+        { type: "consume", date: "2024-01-15", nutrient: "protein", amount: 2 },
+        { type: "consume", date: "2024-01-15", nutrient: "carbs" },
+      ],
+      queryKey: ["portions", 1, "2024-01-15"],
+      deltas: { protein: 2, carbs: 1 },
+    };
+    mockFetch.mockImplementationOnce(() =>
+      Promise.resolve({
+        ok: false,
+        status: 400,
+        text: () => Promise.resolve("Invalid nutrient"),
+      } as Response),
+    );
+    mockFetch.mockImplementation(() =>
+      Promise.resolve({
+        ok: true,
+        json: () => Promise.resolve("success"),
+      } as Response),
+    );
+
+    await outbox.enqueue(queryClient, batch);
+    await outbox.flush(queryClient, () => {});
+    expect(
+      queryClient.getQueryData<PortionsOfNutrients>([
+        "portions",
+        1,
+        "2024-01-15",
+      ]),
+    ).toEqual({ protein: 1 });
+
+    await outbox.enqueue(queryClient, batch);
+    await outbox.flush(queryClient, () => {});
+    expect(mockFetch.mock.calls[1][1].body).toBe(JSON.stringify(batch.body));
+    expect(
+      queryClient.getQueryData<PortionsOfNutrients>([
+        "portions",
+        1,
+        "2024-01-15",
+      ]),
+    ).toEqual({ protein: 3, carbs: 1 });
+  });
+
+  it("holds commands back to merge the following ones into them", async () => {
+    mockFetch.mockImplementation(() =>
+      Promise.resolve({
+        ok: true,
+        json: () => Promise.resolve("success"),
+      } as Response),
+    );
+    const merge = (
+      queued: OutboxCommand,
+      command: OutboxCommand,
+    ): OutboxCommand | null =>
+      queued.url === command.url
+        ? {
+            ...queued,
+            deltas: addPortions(queued.deltas, command.deltas),
+          }
+        : null;
+
+    await outbox.enqueueHeld(queryClient, consume("protein"), 50, merge);
+    await outbox.enqueueHeld(queryClient, consume("protein"), 50, merge);
+    await outbox.enqueueHeld(queryClient, consume("carbs"), 50, merge);
+    await outbox.flush(queryClient, () => {});
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect((await outbox.list()).map((e) => e.deltas)).toEqual([
+      { protein: 2 },
+      { carbs: 1 },
+    ]);
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    await outbox.flush(queryClient, () => {});
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(
+      queryClient.getQueryData<PortionsOfNutrients>([
+        "portions",
+        1,
+        "2024-01-15",
+      ]),
+    ).toEqual({ protein: 3, carbs: 1 });
+  });
+
+  it("never merges into a command being sent", async () => {
+    let resolveFetch: (value: Response) => void = () => {};
+    mockFetch.mockImplementationOnce(
+      () =>
+        new Promise<Response>((resolve) => {
+          resolveFetch = resolve;
+        }),
+    );
+    // The first command is stored, but not yet marked as held back, when it's sent.
+    const store = memoryOutboxStore();
+    let gated = true;
+    let releaseAdd: () => void = () => {};
+    const gatedStore: OutboxStore = {
+      ...store,
+      add: async (command) => {
+        const entry = await store.add(command);
+        if (gated) {
+          gated = false;
+          await new Promise<void>((resolve) => {
+            releaseAdd = resolve;
+          });
+        }
+        return entry;
+      },
+    };
+    outbox = new Outbox(gatedStore);
+    const merge = (queued: OutboxCommand, command: OutboxCommand) => ({
+      ...queued,
+      deltas: addPortions(queued.deltas, command.deltas),
+    });
+    const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+    const first = outbox.enqueueHeld(
+      queryClient,
+      consume("protein"),
+      1000,
+      merge,
+    );
+    await tick();
+    const flushing = outbox.flush(queryClient, () => {});
+    await tick();
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    releaseAdd();
+    await first;
+    await outbox.enqueueHeld(queryClient, consume("protein"), 1000, merge);
+    resolveFetch({
+      ok: true,
+      json: () => Promise.resolve("success"),
+    } as Response);
+    await flushing;
+
+    expect((await outbox.list()).map((e) => e.deltas)).toEqual([
+      { protein: 1 },
+    ]);
+    expect(
+      queryClient.getQueryData<PortionsOfNutrients>([
+        "portions",
+        1,
+        "2024-01-15",
+      ]),
+    ).toEqual({ protein: 2 });
+  });
+
+  it("keeps the commands when the session is over", async () => {
+    mockFetch.mockImplementation(() =>
+      Promise.resolve({ ok: false, status: 401 } as Response),
+    );
+    const onRejected = mock();
+
+    await outbox.enqueue(queryClient, consume("protein"));
+    await outbox.flush(queryClient, onRejected);
+
+    expect(onRejected).not.toHaveBeenCalled();
+    expect(await outbox.list()).toHaveLength(1);
+  });
+
+  it("runs one flush at a time", async () => {
+    let resolveFirst: (value: Response) => void = () => {};
+    mockFetch.mockImplementationOnce(
+      () =>
+        new Promise<Response>((resolve) => {
+          resolveFirst = resolve;
+        }),
+    );
+    mockFetch.mockImplementation(() =>
+      Promise.resolve({
+        ok: true,
+        json: () => Promise.resolve("success"),
+      } as Response),
+    );
+
+    await outbox.enqueue(queryClient, consume("protein"));
+    const first = outbox.flush(queryClient, () => {});
+    await outbox.enqueue(queryClient, consume("carbs"));
+    const second = outbox.flush(queryClient, () => {});
+
+    resolveFirst({
+      ok: true,
+      json: () => Promise.resolve("success"),
+    } as Response);
+    await Promise.all([first, second]);
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(
+      queryClient.getQueryData<PortionsOfNutrients>([
+        "portions",
+        1,
+        "2024-01-15",
+      ]),
+    ).toEqual({
+      protein: 2,
+      carbs: 1,
+    });
+  });
+
+  it("flushes again after a flush failed", async () => {
+    mockFetch.mockImplementation(() =>
+      Promise.resolve({
+        ok: true,
+        json: () => Promise.resolve("success"),
+      } as Response),
+    );
+    const store = memoryOutboxStore();
+    const remove = spyOn(store, "remove").mockImplementationOnce(() =>
+      Promise.reject(new Error("Storage error")),
+    );
+    outbox = new Outbox(store);
+
+    await outbox.enqueue(queryClient, consume("protein"));
+    await expect(outbox.flush(queryClient, () => {})).rejects.toThrow(
+      "Storage error",
+    );
+    await outbox.flush(queryClient, () => {});
+
+    expect(remove).toHaveBeenCalledTimes(2);
+    expect(await outbox.list()).toEqual([]);
+  });
+
+  it("sends a command with the same id until it's confirmed", async () => {
+    mockFetch.mockImplementation(() =>
+      Promise.reject(new TypeError("Failed to fetch")),
+    );
+    await outbox.enqueue(queryClient, consume("protein"));
+    await outbox.flush(queryClient, () => {});
+    mockFetch.mockImplementation(() =>
+      Promise.resolve({
+        ok: true,
+        json: () => Promise.resolve("success"),
+      } as Response),
+    );
+    await outbox.flush(queryClient, () => {});
+
+    const [first, second] = mockFetch.mock.calls.map(
+      ([, init]) => new Headers(init.headers).get("Idempotency-Key") ?? "",
+    );
+    expect(first).toMatch(/^[0-9a-f-]{36}$/);
+    expect(second).toBe(first);
+  });
+
+  it("refetches instead of applying a command confirmed before", async () => {
+    mockFetch.mockImplementation(() =>
+      Promise.resolve({
+        ok: true,
+        json: () => Promise.resolve("duplicate"),
+      } as Response),
+    );
+    const invalidate = spyOn(queryClient, "invalidateQueries");
+
+    await outbox.enqueue(queryClient, consume("protein"));
+    await outbox.flush(queryClient, () => {});
+
+    expect(await outbox.list()).toHaveLength(0);
+    expect(
+      queryClient.getQueryData<PortionsOfNutrients>([
+        "portions",
+        1,
+        "2024-01-15",
+      ]),
+    ).toEqual({ protein: 1 });
+    expect(invalidate).toHaveBeenCalledWith({
+      queryKey: ["portions", 1, "2024-01-15"],
+    });
+  });
+});
+
+describe("randomUuid", () => {
+  it("makes version 4 UUIDs", () => {
+    expect(randomUuid()).toMatch(
+      /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/,
+    );
+    expect(randomUuid()).not.toBe(randomUuid());
+  });
+});
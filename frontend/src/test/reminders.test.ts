@@ -0,0 +1,164 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, expect, it, mock } from "bun:test";
+import i18n from "i18next";
+import {
+  dueReminders,
+  type SentReminders,
+  shortfalls,
+  showDueReminders,
+} from "@/reminders";
+import { DEFAULT_SETTINGS } from "@/settings";
+import { TEST_NUTRIENTS } from "./utils";
+
+describe("dueReminders", () => {
+  const settings = {
+    ...DEFAULT_SETTINGS,
+    timeZone: "UTC",
+    mealReminders: { lunch: "12:30", dinner: "19:00" },
+    summaryTime: "21:00",
+  };
+
+  it("returns the reminders whose time has come", () => {
+    expect(
+      dueReminders(new Date("2024-01-15T12:29:00Z"), settings, {}),
+    ).toEqual({ day: "2024-01-15", reminders: [] });
+    expect(
+      dueReminders(new Date("2024-01-15T12:30:00Z"), settings, {}),
+    ).toEqual({ day: "2024-01-15", reminders: ["lunch"] });
+  });
+
+  it("skips the reminders shown for the day already", () => {
+    const now = new Date("2024-01-15T12:45:00Z");
+    expect(
+      dueReminders(now, settings, { lunch: "2024-01-15" }).reminders,
+    ).toEqual([]);
+    expect(
+      dueReminders(now, settings, { lunch: "2024-01-14" }).reminders,
+    ).toEqual(["lunch"]);
+  });
+
+  it("skips the reminders long past", () => {
+    expect(
+      dueReminders(new Date("2024-01-15T21:30:00Z"), settings, {}).reminders,
+    ).toEqual(["summary"]);
+    expect(
+      dueReminders(new Date("2024-01-15T22:00:00Z"), settings, {}).reminders,
+    ).toEqual([]);
+  });
+
+  it("uses the clock of the chosen time zone", () => {
+    expect(
+      dueReminders(
+        new Date("2024-01-15T10:00:00Z"),
+        { ...settings, timeZone: "Asia/Tokyo" },
+        {},
+      ),
+    ).toEqual({ day: "2024-01-15", reminders: ["dinner"] });
+  });
+
+  it("counts the times after midnight to the day before the start of the day", () => {
+    expect(
+      dueReminders(
+        new Date("2024-01-16T01:10:00Z"),
+        { ...settings, dayStartHour: 4, summaryTime: "01:00" },
+        {},
+      ),
+    ).toEqual({ day: "2024-01-15", reminders: ["summary"] });
+  });
+});
+
+describe("shortfalls", () => {
+  it("lists the nutrients below their goals", () => {
+    expect(
+      shortfalls(
+        { protein: 5, vegetables: 1.5 },
+        { protein: 4, vegetables: 3, carbs: 2, fats: 0 },
+        ["protein", "vegetables", "carbs", "fats"],
+      ),
+    ).toEqual([
+      { nutrient: "vegetables", missing: 1.5 },
+      { nutrient: "carbs", missing: 2 },
+    ]);
+  });
+});
+
+describe("showDueReminders", () => {
+  const settings = {
+    ...DEFAULT_SETTINGS,
+    timeZone: "UTC",
+    mealReminders: { dinner: "21:00" },
+    summaryTime: "21:00",
+  };
+
+  const environment = (data: { fails?: boolean } = {}) => {
+    let sent: SentReminders = {};
+    const day = () =>
+      data.fails
+        ? Promise.reject(new Error("Network error"))
+        : Promise.resolve({ protein: 1 });
+    return {
+      settings,
+      i18n,
+      data: {
+        meals: () => Promise.resolve({ lunch: { protein: 1 } }),
+        portions: day,
+        goals: () => Promise.resolve({ protein: 3 }),
+        nutrients: () => Promise.resolve(TEST_NUTRIENTS),
+      },
+      sent: {
+        get: () => Promise.resolve(sent),
+        set: async (changed: SentReminders) => {
+          sent = changed;
+        },
+      },
+      notify: mock(() => Promise.resolve()),
+    };
+  };
+
+  it("shows each due reminder once a day", async () => {
+    const env = environment();
+
+    await showDueReminders(new Date("2024-01-15T21:00:00Z"), env);
+    await showDueReminders(new Date("2024-01-15T21:01:00Z"), env);
+
+    expect(env.notify).toHaveBeenCalledTimes(2);
+    expect(env.notify).toHaveBeenCalledWith(
+      "Dinner",
+      expect.objectContaining({ body: "Nothing recorded yet.", tag: "dinner" }),
+    );
+    expect(env.notify).toHaveBeenCalledWith(
+      "Summary of the day",
+      expect.objectContaining({ body: "2 Protein short", tag: "summary" }),
+    );
+    expect(await env.sent.get()).toEqual({
+      dinner: "2024-01-15",
+      summary: "2024-01-15",
+    });
+  });
+
+  it("skips the summary for the day without the data", async () => {
+    const env = environment({ fails: true });
+
+    await showDueReminders(new Date("2024-01-15T21:00:00Z"), env);
+
+    expect(env.notify).toHaveBeenCalledTimes(1);
+    expect(env.notify).toHaveBeenCalledWith("Dinner", expect.anything());
+    expect(await env.sent.get()).toEqual({
+      dinner: "2024-01-15",
+      summary: "2024-01-15",
+    });
+  });
+});
@@ -0,0 +1,51 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, expect, it } from "bun:test";
+import { parseRoute, routePath } from "@/routes";
+
+describe("parseRoute", () => {
+  it("parses the day and the views", () => {
+    expect(parseRoute("/")).toEqual({ view: "portions" });
+    expect(parseRoute("/day/2026-10-01")).toEqual({
+      view: "portions",
+      date: "2026-10-01",
+    });
+    expect(parseRoute("/goals")).toEqual({ view: "goals" });
+    expect(parseRoute("/history")).toEqual({ view: "history" });
+  });
+
+  it("falls back to today for unknown paths", () => {
+    for (const path of [
+      "/day/2026-02-30",
+      "/day/yesterday",
+      "/day/2026-10-01/more",
+      "/portions",
+      "/goals/more",
+      "/unknown",
+    ]) {
+      expect(parseRoute(path)).toEqual({ view: "portions" });
+    }
+  });
+
+  it("parses the paths it builds", () => {
+    for (const route of [
+      { view: "portions" as const },
+      { view: "portions" as const, date: "2026-10-01" },
+      { view: "settings" as const },
+    ]) {
+      expect(parseRoute(routePath(route))).toEqual(route);
+    }
+  });
+});
@@ -0,0 +1,99 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
+import { registerServiceWorker } from "@/serviceWorker";
+
+class FakeWorker extends EventTarget {
+  state = "installing";
+  postMessage = mock();
+
+  setState(state: string) {
+    this.state = state;
+    this.dispatchEvent(new Event("statechange"));
+  }
+}
+
+describe("registerServiceWorker", () => {
+  let registration: EventTarget & {
+    waiting: FakeWorker | null;
+    installing: FakeWorker | null;
+    update: () => void;
+  };
+  let container: EventTarget & {
+    controller: object | null;
+    register: ReturnType<typeof mock>;
+  };
+
+  beforeEach(() => {
+    registration = Object.assign(new EventTarget(), {
+      waiting: null,
+      installing: null,
+      update: () => {},
+    });
+    container = Object.assign(new EventTarget(), {
+      controller: {},
+      register: mock(() => Promise.resolve(registration)),
+    });
+    Object.defineProperty(navigator, "serviceWorker", {
+      value: container,
+      configurable: true,
+    });
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it("registers the worker", async () => {
+    await registerServiceWorker(() => {});
+    expect(container.register).toHaveBeenCalledWith("./sw.js");
+  });
+
+  it("offers an update once a new worker is installed", async () => {
+    const onUpdateAvailable = mock();
+    await registerServiceWorker(onUpdateAvailable);
+
+    const worker = new FakeWorker();
+    registration.installing = worker;
+    registration.dispatchEvent(new Event("updatefound"));
+    expect(onUpdateAvailable).not.toHaveBeenCalled();
+
+    worker.setState("installed");
+    expect(onUpdateAvailable).toHaveBeenCalledTimes(1);
+
+    onUpdateAvailable.mock.calls[0][0]();
+    expect(worker.postMessage).toHaveBeenCalledWith("skipWaiting");
+  });
+
+  it("offers an update downloaded during a previous visit", async () => {
+    registration.waiting = new FakeWorker();
+    const onUpdateAvailable = mock();
+    await registerServiceWorker(onUpdateAvailable);
+    expect(onUpdateAvailable).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not offer an update on the first installation", async () => {
+    container.controller = null;
+    const onUpdateAvailable = mock();
+    await registerServiceWorker(onUpdateAvailable);
+
+    const worker = new FakeWorker();
+    registration.installing = worker;
+    registration.dispatchEvent(new Event("updatefound"));
+    worker.setState("installed");
+
+    expect(onUpdateAvailable).not.toHaveBeenCalled();
+  });
+});
@@ -28,4 +28,6 @@ beforeEach(() => {
 // Optional: cleans up `render` after each test
 afterEach(() => {
   cleanup();
+  // The route is kept in the URL, which would otherwise carry over to the next test.
+  window.history.replaceState(null, "", "/");
 });
@@ -0,0 +1,111 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, expect, it } from "bun:test";
+import { fromCsv, parseExport, toCsv } from "@/transfer";
+
+describe("CSV", () => {
+  const data = {
+    nutrients: [],
+    portions: [
+      {
+        timestamp: 1767225600000,
+        date: "2026-01-01",
+        nutrient: "protein",
+        type: "consume" as const,
+        meal: "lunch" as const,
+        amount: 1,
+      },
+      {
+        timestamp: 1767225600001,
+        date: "2026-01-01",
+        nutrient: "protein",
+        type: "unconsume" as const,
+        amount: 0.5,
+      },
+    ],
+    goals: [
+      {
+        timestamp: 1767225600002,
+        from: "2026-02-01",
+        nutrient: "water",
+        type: "inc" as const,
+        amount: 1.5,
+      },
+    ],
+  };
+
+  it("writes one row per event", () => {
+    expect(toCsv(data)).toBe(
+      "kind,timestamp,date,nutrient,type,meal,amount\n" +
+        "portion,1767225600000,2026-01-01,protein,consume,lunch,1\n" +
+        "portion,1767225600001,2026-01-01,protein,unconsume,,0.5\n" +
+        "goal,1767225600002,2026-02-01,water,inc,,1.5\n",
+    );
+  });
+
+  it("reads files written before meals were recorded", () => {
+    expect(
+      fromCsv(
+        "kind,timestamp,date,nutrient,type\nportion,1,2026-01-01,protein,consume\n",
+      ).portions,
+    ).toEqual([
+      {
+        timestamp: 1,
+        date: "2026-01-01",
+        nutrient: "protein",
+        type: "consume",
+      },
+    ]);
+  });
+
+  it("reads what it writes", () => {
+    expect(fromCsv(toCsv(data))).toEqual(data);
+  });
+
+  it("accepts Windows line endings", () => {
+    expect(fromCsv(toCsv(data).replaceAll("\n", "\r\n"))).toEqual(data);
+  });
+
+  it("rejects other files", () => {
+    expect(() => fromCsv("date,protein\n2026-01-01,2\n")).toThrow();
+    expect(() =>
+      fromCsv(
+        "kind,timestamp,date,nutrient,type\nportion,1,2026-01-01,protein,eat\n",
+      ),
+    ).toThrow();
+    expect(() =>
+      fromCsv(
+        "kind,timestamp,date,nutrient,type\nmeal,1,2026-01-01,protein,consume\n",
+      ),
+    ).toThrow();
+    expect(() =>
+      fromCsv(
+        "kind,timestamp,date,nutrient,type,meal\nportion,1,2026-01-01,protein,consume,brunch\n",
+      ),
+    ).toThrow();
+  });
+});
+
+describe("parseExport", () => {
+  it("reads JSON and CSV", () => {
+    const data = { nutrients: [], portions: [], goals: [] };
+    expect(parseExport(JSON.stringify(data))).toEqual(data);
+    expect(parseExport("kind,timestamp,date,nutrient,type\n")).toEqual(data);
+  });
+
+  it("rejects JSON of another shape", () => {
+    expect(() => parseExport('{"protein": 2}')).toThrow();
+  });
+});
@@ -14,14 +14,26 @@
 
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { render } from "@testing-library/react";
+import type { Nutrient } from "@/api";
 import { BackendBaseUrl } from "@/BackendUrlContext";
+import { NUTRIENTS_QUERY_KEY } from "@/common";
+import { OutboxContext } from "@/OutboxContext";
+import { memoryOutboxStore, Outbox } from "@/outbox";
 
 export function formatDate(dateStr: string) {
-  return new Intl.DateTimeFormat("en-GB", { dateStyle: "full" }).format(
-    new Date(`${dateStr}T12:00:00Z`),
-  );
+  return new Intl.DateTimeFormat("en-GB", {
+    dateStyle: "full",
+    timeZone: "UTC",
+  }).format(new Date(`${dateStr}T00:00:00Z`));
 }
 
+export const TEST_NUTRIENTS: Nutrient[] = [
+  { id: "protein", labels: { en: "Protein" }, color: "#40c1e6" },
+  { id: "carbs", labels: { en: "Carbs" }, color: "#f47216" },
+  { id: "vegetables", labels: { en: "Vegetables" }, color: "#99d540" },
+  { id: "fats", labels: { en: "Fats" }, color: "#fbc707" },
+].map((n, position) => ({ ...n, position, active: true }));
+
 export function createTestQueryClient() {
   return new QueryClient({
     defaultOptions: {
@@ -36,13 +48,20 @@ export function createTestQueryClient() {
   });
 }
 
-export function renderWithClient(ui: React.ReactElement) {
+export function renderWithClient(
+  ui: React.ReactElement,
+  outbox = new Outbox(memoryOutboxStore()),
+  nutrients = TEST_NUTRIENTS,
+) {
   const queryClient = createTestQueryClient();
-  return render(
+  // The nutrient definitions are not refetched, so the tests don't need to mock them.
+  queryClient.setQueryData(NUTRIENTS_QUERY_KEY, nutrients);
+  const result = render(
     <QueryClientProvider client={queryClient}>
       <BackendBaseUrl.Provider value="http://test-api">
-        {ui}
+        <OutboxContext.Provider value={outbox}>{ui}</OutboxContext.Provider>
       </BackendBaseUrl.Provider>
     </QueryClientProvider>,
   );
+  return { ...result, queryClient };
 }
@@ -0,0 +1,99 @@
+// Copyright 2026 Roman F
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { ExportData, GoalEvent, PortionEvent } from "./api";
+
+const CSV_COLUMNS = [
+  "kind",
+  "timestamp",
+  "date",
+  "nutrient",
+  "type",
+  "meal",
+  "amount",
+];
+// Files written by earlier versions lack the columns added since.
+const CSV_REQUIRED_COLUMNS = 5;
+
+/**
+ * Converts the events to CSV, one per row. The nutrient definitions are left out, so the
+ * nutrients must exist when importing it.
+ */
+export function toCsv(data: ExportData) {
+  const rows = [
+    CSV_COLUMNS.join(","),
+    ...data.portions.map(
+      (e) =>
+        `portion,${e.timestamp},${e.date},${e.nutrient},${e.type},${e.meal ?? ""},${e.amount ?? 1}`,
+    ),
+    ...data.goals.map(
+      (e) =>
+        `goal,${e.timestamp},${e.from},${e.nutrient},${e.type},,${e.amount ?? 1}`,
+    ),
+  ];
+  return `${rows.join("\n")}\n`;
+}
+
+/**
+ * Parses the CSV produced by `toCsv`. Nutrient ids, dates and types never need quoting.
+ *
+ * @throws Error if the file is not in that format.
+ */
+export function fromCsv(csv: string): ExportData {
+  const [header, ...rows] = csv
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line !== "");
+  const columns = header?.split(",") ?? [];
+  if (
+    columns.length < CSV_REQUIRED_COLUMNS ||
+    columns.some((column, i) => column !== CSV_COLUMNS[i])
+  ) {
+    throw new Error("unexpected CSV header");
+  }
+
+  const data: ExportData = { nutrients: [], portions: [], goals: [] };
+  for (const row of rows) {
+    const cells = row.split(",");
+    if (cells.length !== columns.length) {
+      throw new Error(`unexpected CSV row: ${row}`);
+    }
+    const [kind, timestamp, date, nutrient, type, meal, amount] = cells;
+    const event = {
+      timestamp: Number(timestamp),
+      nutrient,
+      type,
+      ...(amount ? { amount: Number(amount) } : {}),
+    };
+    if (kind === "portion") {
+      data.portions.push(
+        PortionEvent.parse({ ...event, date, ...(meal ? { meal } : {}) }),
+      );
+    } else if (kind === "goal") {
+      data.goals.push(GoalEvent.parse({ ...event, from: date }));
+    } else {
+      throw new Error(`unexpected CSV row: ${row}`);
+    }
+  }
+  return data;
+}
+
+/**
+ * Parses an exported file, telling JSON and CSV apart by the content.
+ */
+export function parseExport(text: string): ExportData {
+  return text.trimStart().startsWith("{")
+    ? ExportData.parse(JSON.parse(text))
+    : fromCsv(text);
+}